@@ -0,0 +1,445 @@
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/context/ThemeContext';
+import { getCalendarEntries } from '@/services/reminderService';
+import {
+  addDays,
+  CalendarEntry,
+  DAY_SLOT_HOURS,
+  DEFAULT_SLOT_HOUR,
+  getEntryPlatforms,
+  getMonthGrid,
+  getWeekDays,
+  groupEntriesByDay,
+  startOfDay,
+  toDayKey,
+} from '@/services/calendar';
+import { getShareTarget } from '@/services/shareTargets';
+
+type CalendarView = 'month' | 'week' | 'day';
+
+const VIEW_OPTIONS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * First and last day shown by a view, the end is exclusive
+ */
+const getVisibleRange = (view: CalendarView, selectedDate: Date): { start: Date; end: Date } => {
+  if (view === 'month') {
+    const weeks = getMonthGrid(selectedDate);
+    return { start: weeks[0][0], end: addDays(weeks[weeks.length - 1][6], 1) };
+  }
+  if (view === 'week') {
+    const days = getWeekDays(selectedDate);
+    return { start: days[0], end: addDays(days[6], 1) };
+  }
+  const start = startOfDay(selectedDate);
+  return { start, end: addDays(start, 1) };
+};
+
+export default function CalendarScreen() {
+  const { isDarkMode } = useTheme();
+  const [view, setView] = useState<CalendarView>('month');
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(new Date()));
+  const [entriesByDay, setEntriesByDay] = useState<Record<string, CalendarEntry[]>>({});
+  // Focus reloads are set up once, so they read the visible range through a ref
+  const rangeRef = useRef(getVisibleRange(view, selectedDate));
+  rangeRef.current = getVisibleRange(view, selectedDate);
+
+  const loadEntries = async () => {
+    try {
+      const { start, end } = rangeRef.current;
+      setEntriesByDay(groupEntriesByDay(await getCalendarEntries(start, end)));
+    } catch (error) {
+      console.error('Error loading calendar:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [view, selectedDate]);
+
+  // Reload whenever the screen regains focus, e.g. after scheduling from a slot
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [])
+  );
+
+  const todayKey = toDayKey(new Date());
+  const cardColor = isDarkMode ? '#333' : '#f5f5f5';
+
+  const handleMove = (direction: 1 | -1) => {
+    if (view === 'month') {
+      setSelectedDate(new Date(selectedDate.getFullYear(), selectedDate.getMonth() + direction, 1));
+    } else {
+      setSelectedDate(addDays(selectedDate, view === 'week' ? 7 * direction : direction));
+    }
+  };
+
+  const handleCreateAt = (day: Date, hour: number = DEFAULT_SLOT_HOUR) => {
+    const date = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour);
+    router.push({
+      pathname: '/create-reminder',
+      params: { presentation: 'modal', date: date.toISOString() }
+    });
+  };
+
+  const handleOpenReminder = (id: string) => {
+    router.push({
+      pathname: '/reminder/[id]',
+      params: { id }
+    });
+  };
+
+  const handleOpenDay = (day: Date) => {
+    setSelectedDate(day);
+    setView('day');
+  };
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const formatHour = (hour: number) => {
+    return new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric', hour12: true });
+  };
+
+  const getTitle = () => {
+    if (view === 'month') {
+      return selectedDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    }
+    if (view === 'week') {
+      const days = getWeekDays(selectedDate);
+      const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return `${format(days[0])} - ${format(days[6])}`;
+    }
+    return selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+  };
+
+  const renderDots = (entries: CalendarEntry[]) => (
+    <ThemedView style={styles.dots}>
+      {getEntryPlatforms(entries).map(platform => (
+        <ThemedView key={platform} style={[styles.dot, { backgroundColor: getShareTarget(platform)?.color ?? '#8E8E93' }]} />
+      ))}
+    </ThemedView>
+  );
+
+  const renderEntry = (entry: CalendarEntry) => (
+    <TouchableOpacity
+      key={`${entry.reminder.id}-${entry.date.toISOString()}`}
+      style={[styles.entry, { backgroundColor: cardColor }]}
+      onPress={() => handleOpenReminder(entry.reminder.id)}
+    >
+      {renderDots([entry])}
+      <ThemedText style={styles.entryTime}>{formatTime(entry.date)}</ThemedText>
+      <ThemedText
+        style={[styles.entryTitle, entry.completed && styles.completedText]}
+        numberOfLines={1}
+      >
+        {entry.reminder.title}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderMonth = () => {
+    const selectedKey = toDayKey(selectedDate);
+    const selectedEntries = entriesByDay[selectedKey] ?? [];
+    return (
+      <>
+        <ThemedView style={styles.weekRow}>
+          {WEEKDAY_LABELS.map(label => (
+            <ThemedText key={label} style={styles.weekdayLabel}>{label}</ThemedText>
+          ))}
+        </ThemedView>
+        {getMonthGrid(selectedDate).map(week => (
+          <ThemedView key={toDayKey(week[0])} style={styles.weekRow}>
+            {week.map(day => {
+              const key = toDayKey(day);
+              const isSelected = key === selectedKey;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.dayCell, isSelected && styles.dayCellSelected]}
+                  onPress={() => setSelectedDate(day)}
+                >
+                  <ThemedText style={[
+                    styles.dayNumber,
+                    day.getMonth() !== selectedDate.getMonth() && styles.outsideMonth,
+                    key === todayKey && styles.today,
+                    isSelected && styles.selectedText,
+                  ]}>
+                    {day.getDate()}
+                  </ThemedText>
+                  {renderDots(entriesByDay[key] ?? [])}
+                </TouchableOpacity>
+              );
+            })}
+          </ThemedView>
+        ))}
+
+        <ThemedView style={styles.dayList}>
+          <TouchableOpacity onPress={() => handleOpenDay(selectedDate)}>
+            <ThemedText type="defaultSemiBold">
+              {selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            </ThemedText>
+          </TouchableOpacity>
+          {selectedEntries.map(renderEntry)}
+          {selectedEntries.length === 0 && (
+            <TouchableOpacity
+              style={[styles.emptySlot, { borderColor: cardColor }]}
+              onPress={() => handleCreateAt(selectedDate)}
+            >
+              <Ionicons name="add-circle-outline" size={20} color="#007AFF" />
+              <ThemedText style={styles.emptySlotText}>Nothing scheduled, tap to add a post</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ThemedView>
+      </>
+    );
+  };
+
+  const renderWeek = () => (
+    <ThemedView style={styles.dayList}>
+      {getWeekDays(selectedDate).map(day => {
+        const key = toDayKey(day);
+        const entries = entriesByDay[key] ?? [];
+        return (
+          <ThemedView key={key} style={styles.agendaDay}>
+            <TouchableOpacity onPress={() => handleOpenDay(day)}>
+              <ThemedText type="defaultSemiBold" style={key === todayKey && styles.today}>
+                {day.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+              </ThemedText>
+            </TouchableOpacity>
+            {entries.map(renderEntry)}
+            {entries.length === 0 && (
+              <TouchableOpacity
+                style={[styles.emptySlot, { borderColor: cardColor }]}
+                onPress={() => handleCreateAt(day)}
+              >
+                <Ionicons name="add" size={18} color="#007AFF" />
+                <ThemedText style={styles.emptySlotText}>Add a post</ThemedText>
+              </TouchableOpacity>
+            )}
+          </ThemedView>
+        );
+      })}
+    </ThemedView>
+  );
+
+  const renderDay = () => {
+    const entries = entriesByDay[toDayKey(selectedDate)] ?? [];
+    return (
+      <ThemedView style={styles.dayList}>
+        {DAY_SLOT_HOURS.map(hour => {
+          const slotEntries = entries.filter(entry => entry.date.getHours() === hour);
+          return (
+            <ThemedView key={hour} style={[styles.hourSlot, { borderTopColor: cardColor }]}>
+              <ThemedText style={styles.hourLabel}>{formatHour(hour)}</ThemedText>
+              {slotEntries.length > 0 ? (
+                <ThemedView style={styles.hourEntries}>
+                  {slotEntries.map(renderEntry)}
+                </ThemedView>
+              ) : (
+                <TouchableOpacity style={styles.hourEntries} onPress={() => handleCreateAt(selectedDate, hour)} />
+              )}
+            </ThemedView>
+          );
+        })}
+      </ThemedView>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <ThemedText type="title">Calendar</ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.section}>
+        <ThemedView style={styles.segmentRow}>
+          {VIEW_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.segment, view === option.value && styles.segmentSelected]}
+              onPress={() => setView(option.value)}
+            >
+              <ThemedText style={view === option.value && styles.segmentTextSelected}>
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ThemedView>
+
+        <ThemedView style={styles.navRow}>
+          <TouchableOpacity onPress={() => handleMove(-1)} style={styles.navButton}>
+            <Ionicons name="chevron-back" size={24} color="#007AFF" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setSelectedDate(startOfDay(new Date()))}>
+            <ThemedText type="defaultSemiBold">{getTitle()}</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleMove(1)} style={styles.navButton}>
+            <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+          </TouchableOpacity>
+        </ThemedView>
+
+        {view === 'month' && renderMonth()}
+        {view === 'week' && renderWeek()}
+        {view === 'day' && renderDay()}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  section: {
+    padding: 20,
+    gap: 12,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  navRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  navButton: {
+    padding: 4,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#666',
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+    minHeight: 48,
+  },
+  dayCellSelected: {
+    backgroundColor: '#007AFF',
+  },
+  dayNumber: {
+    fontSize: 16,
+  },
+  outsideMonth: {
+    color: '#999',
+  },
+  today: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+  },
+  selectedText: {
+    color: 'white',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 3,
+    marginTop: 4,
+    backgroundColor: 'transparent',
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  dayList: {
+    gap: 8,
+    marginTop: 8,
+  },
+  agendaDay: {
+    gap: 6,
+    marginBottom: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+  },
+  entryTime: {
+    fontSize: 14,
+    color: '#666',
+  },
+  entryTitle: {
+    flex: 1,
+    fontSize: 16,
+  },
+  completedText: {
+    textDecorationLine: 'line-through',
+    color: '#999',
+  },
+  emptySlot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  emptySlotText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  hourSlot: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    minHeight: 48,
+    paddingTop: 4,
+    gap: 8,
+  },
+  hourLabel: {
+    width: 56,
+    fontSize: 12,
+    color: '#666',
+  },
+  hourEntries: {
+    flex: 1,
+    gap: 4,
+    minHeight: 44,
+  },
+});
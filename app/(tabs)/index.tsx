@@ -1,27 +1,64 @@
 import { StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { MediaThumbnail } from '@/components/MediaThumbnail';
+import { UndoSnackbar } from '@/components/UndoSnackbar';
+import { ReminderFilterBar } from '@/components/ReminderFilterBar';
+import { CampaignChip } from '@/components/CampaignChip';
+import { ShareResultIcon } from '@/components/ShareResultIcon';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
-import { useState, useEffect } from 'react';
-import { getReminders, updateReminder, deleteReminder } from '@/services/reminderService';
+import { router, useFocusEffect } from 'expo-router';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  queryReminders,
+  updateReminder,
+  deleteReminder,
+  restoreDeletedReminder,
+  completeOccurrence,
+  skipOccurrence,
+} from '@/services/reminderService';
+import { describeRecurrence, getNextOccurrence } from '@/services/recurrence';
+import { DEFAULT_REMINDER_FILTERS, isQueryActive } from '@/services/reminderQuery';
+import { getReminderFilters, saveReminderFilters } from '@/services/settingsService';
+import { getCampaigns } from '@/services/campaignService';
+import { getShareTargetLabel } from '@/services/shareTargets';
+import { getLatestShareResults } from '@/services/shareResults';
 import { Reminder } from '@/types/reminder';
+import { Campaign } from '@/types/campaign';
+import { ReminderQuery } from '@/types/filters';
 import { useTheme } from '@/context/ThemeContext';
 
 export default function HomeScreen() {
   const { isDarkMode } = useTheme();
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [loading, setLoading] = useState(true);
+  // Last reminder moved to the trash, offered for undo
+  const [deletedReminder, setDeletedReminder] = useState<Reminder | null>(null);
+  const [query, setQuery] = useState<ReminderQuery>({ ...DEFAULT_REMINDER_FILTERS, text: '' });
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  // Focus reloads are set up once, so they read the latest query through refs
+  const queryRef = useRef(query);
+  const filtersLoadedRef = useRef(filtersLoaded);
+  queryRef.current = query;
+  filtersLoadedRef.current = filtersLoaded;
 
   const loadReminders = async () => {
     try {
-      setLoading(true);
-      const loadedReminders = await getReminders();
+      const loadedReminders = await queryReminders(queryRef.current);
       // Sort by date (most recent first)
       const sortedReminders = loadedReminders.sort((a, b) => 
         new Date(b.date).getTime() - new Date(a.date).getTime()
       );
       setReminders(sortedReminders);
+
+      const loadedCampaigns = await getCampaigns();
+      setCampaigns(loadedCampaigns);
+      // Drop filters on campaigns deleted since they were chosen
+      const staleIds = queryRef.current.campaignIds.filter(id => !loadedCampaigns.some(c => c.id === id));
+      if (staleIds.length > 0) {
+        setQuery(prev => ({ ...prev, campaignIds: prev.campaignIds.filter(id => !staleIds.includes(id)) }));
+      }
     } catch (error) {
       console.error('Error loading reminders:', error);
       Alert.alert('Error', 'Failed to load reminders');
@@ -30,10 +67,40 @@ export default function HomeScreen() {
     }
   };
 
+  // Restore the filters from the last session before the first load
   useEffect(() => {
-    loadReminders();
+    getReminderFilters().then(filters => {
+      setQuery(prev => ({ ...filters, text: prev.text }));
+      setFiltersLoaded(true);
+    });
   }, []);
 
+  useEffect(() => {
+    if (filtersLoaded) {
+      loadReminders();
+    }
+  }, [query, filtersLoaded]);
+
+  useEffect(() => {
+    if (filtersLoaded) {
+      saveReminderFilters({
+        platforms: query.platforms,
+        statuses: query.statuses,
+        dateRange: query.dateRange,
+        campaignIds: query.campaignIds,
+      });
+    }
+  }, [query.platforms, query.statuses, query.dateRange, query.campaignIds, filtersLoaded]);
+
+  // Reload whenever the screen regains focus, e.g. after creating or editing a reminder
+  useFocusEffect(
+    useCallback(() => {
+      if (filtersLoadedRef.current) {
+        loadReminders();
+      }
+    }, [])
+  );
+
   const handleCreateReminder = () => {
     router.push({
       pathname: '/create-reminder',
@@ -41,17 +108,32 @@ export default function HomeScreen() {
     });
   };
 
+  const handleOpenDrafts = () => {
+    router.push('/drafts');
+  };
+
+  const handleOpenCampaigns = () => {
+    router.push('/campaigns');
+  };
+
+  const handleOpenTrash = () => {
+    router.push('/trash');
+  };
+
   const handleOpenSettings = () => {
     router.push('/settings');
   };
 
+  const handleEditReminder = (id: string) => {
+    router.push({
+      pathname: '/edit-reminder/[id]',
+      params: { id }
+    });
+  };
+
   const handleToggleComplete = async (reminder: Reminder) => {
     try {
-      const updatedReminder = {
-        ...reminder,
-        completed: !reminder.completed
-      };
-      await updateReminder(updatedReminder);
+      await updateReminder(reminder.id, { completed: !reminder.completed });
       loadReminders(); // Reload the list
     } catch (error) {
       console.error('Error updating reminder:', error);
@@ -59,27 +141,46 @@ export default function HomeScreen() {
     }
   };
 
-  const handleDeleteReminder = async (id: string) => {
-    Alert.alert(
-      'Delete Reminder',
-      'Are you sure you want to delete this reminder?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { 
-          text: 'Delete', 
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await deleteReminder(id);
-              loadReminders(); // Reload the list
-            } catch (error) {
-              console.error('Error deleting reminder:', error);
-              Alert.alert('Error', 'Failed to delete reminder');
-            }
-          }
-        }
-      ]
-    );
+  const handleOccurrenceAction = async (reminder: Reminder, action: 'complete' | 'skip') => {
+    const occurrence = getNextOccurrence(reminder);
+    if (!occurrence) return;
+
+    try {
+      if (action === 'complete') {
+        await completeOccurrence(reminder.id, occurrence.date);
+      } else {
+        await skipOccurrence(reminder.id, occurrence.date);
+      }
+      loadReminders(); // Reload the list
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+      Alert.alert('Error', 'Failed to update reminder');
+    }
+  };
+
+  const handleDeleteReminder = async (reminder: Reminder) => {
+    try {
+      await deleteReminder(reminder.id);
+      setDeletedReminder(reminder);
+      loadReminders(); // Reload the list
+    } catch (error) {
+      console.error('Error deleting reminder:', error);
+      Alert.alert('Error', 'Failed to delete reminder');
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    if (!deletedReminder) return;
+
+    const { id } = deletedReminder;
+    setDeletedReminder(null);
+    try {
+      await restoreDeletedReminder(id);
+      loadReminders(); // Reload the list
+    } catch (error) {
+      console.error('Error restoring reminder:', error);
+      Alert.alert('Error', 'Failed to restore reminder');
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -95,75 +196,144 @@ export default function HomeScreen() {
   };
 
   return (
-    <ScrollView style={styles.container}>
-      <ThemedView style={styles.header}>
-        <ThemedText type="title">Snaply</ThemedText>
-        <ThemedText type="subtitle">Your Social Media Reminder Assistant</ThemedText>
-      </ThemedView>
-
-      <ThemedView style={styles.section}>
-        <ThemedText type="subtitle">Upcoming Reminders</ThemedText>
-        
-        {loading ? (
-          <ThemedText>Loading reminders...</ThemedText>
-        ) : reminders.length === 0 ? (
-          <ThemedView style={styles.reminderCard}>
-            <ThemedText>No upcoming reminders</ThemedText>
-            <TouchableOpacity style={styles.addButton} onPress={handleCreateReminder}>
-              <Ionicons name="add-circle-outline" size={24} color="#007AFF" />
-            </TouchableOpacity>
-          </ThemedView>
-        ) : (
-          reminders.map(reminder => (
-            <ThemedView key={reminder.id} style={styles.reminderCard}>
-              <ThemedView style={styles.reminderContent}>
-                <TouchableOpacity 
-                  style={styles.checkbox}
-                  onPress={() => handleToggleComplete(reminder)}
-                >
-                  <Ionicons 
-                    name={reminder.completed ? "checkmark-circle" : "ellipse-outline"} 
-                    size={24} 
-                    color={reminder.completed ? "#4CAF50" : "#666"} 
-                  />
-                </TouchableOpacity>
-                <ThemedView style={styles.reminderDetails}>
-                  <ThemedText style={[
-                    styles.reminderTitle,
-                    reminder.completed && styles.completedText
-                  ]}>
-                    {reminder.title}
-                  </ThemedText>
-                  <ThemedText style={styles.reminderDate}>
-                    {formatDate(reminder.date)}
-                  </ThemedText>
-                </ThemedView>
-              </ThemedView>
-              <TouchableOpacity 
-                style={styles.deleteButton}
-                onPress={() => handleDeleteReminder(reminder.id)}
-              >
-                <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+    <ThemedView style={styles.container}>
+      <ScrollView style={styles.container}>
+        <ThemedView style={styles.header}>
+          <ThemedText type="title">Snaply</ThemedText>
+          <ThemedText type="subtitle">Your Social Media Reminder Assistant</ThemedText>
+        </ThemedView>
+
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Upcoming Reminders</ThemedText>
+          <ReminderFilterBar query={query} campaigns={campaigns} onChange={setQuery} />
+          
+          {loading ? (
+            <ThemedText>Loading reminders...</ThemedText>
+          ) : reminders.length === 0 && isQueryActive(query) ? (
+            <ThemedView style={styles.reminderCard}>
+              <ThemedText>No reminders match your search</ThemedText>
+            </ThemedView>
+          ) : reminders.length === 0 ? (
+            <ThemedView style={styles.reminderCard}>
+              <ThemedText>No upcoming reminders</ThemedText>
+              <TouchableOpacity style={styles.addButton} onPress={handleCreateReminder}>
+                <Ionicons name="add-circle-outline" size={24} color="#007AFF" />
               </TouchableOpacity>
             </ThemedView>
-          ))
-        )}
-      </ThemedView>
-
-      <ThemedView style={styles.section}>
-        <ThemedText type="subtitle">Quick Actions</ThemedText>
-        <ThemedView style={styles.quickActions}>
-          <TouchableOpacity style={styles.actionButton} onPress={handleCreateReminder}>
-            <Ionicons name="calendar-outline" size={24} color="#007AFF" />
-            <ThemedText>New Reminder</ThemedText>
-          </TouchableOpacity>
-          <TouchableOpacity style={styles.actionButton} onPress={handleOpenSettings}>
-            <Ionicons name="settings-outline" size={24} color="#007AFF" />
-            <ThemedText>Settings</ThemedText>
-          </TouchableOpacity>
+          ) : (
+            reminders.map(reminder => {
+              const nextOccurrence = reminder.recurrence ? getNextOccurrence(reminder) : undefined;
+              const campaign = campaigns.find(c => c.id === reminder.campaignId);
+              const latestShares = getLatestShareResults(reminder.shareHistory);
+              return (
+                <ThemedView key={reminder.id} style={styles.reminderCard}>
+                  <ThemedView style={styles.reminderContent}>
+                    <TouchableOpacity 
+                      style={styles.checkbox}
+                      onPress={() => nextOccurrence
+                        ? handleOccurrenceAction(reminder, 'complete')
+                        : handleToggleComplete(reminder)}
+                    >
+                      <Ionicons 
+                        name={reminder.completed ? "checkmark-circle" : "ellipse-outline"} 
+                        size={24} 
+                        color={reminder.completed ? "#4CAF50" : "#666"} 
+                      />
+                    </TouchableOpacity>
+                    {reminder.media.length > 0 && (
+                      <MediaThumbnail media={reminder.media[0]} style={styles.reminderThumbnail} showDuration={false} />
+                    )}
+                    <TouchableOpacity
+                      style={styles.reminderDetails}
+                      onPress={() => handleEditReminder(reminder.id)}
+                    >
+                      <ThemedText style={[
+                        styles.reminderTitle,
+                        reminder.completed && styles.completedText
+                      ]}>
+                        {reminder.title}
+                      </ThemedText>
+                      <ThemedText style={styles.reminderDate}>
+                        {formatDate(nextOccurrence?.date ?? reminder.date)}
+                      </ThemedText>
+                      {reminder.recurrence && (
+                        <ThemedText style={styles.reminderRecurrence}>
+                          {describeRecurrence(reminder.recurrence, new Date(reminder.date))}
+                        </ThemedText>
+                      )}
+                      {campaign && (
+                        <ThemedView style={styles.reminderCampaign}>
+                          <CampaignChip campaign={campaign} />
+                        </ThemedView>
+                      )}
+                      {latestShares.length > 0 && (
+                        <ThemedView style={styles.reminderShares}>
+                          {latestShares.map(result => (
+                            <ThemedView key={result.platform} style={styles.reminderShare}>
+                              <ShareResultIcon outcome={result.outcome} size={14} />
+                              <ThemedText style={styles.reminderShareText}>
+                                {getShareTargetLabel(result.platform)}
+                              </ThemedText>
+                            </ThemedView>
+                          ))}
+                        </ThemedView>
+                      )}
+                    </TouchableOpacity>
+                  </ThemedView>
+                  {nextOccurrence && (
+                    <TouchableOpacity 
+                      style={styles.skipButton}
+                      onPress={() => handleOccurrenceAction(reminder, 'skip')}
+                    >
+                      <Ionicons name="play-skip-forward-outline" size={20} color="#666" />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity 
+                    style={styles.deleteButton}
+                    onPress={() => handleDeleteReminder(reminder)}
+                  >
+                    <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                  </TouchableOpacity>
+                </ThemedView>
+              );
+            })
+          )}
         </ThemedView>
-      </ThemedView>
-    </ScrollView>
+
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Quick Actions</ThemedText>
+          <ThemedView style={styles.quickActions}>
+            <TouchableOpacity style={styles.actionButton} onPress={handleCreateReminder}>
+              <Ionicons name="calendar-outline" size={24} color="#007AFF" />
+              <ThemedText>New Reminder</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleOpenDrafts}>
+              <Ionicons name="document-text-outline" size={24} color="#007AFF" />
+              <ThemedText>Drafts</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleOpenCampaigns}>
+              <Ionicons name="pricetags-outline" size={24} color="#007AFF" />
+              <ThemedText>Campaigns</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleOpenTrash}>
+              <Ionicons name="trash-bin-outline" size={24} color="#007AFF" />
+              <ThemedText>Trash</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleOpenSettings}>
+              <Ionicons name="settings-outline" size={24} color="#007AFF" />
+              <ThemedText>Settings</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        </ThemedView>
+      </ScrollView>
+
+      <UndoSnackbar
+        key={deletedReminder?.id}
+        message={deletedReminder ? `"${deletedReminder.title}" moved to Trash` : undefined}
+        onUndo={handleUndoDelete}
+        onDismiss={() => setDeletedReminder(null)}
+      />
+    </ThemedView>
   );
 }
 
@@ -197,6 +367,12 @@ const styles = StyleSheet.create({
   checkbox: {
     marginRight: 12,
   },
+  reminderThumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    marginRight: 12,
+  },
   reminderDetails: {
     flex: 1,
   },
@@ -213,14 +389,44 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  reminderRecurrence: {
+    fontSize: 12,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  reminderCampaign: {
+    marginTop: 6,
+    backgroundColor: 'transparent',
+  },
+  reminderShares: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+    backgroundColor: 'transparent',
+  },
+  reminderShare: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    backgroundColor: 'transparent',
+  },
+  reminderShareText: {
+    fontSize: 12,
+    color: '#666',
+  },
   addButton: {
     padding: 8,
   },
+  skipButton: {
+    padding: 8,
+  },
   deleteButton: {
     padding: 8,
   },
   quickActions: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'space-around',
     gap: 16,
   },
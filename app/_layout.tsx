@@ -1,21 +1,76 @@
 import React, { useEffect } from 'react';
+import { AppState } from 'react-native';
 import { Stack } from 'expo-router';
 import { ThemeProvider } from '@/context/ThemeContext';
-import { requestNotificationPermissions, setupNotificationListeners } from '@/services/notificationService';
+import {
+  handleInitialNotificationResponse,
+  requestNotificationPermissions,
+  setupNotificationListeners,
+} from '@/services/notificationService';
+import { initializeReminderRepository } from '@/services/reminderRepository';
+import { purgeExpiredTrash, refreshRecurringReminders } from '@/services/reminderService';
+import { cleanUpOrphanedMedia } from '@/services/mediaStorageService';
+import { registerBuiltInShareTargets } from '@/services/socialMediaService';
+
+// Register before any screen lists the share targets
+registerBuiltInShareTargets();
+
+export const unstable_settings = {
+  // Keep the tabs underneath screens opened from a notification or deep link
+  initialRouteName: '(tabs)',
+};
 
 export default function RootLayout() {
+  useEffect(() => {
+    const initializeReminders = async () => {
+      try {
+        await initializeReminderRepository();
+        await refreshRecurringReminders();
+      } catch (error) {
+        console.error('Error initializing reminder database:', error);
+        return;
+      }
+
+      try {
+        await purgeExpiredTrash();
+      } catch (error) {
+        console.error('Error purging trash on startup:', error);
+      }
+
+      // Only collect media once reminders load, otherwise every file would look unused
+      try {
+        await cleanUpOrphanedMedia();
+      } catch (error) {
+        console.error('Error cleaning up media on startup:', error);
+      }
+    };
+
+    initializeReminders();
+  }, []);
+
+  // Notifications delivered in the background free slots too, top up when the app comes back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refreshRecurringReminders();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   useEffect(() => {
     const initializeNotifications = async () => {
       try {
         await requestNotificationPermissions();
-        const cleanup = setupNotificationListeners();
-        return cleanup;
       } catch (error) {
         console.error('Error initializing notifications:', error);
       }
     };
 
+    const cleanup = setupNotificationListeners();
     initializeNotifications();
+    handleInitialNotificationResponse();
+    return cleanup;
   }, []);
 
   return (
@@ -35,6 +90,56 @@ export default function RootLayout() {
             animation: 'slide_from_bottom'
           }} 
         />
+        <Stack.Screen 
+          name="reminder/[id]" 
+          options={{ 
+            title: 'Reminder',
+            animation: 'slide_from_right'
+          }} 
+        />
+        <Stack.Screen 
+          name="edit-reminder/[id]" 
+          options={{ 
+            presentation: 'modal',
+            title: 'Edit Reminder',
+            animation: 'slide_from_bottom'
+          }} 
+        />
+        <Stack.Screen 
+          name="drafts" 
+          options={{ 
+            title: 'Drafts',
+            animation: 'slide_from_right'
+          }} 
+        />
+        <Stack.Screen 
+          name="campaigns" 
+          options={{ 
+            title: 'Campaigns',
+            animation: 'slide_from_right'
+          }} 
+        />
+        <Stack.Screen 
+          name="hashtags" 
+          options={{ 
+            title: 'Hashtag Sets',
+            animation: 'slide_from_right'
+          }} 
+        />
+        <Stack.Screen 
+          name="templates" 
+          options={{ 
+            title: 'Caption Templates',
+            animation: 'slide_from_right'
+          }} 
+        />
+        <Stack.Screen 
+          name="trash" 
+          options={{ 
+            title: 'Trash',
+            animation: 'slide_from_right'
+          }} 
+        />
         <Stack.Screen 
           name="settings" 
           options={{ 
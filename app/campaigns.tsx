@@ -0,0 +1,207 @@
+import { StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { CampaignChip } from '@/components/CampaignChip';
+import { CampaignEditor } from '@/components/CampaignEditor';
+import {
+  createCampaign,
+  deleteCampaign,
+  getCampaignSummaries,
+  updateCampaign,
+} from '@/services/campaignService';
+import { Campaign, CampaignSummary } from '@/types/campaign';
+import { useTheme } from '@/context/ThemeContext';
+
+export default function CampaignsScreen() {
+  const { isDarkMode } = useTheme();
+  const [summaries, setSummaries] = useState<CampaignSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const loadCampaigns = async () => {
+    try {
+      setSummaries(await getCampaignSummaries());
+    } catch (error) {
+      console.error('Error loading campaigns:', error);
+      Alert.alert('Error', 'Failed to load campaigns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCampaigns();
+    }, [])
+  );
+
+  const handleCreate = async (name: string, color: string) => {
+    try {
+      await createCampaign(name, color);
+      setIsCreating(false);
+      loadCampaigns();
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      Alert.alert('Error', 'Failed to create campaign');
+    }
+  };
+
+  const handleUpdate = async (id: string, name: string, color: string) => {
+    try {
+      await updateCampaign(id, { name, color });
+      setEditingId(null);
+      loadCampaigns();
+    } catch (error) {
+      console.error('Error updating campaign:', error);
+      Alert.alert('Error', 'Failed to update campaign');
+    }
+  };
+
+  const handleDelete = (campaign: Campaign) => {
+    Alert.alert(
+      'Delete Campaign',
+      `Delete "${campaign.name}"? Its reminders are kept but no longer belong to a campaign.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCampaign(campaign.id);
+              loadCampaigns();
+            } catch (error) {
+              console.error('Error deleting campaign:', error);
+              Alert.alert('Error', 'Failed to delete campaign');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderStat = (label: string, value: number, color: string) => (
+    <ThemedView style={styles.stat}>
+      <ThemedText style={[styles.statValue, { color }]}>{value}</ThemedText>
+      <ThemedText style={styles.statLabel}>{label}</ThemedText>
+    </ThemedView>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.section}>
+        {isCreating ? (
+          <CampaignEditor submitLabel="Create" onSubmit={handleCreate} onCancel={() => setIsCreating(false)} />
+        ) : (
+          <TouchableOpacity style={styles.newButton} onPress={() => setIsCreating(true)}>
+            <Ionicons name="add-circle-outline" size={20} color="white" />
+            <ThemedText style={styles.newButtonText}>New Campaign</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {loading ? (
+          <ThemedText>Loading campaigns...</ThemedText>
+        ) : summaries.length === 0 ? (
+          <ThemedText>No campaigns yet. Group reminders for a launch or an event to see how its posts are going.</ThemedText>
+        ) : (
+          summaries.map(({ campaign, planned, shared, missed }) => editingId === campaign.id ? (
+            <CampaignEditor
+              key={campaign.id}
+              initialName={campaign.name}
+              initialColor={campaign.color}
+              submitLabel="Save"
+              onSubmit={(name, color) => handleUpdate(campaign.id, name, color)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <ThemedView
+              key={campaign.id}
+              style={[styles.campaignCard, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}
+            >
+              <ThemedView style={styles.campaignHeader}>
+                <CampaignChip campaign={campaign} />
+                <ThemedView style={styles.campaignActions}>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => setEditingId(campaign.id)}>
+                    <Ionicons name="create-outline" size={20} color="#007AFF" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(campaign)}>
+                    <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                  </TouchableOpacity>
+                </ThemedView>
+              </ThemedView>
+              <ThemedView style={styles.stats}>
+                {renderStat('Planned', planned, '#007AFF')}
+                {renderStat('Shared', shared, '#34C759')}
+                {renderStat('Missed', missed, '#FF3B30')}
+              </ThemedView>
+            </ThemedView>
+          ))
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  section: {
+    padding: 20,
+    gap: 12,
+  },
+  newButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+  },
+  newButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  campaignCard: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 12,
+  },
+  campaignHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  campaignActions: {
+    flexDirection: 'row',
+    backgroundColor: 'transparent',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  stats: {
+    flexDirection: 'row',
+    backgroundColor: 'transparent',
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    lineHeight: 30,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
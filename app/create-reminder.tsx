@@ -1,471 +1,181 @@
 import React from 'react';
-import { StyleSheet, TextInput, TouchableOpacity, Alert, Platform, Image, Switch, View, Modal, ScrollView, KeyboardAvoidingView } from 'react-native';
-import { router } from 'expo-router';
-import { ThemedText } from '@/components/ThemedText';
-import { ThemedView } from '@/components/ThemedView';
-import { useState, useEffect } from 'react';
-import { addReminder } from '@/services/reminderService';
-import { useTheme } from '@/context/ThemeContext';
-import { takePhoto, initializePhotoDirectory } from '@/services/photoService';
-import { Ionicons } from '@expo/vector-icons';
-import DateTimePicker from '@react-native-community/datetimepicker';
+import { Alert, AppState } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useState, useEffect, useRef } from 'react';
+import { ReminderForm, ReminderFormValues } from '@/components/ReminderForm';
+import { CaptionTemplatePicker } from '@/components/CaptionTemplatePicker';
+import { createReminder } from '@/services/reminderService';
+import { deleteDraft, getDraft, getDrafts, saveDraft } from '@/services/draftService';
+import { ReminderDraft } from '@/types/draft';
+import { CaptionTemplate } from '@/types/template';
+
+// Wait for a pause in typing before writing the draft
+const AUTOSAVE_DELAY_MS = 1000;
+
+const toFormValues = (draft: ReminderDraft): ReminderFormValues => ({
+  title: draft.title,
+  description: draft.description,
+  date: new Date(draft.date),
+  media: draft.media,
+  framing: draft.framing,
+  overlay: draft.overlay,
+  platforms: draft.platforms,
+  captions: draft.captions,
+  targetOptions: draft.targetOptions,
+  recurrence: draft.recurrence,
+  campaignId: draft.campaignId,
+});
+
+const hasContent = (values: ReminderFormValues) =>
+  Boolean(values.title.trim() || values.description.trim() || values.media.length > 0);
 
 export default function CreateReminderScreen() {
-  const { isDarkMode } = useTheme();
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [date, setDate] = useState(() => {
-    // Set default time to 5 minutes from now
-    const defaultDate = new Date();
-    defaultDate.setMinutes(defaultDate.getMinutes() + 5);
-    return defaultDate;
-  });
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [photoUri, setPhotoUri] = useState<string | null>(null);
-  const [platforms, setPlatforms] = useState({
-    instagram: false,
-    whatsapp: false,
-  });
-  const [showDatePicker, setShowDatePicker] = useState(false);
-  const [showTimePicker, setShowTimePicker] = useState(false);
-  const [tempDate, setTempDate] = useState(date);
-
-  // Update tempDate when date changes
-  useEffect(() => {
-    setTempDate(date);
-  }, [date]);
-
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: true
-    });
+  // date is set when opened from an empty calendar slot
+  const params = useLocalSearchParams<{ draftId?: string; date?: string }>();
+  const draftId = useRef(params.draftId ?? Date.now().toString());
+  const [initialValues, setInitialValues] = useState<ReminderFormValues | undefined>(undefined);
+  // Remounts the form when a draft is restored
+  const [formKey, setFormKey] = useState(0);
+  const [draftLoaded, setDraftLoaded] = useState(!params.draftId);
+  const pendingValues = useRef<ReminderFormValues | null>(null);
+  // Everything in the form right now, kept when a template replaces the text
+  const latestValues = useRef<ReminderFormValues | null>(null);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isFinished = useRef(false);
+
+  const restoreDraft = (draft: ReminderDraft) => {
+    draftId.current = draft.id;
+    setInitialValues(toFormValues(draft));
+    setFormKey(key => key + 1);
   };
 
-  const handleDateChange = (event: any, selectedDate?: Date) => {
-    if (Platform.OS === 'android') {
-      setShowDatePicker(false);
-    }
-    if (selectedDate) {
-      const newDate = new Date(tempDate);
-      newDate.setFullYear(selectedDate.getFullYear());
-      newDate.setMonth(selectedDate.getMonth());
-      newDate.setDate(selectedDate.getDate());
-      setTempDate(newDate);
-    }
-  };
-
-  const handleTimeChange = (event: any, selectedTime?: Date) => {
-    if (Platform.OS === 'android') {
-      setShowTimePicker(false);
-    }
-    if (selectedTime) {
-      const newDate = new Date(tempDate);
-      newDate.setHours(selectedTime.getHours());
-      newDate.setMinutes(selectedTime.getMinutes());
-      setTempDate(newDate);
+  useEffect(() => {
+    const loadDraft = async () => {
+      try {
+        if (params.draftId) {
+          const draft = await getDraft(params.draftId);
+          if (draft) {
+            restoreDraft(draft);
+          }
+          return;
+        }
+
+        const [latestDraft] = await getDrafts();
+        if (latestDraft) {
+          Alert.alert(
+            'Restore Draft?',
+            `You have an unfinished reminder${latestDraft.title ? ` "${latestDraft.title}"` : ''}. Do you want to continue editing it?`,
+            [
+              { text: 'Start New', style: 'cancel' },
+              { text: 'Restore', onPress: () => restoreDraft(latestDraft) },
+            ]
+          );
+        }
+      } catch (error) {
+        // Fall back to an empty form
+        console.error('Error loading draft:', error);
+      } finally {
+        setDraftLoaded(true);
+      }
+    };
+
+    loadDraft();
+  }, [params.draftId]);
+
+  const flushDraft = async () => {
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = null;
     }
-  };
+    const values = pendingValues.current;
+    pendingValues.current = null;
+    if (!values || isFinished.current) return;
 
-  const handleSaveDateTime = () => {
-    setDate(tempDate);
-    setShowDatePicker(false);
-    setShowTimePicker(false);
-  };
-
-  const handleCancelDateTime = () => {
-    setTempDate(date);
-    setShowDatePicker(false);
-    setShowTimePicker(false);
-  };
-
-  const handleTakePhoto = async () => {
     try {
-      await initializePhotoDirectory();
-      const uri = await takePhoto();
-      setPhotoUri(uri);
+      await saveDraft({
+        id: draftId.current,
+        title: values.title,
+        description: values.description,
+        date: values.date.toISOString(),
+        media: values.media,
+        framing: values.framing,
+        overlay: values.overlay,
+        platforms: values.platforms,
+        captions: values.captions,
+        targetOptions: values.targetOptions,
+        recurrence: values.recurrence,
+        campaignId: values.campaignId,
+        updatedAt: new Date().toISOString(),
+      });
     } catch (error) {
-      console.error('Error taking photo:', error);
-      Alert.alert('Error', 'Failed to take photo. Please try again.');
+      console.error('Error autosaving draft:', error);
     }
   };
 
-  const handleCreateReminder = async () => {
-    if (!title.trim()) {
-      Alert.alert('Error', 'Please enter a title for your reminder');
-      return;
-    }
+  const handleValuesChange = (values: ReminderFormValues) => {
+    latestValues.current = values;
+    if (!hasContent(values)) return;
 
-    if (!platforms.instagram && !platforms.whatsapp) {
-      Alert.alert('Error', 'Please select at least one platform to share to');
-      return;
+    pendingValues.current = values;
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
     }
+    autosaveTimer.current = setTimeout(flushDraft, AUTOSAVE_DELAY_MS);
+  };
+
+  // Save immediately when the app is backgrounded, it may be killed afterwards
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') {
+        flushDraft();
+      }
+    });
+    return () => {
+      subscription.remove();
+      flushDraft();
+    };
+  }, []);
+
+  // Placeholders stay in the text, they are filled in when the reminder is shared
+  const handleApplyTemplate = (template: CaptionTemplate) => {
+    if (!latestValues.current) return;
+
+    setInitialValues({ ...latestValues.current, title: template.title, description: template.description });
+    setFormKey(key => key + 1);
+  };
 
+  const handleCreateReminder = async (values: ReminderFormValues) => {
     try {
-      setIsSubmitting(true);
-      await addReminder({
-        title: title.trim(),
-        description: description.trim(),
-        date: date.toISOString(),
-        timestamp: date.getTime(),
-        photoUri: photoUri || undefined,
-        platforms,
-      });
-      
+      await createReminder(values);
+      isFinished.current = true;
+      if (autosaveTimer.current) {
+        clearTimeout(autosaveTimer.current);
+      }
+      await deleteDraft(draftId.current);
+
       Alert.alert('Success', 'Reminder created successfully');
       router.back();
     } catch (error) {
       console.error('Error creating reminder:', error);
       Alert.alert('Error', 'Failed to create reminder. Please try again.');
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
-  return (
-    <KeyboardAvoidingView 
-      style={{ flex: 1 }} 
-      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
-    >
-      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
-        <ThemedView style={styles.container}>
-          <ThemedText type="title" style={styles.header}>Create New Reminder</ThemedText>
-          
-          <ThemedView style={styles.form}>
-            <ThemedView style={styles.inputContainer}>
-              <ThemedText>Title</ThemedText>
-              <TextInput
-                style={[
-                  styles.input,
-                  { 
-                    backgroundColor: isDarkMode ? '#333' : '#f5f5f5',
-                    color: isDarkMode ? '#fff' : '#000'
-                  }
-                ]}
-                value={title}
-                onChangeText={setTitle}
-                placeholder="Enter reminder title"
-                placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
-              />
-            </ThemedView>
-
-            <ThemedView style={styles.inputContainer}>
-              <ThemedText>Description</ThemedText>
-              <TextInput
-                style={[
-                  styles.input, 
-                  styles.textArea,
-                  { 
-                    backgroundColor: isDarkMode ? '#333' : '#f5f5f5',
-                    color: isDarkMode ? '#fff' : '#000'
-                  }
-                ]}
-                value={description}
-                onChangeText={setDescription}
-                placeholder="Enter reminder description"
-                placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
-                multiline
-              />
-            </ThemedView>
+  if (!draftLoaded) {
+    return null;
+  }
 
-            <ThemedView style={styles.inputContainer}>
-              <ThemedText>Date & Time</ThemedText>
-              <ThemedView style={styles.dateTimeContainer}>
-                <TouchableOpacity 
-                  onPress={() => {
-                    setTempDate(date);
-                    setShowDatePicker(true);
-                  }}
-                  style={[
-                    styles.dateTimeButton,
-                    { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }
-                  ]}
-                >
-                  <Ionicons 
-                    name="calendar-outline" 
-                    size={20} 
-                    color={isDarkMode ? '#fff' : '#000'} 
-                    style={styles.dateTimeIcon}
-                  />
-                  <ThemedText>{formatDate(date)}</ThemedText>
-                </TouchableOpacity>
-
-                <TouchableOpacity 
-                  onPress={() => {
-                    setTempDate(date);
-                    setShowTimePicker(true);
-                  }}
-                  style={[
-                    styles.dateTimeButton,
-                    { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }
-                  ]}
-                >
-                  <Ionicons 
-                    name="time-outline" 
-                    size={20} 
-                    color={isDarkMode ? '#fff' : '#000'} 
-                    style={styles.dateTimeIcon}
-                  />
-                  <ThemedText>{formatTime(date)}</ThemedText>
-                </TouchableOpacity>
-              </ThemedView>
-            </ThemedView>
-
-            <ThemedView style={styles.inputContainer}>
-              <ThemedText>Photo (Optional)</ThemedText>
-              <TouchableOpacity 
-                onPress={handleTakePhoto}
-                style={[
-                  styles.photoButton,
-                  { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }
-                ]}
-              >
-                {photoUri ? (
-                  <Image source={{ uri: photoUri }} style={styles.photoPreview} />
-                ) : (
-                  <ThemedView style={styles.photoPlaceholder}>
-                    <Ionicons name="camera" size={24} color={isDarkMode ? '#fff' : '#000'} />
-                    <ThemedText>Take Photo</ThemedText>
-                  </ThemedView>
-                )}
-              </TouchableOpacity>
-            </ThemedView>
-
-            <ThemedView style={styles.inputContainer}>
-              <ThemedText>Share to Platforms</ThemedText>
-              <ThemedView style={styles.platformContainer}>
-                <ThemedView style={styles.platformRow}>
-                  <ThemedText>Instagram Story</ThemedText>
-                  <Switch
-                    value={platforms.instagram}
-                    onValueChange={(value) => setPlatforms(prev => ({ ...prev, instagram: value }))}
-                  />
-                </ThemedView>
-                <ThemedView style={styles.platformRow}>
-                  <ThemedText>WhatsApp Status</ThemedText>
-                  <Switch
-                    value={platforms.whatsapp}
-                    onValueChange={(value) => setPlatforms(prev => ({ ...prev, whatsapp: value }))}
-                  />
-                </ThemedView>
-              </ThemedView>
-            </ThemedView>
-
-            <TouchableOpacity 
-              style={[styles.button, isSubmitting && styles.buttonDisabled]}
-              onPress={handleCreateReminder}
-              disabled={isSubmitting}
-            >
-              <ThemedText style={styles.buttonText}>
-                {isSubmitting ? 'Creating...' : 'Create Reminder'}
-              </ThemedText>
-            </TouchableOpacity>
-          </ThemedView>
-        </ThemedView>
-      </ScrollView>
-
-      <Modal
-        visible={showDatePicker || showTimePicker}
-        transparent={true}
-        animationType="slide"
-      >
-        <ThemedView style={styles.modalContainer}>
-          <ThemedView style={[
-            styles.modalContent,
-            { backgroundColor: isDarkMode ? '#333' : '#fff' }
-          ]}>
-            <ThemedText style={styles.modalTitle}>
-              {showDatePicker ? 'Select Date' : 'Select Time'}
-            </ThemedText>
-            
-            {Platform.OS === 'ios' && (
-              <View style={styles.pickerContainer}>
-                {showDatePicker ? (
-                  <DateTimePicker
-                    value={tempDate}
-                    mode="date"
-                    display="spinner"
-                    onChange={handleDateChange}
-                    minimumDate={new Date()}
-                  />
-                ) : (
-                  <DateTimePicker
-                    value={tempDate}
-                    mode="time"
-                    display="spinner"
-                    onChange={handleTimeChange}
-                  />
-                )}
-              </View>
-            )}
-
-            {Platform.OS === 'android' && (
-              <DateTimePicker
-                value={tempDate}
-                mode={showDatePicker ? "date" : "time"}
-                display="default"
-                onChange={showDatePicker ? handleDateChange : handleTimeChange}
-                minimumDate={showDatePicker ? new Date() : undefined}
-              />
-            )}
-
-            <ThemedView style={styles.modalButtons}>
-              <TouchableOpacity 
-                style={[styles.modalButton, styles.cancelButton]} 
-                onPress={handleCancelDateTime}
-              >
-                <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
-              </TouchableOpacity>
-              <TouchableOpacity 
-                style={[styles.modalButton, styles.saveButton]} 
-                onPress={handleSaveDateTime}
-              >
-                <ThemedText style={styles.modalButtonText}>Save</ThemedText>
-              </TouchableOpacity>
-            </ThemedView>
-          </ThemedView>
-        </ThemedView>
-      </Modal>
-    </KeyboardAvoidingView>
+  return (
+    <ReminderForm
+      key={formKey}
+      heading="Create New Reminder"
+      submitLabel="Create Reminder"
+      submittingLabel="Creating..."
+      initialValues={initialValues}
+      initialDate={params.date ? new Date(params.date) : undefined}
+      headerAccessory={<CaptionTemplatePicker onSelect={handleApplyTemplate} />}
+      onSubmit={handleCreateReminder}
+      onChange={handleValuesChange}
+    />
   );
 }
-
-const styles = StyleSheet.create({
-  scrollView: {
-    flex: 1,
-  },
-  scrollContent: {
-    flexGrow: 1,
-  },
-  container: {
-    flex: 1,
-    padding: 20,
-  },
-  header: {
-    marginBottom: 20,
-    textAlign: 'center',
-  },
-  form: {
-    gap: 20,
-  },
-  inputContainer: {
-    gap: 8,
-  },
-  input: {
-    padding: 12,
-    borderRadius: 8,
-    fontSize: 16,
-  },
-  textArea: {
-    height: 100,
-    textAlignVertical: 'top',
-  },
-  dateTimeContainer: {
-    flexDirection: 'row',
-    gap: 12,
-  },
-  dateTimeButton: {
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
-    padding: 12,
-    borderRadius: 8,
-  },
-  dateTimeIcon: {
-    marginRight: 8,
-  },
-  photoButton: {
-    height: 200,
-    borderRadius: 8,
-    overflow: 'hidden',
-  },
-  photoPreview: {
-    width: '100%',
-    height: '100%',
-    resizeMode: 'cover',
-  },
-  photoPlaceholder: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    gap: 8,
-  },
-  platformContainer: {
-    gap: 12,
-  },
-  platformRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-  },
-  button: {
-    backgroundColor: '#007AFF',
-    padding: 16,
-    borderRadius: 8,
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  buttonDisabled: {
-    backgroundColor: '#999',
-  },
-  buttonText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
-  modalContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-  },
-  modalContent: {
-    width: '80%',
-    borderRadius: 12,
-    padding: 20,
-    alignItems: 'center',
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    marginBottom: 16,
-  },
-  pickerContainer: {
-    width: '100%',
-    height: 200,
-  },
-  modalButtons: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    width: '100%',
-    marginTop: 20,
-  },
-  modalButton: {
-    flex: 1,
-    padding: 12,
-    borderRadius: 8,
-    alignItems: 'center',
-    marginHorizontal: 8,
-  },
-  cancelButton: {
-    backgroundColor: '#FF3B30',
-  },
-  saveButton: {
-    backgroundColor: '#34C759',
-  },
-  modalButtonText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
-}); 
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { deleteDraft, getDrafts } from '@/services/draftService';
+import { ReminderDraft } from '@/types/draft';
+import { useTheme } from '@/context/ThemeContext';
+
+export default function DraftsScreen() {
+  const { isDarkMode } = useTheme();
+  const [drafts, setDrafts] = useState<ReminderDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadDrafts = async () => {
+    setLoading(true);
+    setDrafts(await getDrafts());
+    setLoading(false);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadDrafts();
+    }, [])
+  );
+
+  const handleResumeDraft = (id: string) => {
+    router.push({
+      pathname: '/create-reminder',
+      params: { draftId: id }
+    });
+  };
+
+  const handleDeleteDraft = (id: string) => {
+    Alert.alert(
+      'Discard Draft',
+      'Are you sure you want to discard this draft?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteDraft(id);
+            loadDrafts();
+          }
+        }
+      ]
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.section}>
+        {loading ? (
+          <ThemedText>Loading drafts...</ThemedText>
+        ) : drafts.length === 0 ? (
+          <ThemedText>No drafts. Unfinished reminders are saved here automatically.</ThemedText>
+        ) : (
+          drafts.map(draft => (
+            <ThemedView
+              key={draft.id}
+              style={[styles.draftCard, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}
+            >
+              <TouchableOpacity style={styles.draftDetails} onPress={() => handleResumeDraft(draft.id)}>
+                <ThemedText style={styles.draftTitle}>{draft.title || 'Untitled draft'}</ThemedText>
+                {draft.description ? (
+                  <ThemedText style={styles.draftDescription} numberOfLines={2}>
+                    {draft.description}
+                  </ThemedText>
+                ) : null}
+                <ThemedText style={styles.draftDate}>Edited {formatDate(draft.updatedAt)}</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteDraft(draft.id)}>
+                <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+              </TouchableOpacity>
+            </ThemedView>
+          ))
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  section: {
+    padding: 20,
+    gap: 12,
+  },
+  draftCard: {
+    padding: 16,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  draftDetails: {
+    flex: 1,
+  },
+  draftTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  draftDescription: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  draftDate: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+});
@@ -0,0 +1,94 @@
+import React from 'react';
+import { StyleSheet, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useState, useEffect } from 'react';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { ReminderForm, ReminderFormValues } from '@/components/ReminderForm';
+import { getReminder, updateReminder } from '@/services/reminderService';
+import { Reminder } from '@/types/reminder';
+
+export default function EditReminderScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [reminder, setReminder] = useState<Reminder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadReminder = async () => {
+      try {
+        setLoading(true);
+        setReminder(await getReminder(id));
+      } catch (error) {
+        console.error('Error loading reminder:', error);
+        Alert.alert('Error', 'Failed to load reminder');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReminder();
+  }, [id]);
+
+  const handleUpdateReminder = async (values: ReminderFormValues) => {
+    try {
+      await updateReminder(id, {
+        title: values.title,
+        description: values.description,
+        date: values.date.toISOString(),
+        media: values.media,
+        framing: values.framing,
+        overlay: values.overlay,
+        platforms: values.platforms,
+        captions: values.captions,
+        targetOptions: values.targetOptions,
+        recurrence: values.recurrence,
+        campaignId: values.campaignId,
+      });
+
+      Alert.alert('Success', 'Reminder updated successfully');
+      router.back();
+    } catch (error) {
+      console.error('Error updating reminder:', error);
+      Alert.alert('Error', 'Failed to update reminder. Please try again.');
+    }
+  };
+
+  if (loading || !reminder) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText>{loading ? 'Loading reminder...' : 'This reminder no longer exists.'}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ReminderForm
+      heading="Edit Reminder"
+      submitLabel="Save Changes"
+      submittingLabel="Saving..."
+      initialValues={{
+        title: reminder.title,
+        description: reminder.description,
+        date: new Date(reminder.date),
+        media: reminder.media,
+        framing: reminder.framing,
+        overlay: reminder.overlay,
+        platforms: reminder.platforms,
+        captions: reminder.captions,
+        targetOptions: reminder.targetOptions,
+        recurrence: reminder.recurrence,
+        campaignId: reminder.campaignId,
+      }}
+      onSubmit={handleUpdateReminder}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
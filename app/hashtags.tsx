@@ -0,0 +1,238 @@
+import { StyleSheet, TouchableOpacity, ScrollView, Alert, TextInput } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import {
+  createHashtagSet,
+  deleteHashtagSet,
+  getHashtagSets,
+  updateHashtagSet,
+} from '@/services/hashtagService';
+import { parseHashtags } from '@/services/captionRules';
+import { HashtagSet } from '@/types/hashtag';
+import { useTheme } from '@/context/ThemeContext';
+
+/**
+ * Set being created (`id` unset) or edited in the inline editor
+ */
+type EditingSet = { id?: string; name: string; hashtags: string };
+
+export default function HashtagsScreen() {
+  const { isDarkMode } = useTheme();
+  const [sets, setSets] = useState<HashtagSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<EditingSet | null>(null);
+
+  const loadSets = async () => {
+    setSets(await getHashtagSets());
+    setLoading(false);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSets();
+    }, [])
+  );
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const hashtags = parseHashtags(editing.hashtags);
+    if (!editing.name.trim() || hashtags.length === 0) {
+      Alert.alert('Error', 'Please enter a name and at least one hashtag');
+      return;
+    }
+
+    try {
+      if (editing.id) {
+        await updateHashtagSet(editing.id, { name: editing.name.trim(), hashtags });
+      } else {
+        await createHashtagSet(editing.name, hashtags);
+      }
+      setEditing(null);
+      loadSets();
+    } catch (error) {
+      console.error('Error saving hashtag set:', error);
+      Alert.alert('Error', 'Failed to save hashtag set');
+    }
+  };
+
+  const handleDelete = (set: HashtagSet) => {
+    Alert.alert(
+      'Delete Hashtag Set',
+      `Delete "${set.name}"? Captions that already use it are not changed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteHashtagSet(set.id);
+            loadSets();
+          }
+        }
+      ]
+    );
+  };
+
+  const inputStyle = {
+    backgroundColor: isDarkMode ? '#222' : '#fff',
+    color: isDarkMode ? '#fff' : '#000',
+  };
+  const cardColor = isDarkMode ? '#333' : '#f5f5f5';
+
+  const renderEditor = () => editing && (
+    <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+      <TextInput
+        style={[styles.input, inputStyle]}
+        value={editing.name}
+        onChangeText={name => setEditing({ ...editing, name })}
+        placeholder="Set name, e.g. Summer Sale"
+        placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+      />
+      <TextInput
+        style={[styles.input, styles.hashtagInput, inputStyle]}
+        value={editing.hashtags}
+        onChangeText={hashtags => setEditing({ ...editing, hashtags })}
+        placeholder="#summer #sale #newin"
+        placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+        autoCapitalize="none"
+        multiline
+      />
+      <ThemedText style={styles.hint}>
+        {parseHashtags(editing.hashtags).length} hashtags. Separate them with spaces or commas, the # is optional.
+      </ThemedText>
+      <ThemedView style={styles.editorButtons}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setEditing(null)}>
+          <ThemedText>Cancel</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <ThemedText style={styles.saveButtonText}>Save</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </ThemedView>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.section}>
+        {editing && !editing.id ? renderEditor() : (
+          <TouchableOpacity style={styles.newButton} onPress={() => setEditing({ name: '', hashtags: '' })}>
+            <Ionicons name="add-circle-outline" size={20} color="white" />
+            <ThemedText style={styles.newButtonText}>New Hashtag Set</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {loading ? (
+          <ThemedText>Loading hashtag sets...</ThemedText>
+        ) : sets.length === 0 ? (
+          <ThemedText>No hashtag sets yet. Save the hashtags you use often and add them to a caption in one tap.</ThemedText>
+        ) : (
+          sets.map(set => editing?.id === set.id ? (
+            <ThemedView key={set.id}>{renderEditor()}</ThemedView>
+          ) : (
+            <ThemedView key={set.id} style={[styles.card, { backgroundColor: cardColor }]}>
+              <ThemedView style={styles.cardHeader}>
+                <ThemedView style={styles.cardTitle}>
+                  <ThemedText type="defaultSemiBold">{set.name}</ThemedText>
+                  <ThemedText style={styles.hint}>
+                    Used {set.usageCount} {set.usageCount === 1 ? 'time' : 'times'}
+                  </ThemedText>
+                </ThemedView>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => setEditing({ id: set.id, name: set.name, hashtags: set.hashtags.join(' ') })}
+                >
+                  <Ionicons name="create-outline" size={20} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(set)}>
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </ThemedView>
+              <ThemedText style={styles.hashtags}>{set.hashtags.join(' ')}</ThemedText>
+            </ThemedView>
+          ))
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  section: {
+    padding: 20,
+    gap: 12,
+  },
+  newButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+  },
+  newButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  cardTitle: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  hashtags: {
+    color: '#007AFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  input: {
+    padding: 12,
+    borderRadius: 8,
+    fontSize: 16,
+  },
+  hashtagInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  editorButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    backgroundColor: 'transparent',
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,337 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, ScrollView, Alert, useWindowDimensions } from 'react-native';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { useState, useCallback } from 'react';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { MediaThumbnail } from '@/components/MediaThumbnail';
+import { ShareResultIcon } from '@/components/ShareResultIcon';
+import {
+  deleteReminder,
+  getReminder,
+  permanentlyDeleteReminder,
+  restoreDeletedReminder,
+  shareReminder,
+} from '@/services/reminderService';
+import { describeRecurrence, getNextOccurrence } from '@/services/recurrence';
+import { getSelectedShareTargets, getShareTargetLabel } from '@/services/shareTargets';
+import { describeShareResult } from '@/services/shareResults';
+import { Reminder } from '@/types/reminder';
+import { useTheme } from '@/context/ThemeContext';
+
+export default function ReminderDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { isDarkMode } = useTheme();
+  const { width } = useWindowDimensions();
+  const [reminder, setReminder] = useState<Reminder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const loadReminder = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReminder(await getReminder(id));
+    } catch (error) {
+      console.error('Error loading reminder:', error);
+      Alert.alert('Error', 'Failed to load reminder');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  // Reload when returning from the edit screen
+  useFocusEffect(
+    useCallback(() => {
+      loadReminder();
+    }, [loadReminder])
+  );
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const leaveScreen = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  };
+
+  const handleShareNow = async () => {
+    if (!reminder) return;
+
+    try {
+      setIsSharing(true);
+      const results = await shareReminder(reminder);
+      const unshared = results.filter(result => result.outcome !== 'shared');
+      if (unshared.length > 0) {
+        Alert.alert(
+          'Not shared everywhere',
+          unshared.map(result => `${getShareTargetLabel(result.platform)}: ${describeShareResult(result)}`).join('\n')
+        );
+      }
+      await loadReminder();
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleEdit = () => {
+    router.push({
+      pathname: '/edit-reminder/[id]',
+      params: { id }
+    });
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Reminder',
+      'Move this reminder to the trash? You can restore it from Trash until it is purged.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Move to Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteReminder(id);
+              leaveScreen();
+            } catch (error) {
+              console.error('Error deleting reminder:', error);
+              Alert.alert('Error', 'Failed to delete reminder');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleRestore = async () => {
+    try {
+      await restoreDeletedReminder(id);
+      await loadReminder();
+    } catch (error) {
+      console.error('Error restoring reminder:', error);
+      Alert.alert('Error', 'Failed to restore reminder');
+    }
+  };
+
+  const handleDeleteForever = () => {
+    Alert.alert(
+      'Delete Forever',
+      'This reminder and its photos and videos will be deleted permanently.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await permanentlyDeleteReminder(id);
+              leaveScreen();
+            } catch (error) {
+              console.error('Error deleting reminder:', error);
+              Alert.alert('Error', 'Failed to delete reminder');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading && !reminder) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText>Loading reminder...</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (!reminder) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText>This reminder no longer exists.</ThemedText>
+        <TouchableOpacity style={styles.button} onPress={leaveScreen}>
+          <ThemedText style={styles.buttonText}>Back to Home</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  }
+
+  const nextOccurrence = reminder.recurrence ? getNextOccurrence(reminder) : undefined;
+  const platforms = getSelectedShareTargets(reminder.platforms);
+  const cardStyle = { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' };
+
+  return (
+    <ScrollView style={styles.scrollView}>
+      <ThemedView style={styles.container}>
+        {reminder.media.length > 0 && (
+          <ThemedView>
+            <ScrollView horizontal pagingEnabled showsHorizontalScrollIndicator={false}>
+              {reminder.media.map(item => (
+                // Page width is the screen width minus the container padding
+                <MediaThumbnail key={item.id} media={item} style={[styles.photo, { width: width - 40 }]} />
+              ))}
+            </ScrollView>
+            {reminder.media.length > 1 && (
+              <ThemedText style={styles.secondaryText}>
+                {reminder.media.length} items, swipe to browse
+              </ThemedText>
+            )}
+          </ThemedView>
+        )}
+
+        <ThemedText type="title">{reminder.title}</ThemedText>
+        {reminder.description ? (
+          <ThemedText>{reminder.description}</ThemedText>
+        ) : null}
+
+        <ThemedView style={[styles.card, cardStyle]}>
+          <ThemedText type="defaultSemiBold">Schedule</ThemedText>
+          <ThemedText>
+            {formatDate(nextOccurrence?.date ?? reminder.date)}
+            {reminder.completed ? ' (completed)' : ''}
+          </ThemedText>
+          {reminder.recurrence && (
+            <ThemedText style={styles.secondaryText}>
+              {describeRecurrence(reminder.recurrence, new Date(reminder.date))}
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        <ThemedView style={[styles.card, cardStyle]}>
+          <ThemedText type="defaultSemiBold">Platforms</ThemedText>
+          <ThemedText>
+            {platforms.length > 0 ? platforms.map(target => target.label).join(', ') : 'None'}
+          </ThemedText>
+        </ThemedView>
+
+        <ThemedView style={[styles.card, cardStyle]}>
+          <ThemedText type="defaultSemiBold">Share History</ThemedText>
+          {reminder.shareHistory.length === 0 ? (
+            <ThemedText style={styles.secondaryText}>Not shared yet</ThemedText>
+          ) : (
+            [...reminder.shareHistory].reverse().map((entry, index) => (
+              <ThemedView key={`${entry.sharedAt}-${entry.platform}-${index}`} style={[styles.historyRow, cardStyle]}>
+                <ShareResultIcon outcome={entry.outcome} />
+                <ThemedView style={[styles.historyDetails, cardStyle]}>
+                  <ThemedText style={styles.historyText}>
+                    {getShareTargetLabel(entry.platform)} · {formatDate(entry.sharedAt)}
+                  </ThemedText>
+                  <ThemedText style={styles.secondaryText}>
+                    {entry.message ? `${describeShareResult(entry)}: ${entry.message}` : describeShareResult(entry)}
+                  </ThemedText>
+                </ThemedView>
+              </ThemedView>
+            ))
+          )}
+        </ThemedView>
+
+        {reminder.deletedAt ? (
+          <ThemedView style={styles.actions}>
+            <ThemedText style={styles.secondaryText}>
+              In the trash since {formatDate(reminder.deletedAt)}
+            </ThemedText>
+            <TouchableOpacity style={styles.button} onPress={handleRestore}>
+              <ThemedText style={styles.buttonText}>Restore</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={handleDeleteForever}>
+              <ThemedText style={styles.buttonText}>Delete Forever</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        ) : (
+          <ThemedView style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, isSharing && styles.buttonDisabled]}
+              onPress={handleShareNow}
+              disabled={isSharing}
+            >
+              <ThemedText style={styles.buttonText}>{isSharing ? 'Sharing...' : 'Share Now'}</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={handleEdit}>
+              <ThemedText style={styles.buttonText}>Edit</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={handleDelete}>
+              <ThemedText style={styles.buttonText}>Delete</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollView: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    padding: 20,
+    gap: 16,
+  },
+  centered: {
+    flex: 1,
+    padding: 20,
+    gap: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photo: {
+    height: 240,
+    borderRadius: 12,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 6,
+  },
+  secondaryText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  historyDetails: {
+    flex: 1,
+  },
+  historyText: {
+    fontSize: 14,
+  },
+  actions: {
+    gap: 12,
+    marginBottom: 20,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#5856D6',
+  },
+  deleteButton: {
+    backgroundColor: '#FF3B30',
+  },
+  buttonDisabled: {
+    backgroundColor: '#999',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -1,14 +1,57 @@
-import { StyleSheet, Switch, TouchableOpacity, Alert } from 'react-native';
+import { StyleSheet, Switch, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { router } from 'expo-router';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { useState, useEffect } from 'react';
 import { useTheme } from '@/context/ThemeContext';
+import {
+  cleanUpOrphanedMedia,
+  formatFileSize,
+  getMediaStorageReport,
+  MediaStorageReport,
+} from '@/services/mediaStorageService';
+import { exportBackup, importBackup, pickBackupFile } from '@/services/backupService';
+import { DuplicateStrategy, InvalidBackupError } from '@/services/backupArchive';
+import { DEFAULT_SETTINGS, getSettings, TRASH_RETENTION_OPTIONS, updateSettings } from '@/services/settingsService';
 
 export default function SettingsScreen() {
   const { theme, isDarkMode, setTheme } = useTheme();
   const [notifications, setNotifications] = useState(true);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_SETTINGS.trashRetentionDays);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [storageReport, setStorageReport] = useState<MediaStorageReport | null>(null);
+  const [isCleaningUp, setIsCleaningUp] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  const loadStorageReport = async () => {
+    try {
+      setStorageReport(await getMediaStorageReport());
+    } catch (error) {
+      console.error('Error loading storage report:', error);
+    }
+  };
+
+  const loadSettings = async () => {
+    const settings = await getSettings();
+    setNotifications(settings.notificationsEnabled);
+    setTrashRetentionDays(settings.trashRetentionDays);
+  };
+
+  useEffect(() => {
+    loadSettings();
+    loadStorageReport();
+  }, []);
+
+  const handleNotificationsChange = async (value: boolean) => {
+    try {
+      setNotifications(value);
+      await updateSettings({ notificationsEnabled: value });
+    } catch (error) {
+      console.error('Error changing notification setting:', error);
+      setNotifications(!value);
+      Alert.alert('Error', 'Failed to save setting. Please try again.');
+    }
+  };
 
   const handleThemeChange = async (value: boolean) => {
     try {
@@ -22,8 +65,101 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleCleanUp = async () => {
+    try {
+      setIsCleaningUp(true);
+      const { deletedCount, freedSize } = await cleanUpOrphanedMedia();
+      Alert.alert(
+        'Storage Cleaned Up',
+        deletedCount > 0
+          ? `Removed ${deletedCount} unused ${deletedCount === 1 ? 'file' : 'files'} and freed ${formatFileSize(freedSize)}.`
+          : 'There were no unused media files to remove.'
+      );
+      await loadStorageReport();
+    } catch (error) {
+      console.error('Error cleaning up storage:', error);
+      Alert.alert('Error', 'Failed to clean up storage. Please try again.');
+    } finally {
+      setIsCleaningUp(false);
+    }
+  };
+
+  const handleTrashRetentionChange = async (days: number) => {
+    const previous = trashRetentionDays;
+    try {
+      setTrashRetentionDays(days);
+      await updateSettings({ trashRetentionDays: days });
+    } catch (error) {
+      console.error('Error changing trash retention:', error);
+      setTrashRetentionDays(previous);
+      Alert.alert('Error', 'Failed to save setting. Please try again.');
+    }
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      setIsBackingUp(true);
+      await exportBackup(theme);
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert('Error', 'Failed to export backup. Please try again.');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const restoreBackup = async (uri: string, strategy: DuplicateStrategy) => {
+    try {
+      setIsBackingUp(true);
+      const result = await importBackup(uri, strategy);
+      if (result.theme) {
+        await setTheme(result.theme);
+      }
+      await loadSettings();
+      await loadStorageReport();
+
+      const details = [
+        `${result.restored} restored`,
+        result.merged > 0 ? `${result.merged} merged` : null,
+        result.skipped > 0 ? `${result.skipped} already on this device` : null,
+        result.invalid > 0 ? `${result.invalid} could not be read` : null,
+      ].filter(Boolean).join(', ');
+      Alert.alert('Backup Restored', `Reminders: ${details}.`);
+    } catch (error) {
+      console.error('Error importing backup:', error);
+      Alert.alert(
+        'Error',
+        error instanceof InvalidBackupError
+          ? `This file can't be restored: ${error.message}.`
+          : 'Failed to restore backup. Please try again.'
+      );
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleImportBackup = async () => {
+    try {
+      const uri = await pickBackupFile();
+      if (!uri) return;
+
+      Alert.alert(
+        'Restore Backup',
+        'What should happen to reminders that are already on this device?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Keep Existing', onPress: () => restoreBackup(uri, 'skip') },
+          { text: 'Merge', onPress: () => restoreBackup(uri, 'merge') },
+        ]
+      );
+    } catch (error) {
+      console.error('Error picking backup file:', error);
+      Alert.alert('Error', 'Failed to open backup file. Please try again.');
+    }
+  };
+
   return (
-    <ThemedView style={styles.container}>
+    <ScrollView style={styles.scrollView} contentContainerStyle={styles.container}>
       <ThemedText type="title" style={styles.header}>Settings</ThemedText>
       
       <ThemedView style={styles.section}>
@@ -31,7 +167,7 @@ export default function SettingsScreen() {
           <ThemedText>Push Notifications</ThemedText>
           <Switch
             value={notifications}
-            onValueChange={setNotifications}
+            onValueChange={handleNotificationsChange}
             disabled={isSubmitting}
           />
         </ThemedView>
@@ -46,19 +182,110 @@ export default function SettingsScreen() {
         </ThemedView>
       </ThemedView>
 
+      <ThemedView style={styles.section}>
+        <ThemedText type="subtitle">Trash</ThemedText>
+        <ThemedText style={styles.sectionDescription}>
+          Deleted reminders are removed permanently after this many days.
+        </ThemedText>
+        <ThemedView style={styles.segmentRow}>
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.segment, trashRetentionDays === days && styles.segmentSelected]}
+              onPress={() => handleTrashRetentionChange(days)}
+            >
+              <ThemedText style={trashRetentionDays === days && styles.segmentTextSelected}>
+                {days} days
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ThemedView>
+      </ThemedView>
+
+      <ThemedView style={styles.section}>
+        <ThemedText type="subtitle">Storage</ThemedText>
+        <ThemedView style={[styles.storageCard, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}>
+          {storageReport ? (
+            <>
+              <ThemedView style={styles.storageRow}>
+                <ThemedText>Media</ThemedText>
+                <ThemedText>
+                  {formatFileSize(storageReport.totalSize)} in {storageReport.fileCount} files
+                </ThemedText>
+              </ThemedView>
+              <ThemedView style={styles.storageRow}>
+                <ThemedText>Unused</ThemedText>
+                <ThemedText>
+                  {formatFileSize(storageReport.orphanedSize)} in {storageReport.orphanedCount} files
+                </ThemedText>
+              </ThemedView>
+              {storageReport.largestFiles.length > 0 && (
+                <ThemedText style={styles.storageHeading}>Largest items</ThemedText>
+              )}
+              {storageReport.largestFiles.map(file => (
+                <ThemedView key={file.uri} style={styles.storageRow}>
+                  <ThemedText style={styles.fileName} numberOfLines={1}>
+                    {file.uri.split('/').pop()}
+                    {file.referenced ? '' : ' (unused)'}
+                  </ThemedText>
+                  <ThemedText style={styles.fileSize}>{formatFileSize(file.size)}</ThemedText>
+                </ThemedView>
+              ))}
+            </>
+          ) : (
+            <ThemedText>Calculating storage...</ThemedText>
+          )}
+        </ThemedView>
+        <TouchableOpacity
+          style={[styles.button, styles.cleanUpButton, isCleaningUp && styles.buttonDisabled]}
+          onPress={handleCleanUp}
+          disabled={isCleaningUp}
+        >
+          <ThemedText style={styles.buttonText}>
+            {isCleaningUp ? 'Cleaning Up...' : 'Clean Up Unused Media'}
+          </ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+
+      <ThemedView style={styles.section}>
+        <ThemedText type="subtitle">Backup</ThemedText>
+        <ThemedText style={styles.sectionDescription}>
+          Save reminders, settings and media to a single file, or restore them on a new device.
+        </ThemedText>
+        <TouchableOpacity
+          style={[styles.button, isBackingUp && styles.buttonDisabled]}
+          onPress={handleExportBackup}
+          disabled={isBackingUp}
+        >
+          <ThemedText style={styles.buttonText}>
+            {isBackingUp ? 'Working...' : 'Export Backup'}
+          </ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.importButton, isBackingUp && styles.buttonDisabled]}
+          onPress={handleImportBackup}
+          disabled={isBackingUp}
+        >
+          <ThemedText style={styles.buttonText}>Import Backup</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+
       <TouchableOpacity 
         style={styles.button}
         onPress={() => router.back()}
       >
         <ThemedText style={styles.buttonText}>Back to Home</ThemedText>
       </TouchableOpacity>
-    </ThemedView>
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
-  container: {
+  scrollView: {
     flex: 1,
+  },
+  container: {
+    flexGrow: 1,
     padding: 20,
   },
   header: {
@@ -77,12 +304,67 @@ const styles = StyleSheet.create({
     backgroundColor: '#f5f5f5',
     borderRadius: 8,
   },
+  storageCard: {
+    padding: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  storageRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: 'transparent',
+  },
+  storageHeading: {
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 14,
+  },
+  fileSize: {
+    fontSize: 14,
+    color: '#666',
+  },
   button: {
     backgroundColor: '#007AFF',
     padding: 16,
     borderRadius: 8,
     alignItems: 'center',
   },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  importButton: {
+    backgroundColor: '#5856D6',
+  },
+  cleanUpButton: {
+    backgroundColor: '#FF9500',
+  },
+  buttonDisabled: {
+    backgroundColor: '#999',
+  },
   buttonText: {
     color: 'white',
     fontSize: 16,
@@ -0,0 +1,285 @@
+import { StyleSheet, TouchableOpacity, ScrollView, Alert, TextInput } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import {
+  CaptionTemplateFields,
+  createCaptionTemplate,
+  deleteCaptionTemplate,
+  getCaptionTemplates,
+  updateCaptionTemplate,
+} from '@/services/templateService';
+import { TEMPLATE_PLACEHOLDERS } from '@/services/captionTemplates';
+import { CaptionTemplate } from '@/types/template';
+import { useTheme } from '@/context/ThemeContext';
+
+/**
+ * Template being created (`template` unset) or edited in the inline editor
+ */
+type EditingTemplate = { template?: CaptionTemplate; fields: CaptionTemplateFields };
+
+const EMPTY_FIELDS: CaptionTemplateFields = { name: '', title: '', description: '' };
+
+export default function TemplatesScreen() {
+  const { isDarkMode } = useTheme();
+  const [templates, setTemplates] = useState<CaptionTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<EditingTemplate | null>(null);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await getCaptionTemplates());
+    } catch (error) {
+      console.error('Error loading caption templates:', error);
+      Alert.alert('Error', 'Failed to load caption templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTemplates();
+    }, [])
+  );
+
+  const updateFields = (changes: Partial<CaptionTemplateFields>) => {
+    setEditing(prev => prev && { ...prev, fields: { ...prev.fields, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    if (!editing.fields.name.trim()) {
+      Alert.alert('Error', 'Please enter a name for the template');
+      return;
+    }
+
+    try {
+      if (editing.template) {
+        await updateCaptionTemplate({ ...editing.template, ...editing.fields });
+      } else {
+        await createCaptionTemplate(editing.fields);
+      }
+      setEditing(null);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error saving caption template:', error);
+      Alert.alert('Error', 'Failed to save caption template');
+    }
+  };
+
+  const handleDelete = (template: CaptionTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete "${template.name}"? Reminders created from it keep their text.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCaptionTemplate(template.id);
+              loadTemplates();
+            } catch (error) {
+              console.error('Error deleting caption template:', error);
+              Alert.alert('Error', 'Failed to delete caption template');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const inputStyle = {
+    backgroundColor: isDarkMode ? '#222' : '#fff',
+    color: isDarkMode ? '#fff' : '#000',
+  };
+  const cardColor = isDarkMode ? '#333' : '#f5f5f5';
+
+  const renderEditor = () => editing && (
+    <ThemedView style={[styles.card, { backgroundColor: cardColor }]}>
+      <TextInput
+        style={[styles.input, inputStyle]}
+        value={editing.fields.name}
+        onChangeText={name => updateFields({ name })}
+        placeholder="Template name, e.g. Weekly Special"
+        placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+      />
+      <TextInput
+        style={[styles.input, inputStyle]}
+        value={editing.fields.title}
+        onChangeText={title => updateFields({ title })}
+        placeholder="Title, e.g. {weekday} Special"
+        placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+      />
+      <TextInput
+        style={[styles.input, styles.captionInput, inputStyle]}
+        value={editing.fields.description}
+        onChangeText={description => updateFields({ description })}
+        placeholder="Caption"
+        placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+        multiline
+      />
+      <ThemedText style={styles.hint}>Tap a placeholder to add it to the caption</ThemedText>
+      <ThemedView style={styles.placeholderRow}>
+        {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+          <TouchableOpacity
+            key={placeholder.key}
+            style={styles.placeholderChip}
+            onPress={() => updateFields({ description: `${editing.fields.description}{${placeholder.key}}` })}
+          >
+            <ThemedText style={styles.placeholderText}>{`{${placeholder.key}}`}</ThemedText>
+            <ThemedText style={styles.hint}>{placeholder.description}</ThemedText>
+          </TouchableOpacity>
+        ))}
+      </ThemedView>
+      <ThemedView style={styles.editorButtons}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setEditing(null)}>
+          <ThemedText>Cancel</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <ThemedText style={styles.saveButtonText}>Save</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </ThemedView>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.section}>
+        {editing && !editing.template ? renderEditor() : (
+          <TouchableOpacity style={styles.newButton} onPress={() => setEditing({ fields: EMPTY_FIELDS })}>
+            <Ionicons name="add-circle-outline" size={20} color="white" />
+            <ThemedText style={styles.newButtonText}>New Template</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {loading ? (
+          <ThemedText>Loading templates...</ThemedText>
+        ) : templates.length === 0 ? (
+          <ThemedText>No templates yet. Save a caption you post often and fill in the date or campaign automatically.</ThemedText>
+        ) : (
+          templates.map(template => editing?.template?.id === template.id ? (
+            <ThemedView key={template.id}>{renderEditor()}</ThemedView>
+          ) : (
+            <ThemedView key={template.id} style={[styles.card, { backgroundColor: cardColor }]}>
+              <ThemedView style={styles.cardHeader}>
+                <ThemedText type="defaultSemiBold" style={styles.cardTitle}>{template.name}</ThemedText>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => setEditing({
+                    template,
+                    fields: { name: template.name, title: template.title, description: template.description },
+                  })}
+                >
+                  <Ionicons name="create-outline" size={20} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template)}>
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </ThemedView>
+              {template.title !== '' && <ThemedText>{template.title}</ThemedText>}
+              {template.description !== '' && (
+                <ThemedText style={styles.hint} numberOfLines={3}>{template.description}</ThemedText>
+              )}
+            </ThemedView>
+          ))
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  section: {
+    padding: 20,
+    gap: 12,
+  },
+  newButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+  },
+  newButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  input: {
+    padding: 12,
+    borderRadius: 8,
+    fontSize: 16,
+  },
+  captionInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  placeholderRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    backgroundColor: 'transparent',
+  },
+  placeholderChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  placeholderText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  editorButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    backgroundColor: 'transparent',
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
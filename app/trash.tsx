@@ -0,0 +1,196 @@
+import { StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { MediaThumbnail } from '@/components/MediaThumbnail';
+import {
+  emptyTrash,
+  getTrashedReminders,
+  permanentlyDeleteReminder,
+  restoreDeletedReminder,
+} from '@/services/reminderService';
+import { getSettings } from '@/services/settingsService';
+import { Reminder } from '@/types/reminder';
+import { useTheme } from '@/context/ThemeContext';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashScreen() {
+  const { isDarkMode } = useTheme();
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+
+  const loadTrash = async () => {
+    try {
+      setLoading(true);
+      const [trashed, settings] = await Promise.all([getTrashedReminders(), getSettings()]);
+      setReminders(trashed);
+      setRetentionDays(settings.trashRetentionDays);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [])
+  );
+
+  const handleRestore = async (id: string) => {
+    try {
+      await restoreDeletedReminder(id);
+      loadTrash();
+    } catch (error) {
+      console.error('Error restoring reminder:', error);
+      Alert.alert('Error', 'Failed to restore reminder');
+    }
+  };
+
+  const handleDeleteForever = (id: string) => {
+    Alert.alert(
+      'Delete Forever',
+      'This reminder and its photos and videos will be deleted permanently.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await permanentlyDeleteReminder(id);
+              loadTrash();
+            } catch (error) {
+              console.error('Error deleting reminder:', error);
+              Alert.alert('Error', 'Failed to delete reminder');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${reminders.length} ${reminders.length === 1 ? 'reminder' : 'reminders'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash();
+              loadTrash();
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              Alert.alert('Error', 'Failed to empty trash');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const describeDeletion = (deletedAt: string) => {
+    const deleted = new Date(deletedAt);
+    const daysLeft = Math.max(0, Math.ceil((deleted.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+    const deletedOn = deleted.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `Deleted ${deletedOn}, removed in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`;
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <ThemedView style={styles.section}>
+        {loading ? (
+          <ThemedText>Loading trash...</ThemedText>
+        ) : reminders.length === 0 ? (
+          <ThemedText>Trash is empty. Deleted reminders are kept here for {retentionDays} days.</ThemedText>
+        ) : (
+          <>
+            {reminders.map(reminder => (
+              <ThemedView
+                key={reminder.id}
+                style={[styles.reminderCard, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}
+              >
+                {reminder.media.length > 0 && (
+                  <MediaThumbnail media={reminder.media[0]} style={styles.reminderThumbnail} showDuration={false} />
+                )}
+                <ThemedView style={styles.reminderDetails}>
+                  <ThemedText style={styles.reminderTitle}>{reminder.title}</ThemedText>
+                  <ThemedText style={styles.reminderDate}>{describeDeletion(reminder.deletedAt as string)}</ThemedText>
+                </ThemedView>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleRestore(reminder.id)}>
+                  <Ionicons name="arrow-undo-outline" size={20} color="#007AFF" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDeleteForever(reminder.id)}>
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </ThemedView>
+            ))}
+            <TouchableOpacity style={styles.emptyButton} onPress={handleEmptyTrash}>
+              <ThemedText style={styles.emptyButtonText}>Empty Trash</ThemedText>
+            </TouchableOpacity>
+          </>
+        )}
+      </ThemedView>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  section: {
+    padding: 20,
+    gap: 12,
+  },
+  reminderCard: {
+    padding: 16,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  reminderThumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  reminderDetails: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  reminderTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  reminderDate: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  emptyButton: {
+    backgroundColor: '#FF3B30',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  emptyButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
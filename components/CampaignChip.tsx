@@ -0,0 +1,59 @@
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { Campaign } from '@/types/campaign';
+
+type Props = {
+  campaign: Campaign;
+  selected?: boolean;
+  /** Makes the chip tappable */
+  onPress?: () => void;
+  onLongPress?: () => void;
+};
+
+/**
+ * Small pill showing a campaign's name in its color
+ */
+export function CampaignChip({ campaign, selected = false, onPress, onLongPress }: Props) {
+  const content = (
+    <>
+      <View style={[styles.dot, { backgroundColor: selected ? '#fff' : campaign.color }]} />
+      <ThemedText style={[styles.text, { color: selected ? '#fff' : campaign.color }]} numberOfLines={1}>
+        {campaign.name}
+      </ThemedText>
+    </>
+  );
+
+  const style = [styles.chip, { borderColor: campaign.color }, selected && { backgroundColor: campaign.color }];
+
+  if (!onPress && !onLongPress) {
+    return <View style={style}>{content}</View>;
+  }
+
+  return (
+    <TouchableOpacity style={style} onPress={onPress} onLongPress={onLongPress}>
+      {content}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  text: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
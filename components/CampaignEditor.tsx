@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/context/ThemeContext';
+import { CAMPAIGN_COLORS } from '@/services/campaigns';
+
+type Props = {
+  initialName?: string;
+  initialColor?: string;
+  submitLabel: string;
+  onSubmit: (name: string, color: string) => Promise<void>;
+  onCancel: () => void;
+};
+
+/**
+ * Inline name and color fields for creating or editing a campaign
+ */
+export function CampaignEditor({ initialName = '', initialColor = CAMPAIGN_COLORS[0], submitLabel, onSubmit, onCancel }: Props) {
+  const { isDarkMode } = useTheme();
+  const [name, setName] = useState(initialName);
+  const [color, setColor] = useState(initialColor);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      await onSubmit(name.trim(), color);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canSubmit = name.trim() !== '' && !isSubmitting;
+
+  return (
+    <ThemedView style={[styles.container, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}>
+      <TextInput
+        style={[styles.input, { color: isDarkMode ? '#fff' : '#000', borderColor: color }]}
+        value={name}
+        onChangeText={setName}
+        placeholder="Campaign name, e.g. Spring Launch"
+        placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+        autoFocus
+      />
+      <View style={styles.swatchRow}>
+        {CAMPAIGN_COLORS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.swatch, { backgroundColor: option }, color === option && styles.swatchSelected]}
+            onPress={() => setColor(option)}
+          />
+        ))}
+      </View>
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+          <ThemedText>Cancel</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+        >
+          <ThemedText style={styles.submitText}>{submitLabel}</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 12,
+    borderRadius: 8,
+    gap: 12,
+  },
+  input: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  swatch: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#fff',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
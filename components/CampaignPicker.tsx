@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { CampaignChip } from '@/components/CampaignChip';
+import { CampaignEditor } from '@/components/CampaignEditor';
+import { createCampaign, getCampaigns } from '@/services/campaignService';
+import { Campaign } from '@/types/campaign';
+
+type Props = {
+  value?: string;
+  onChange: (campaignId: string | undefined) => void;
+};
+
+/**
+ * Chips for choosing the campaign a reminder belongs to, with an inline way to add one
+ */
+export function CampaignPicker({ value, onChange }: Props) {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    getCampaigns().then(setCampaigns);
+  }, []);
+
+  const handleCreate = async (name: string, color: string) => {
+    try {
+      const campaign = await createCampaign(name, color);
+      setCampaigns(prev => [...prev, campaign]);
+      setIsCreating(false);
+      onChange(campaign.id);
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      Alert.alert('Error', 'Failed to create campaign. Please try again.');
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        <TouchableOpacity
+          style={[styles.optionChip, !value && styles.optionChipSelected]}
+          onPress={() => onChange(undefined)}
+        >
+          <ThemedText style={[styles.optionText, !value && styles.optionTextSelected]}>None</ThemedText>
+        </TouchableOpacity>
+        {campaigns.map(campaign => (
+          <CampaignChip
+            key={campaign.id}
+            campaign={campaign}
+            selected={value === campaign.id}
+            onPress={() => onChange(campaign.id)}
+          />
+        ))}
+        {!isCreating && (
+          <TouchableOpacity style={styles.optionChip} onPress={() => setIsCreating(true)}>
+            <Ionicons name="add" size={14} color="#007AFF" />
+            <ThemedText style={styles.optionText}>New</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+      {isCreating && (
+        <CampaignEditor submitLabel="Add" onSubmit={handleCreate} onCancel={() => setIsCreating(false)} />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  optionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  optionChipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#007AFF',
+  },
+  optionTextSelected: {
+    color: 'white',
+  },
+});
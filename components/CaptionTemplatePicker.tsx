@@ -0,0 +1,72 @@
+import { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { getCaptionTemplates } from '@/services/templateService';
+import { CaptionTemplate } from '@/types/template';
+
+type Props = {
+  /** Called with the tapped template */
+  onSelect: (template: CaptionTemplate) => void;
+};
+
+/**
+ * Row of caption templates that prefill the title and caption when tapped
+ */
+export function CaptionTemplatePicker({ onSelect }: Props) {
+  const [templates, setTemplates] = useState<CaptionTemplate[]>([]);
+
+  // Reload when coming back from the template manager
+  useFocusEffect(
+    useCallback(() => {
+      getCaptionTemplates()
+        .then(setTemplates)
+        .catch(error => console.error('Error loading caption templates:', error));
+    }, [])
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText>Start From a Template</ThemedText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {templates.map(template => (
+          <TouchableOpacity key={template.id} style={styles.chip} onPress={() => onSelect(template)}>
+            <Ionicons name="document-text-outline" size={14} color="#007AFF" />
+            <ThemedText style={styles.chipText}>{template.name}</ThemedText>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.chip} onPress={() => router.push('/templates')}>
+          <Ionicons name={templates.length > 0 ? 'settings-outline' : 'add'} size={14} color="#007AFF" />
+          <ThemedText style={styles.chipText}>{templates.length > 0 ? 'Manage' : 'New Template'}</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,73 @@
+import { StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { checkPlatformCaptions, normalizePlatformCaptions } from '@/services/captionRules';
+import { getShareTargetLabel } from '@/services/shareTargets';
+import { PlatformCaptions, ReminderPlatforms } from '@/types/reminder';
+
+type Props = {
+  title: string;
+  /** The default caption */
+  description: string;
+  /** Per-platform captions that replace the default */
+  captions: PlatformCaptions;
+  platforms: ReminderPlatforms;
+};
+
+/**
+ * Live character and hashtag counts of each selected platform's caption against its limits
+ */
+export function CaptionValidator({ title, description, captions, platforms }: Props) {
+  const checks = checkPlatformCaptions(title.trim(), description.trim(), normalizePlatformCaptions(captions), platforms);
+
+  return (
+    <ThemedView style={styles.container}>
+      {checks.map(check => {
+        const overLimit = check.tooLong || check.tooManyHashtags;
+        return (
+          <ThemedView key={check.platform} style={styles.row}>
+            <Ionicons
+              name={overLimit ? 'warning-outline' : 'checkmark-circle-outline'}
+              size={14}
+              color={overLimit ? '#FF3B30' : '#34C759'}
+            />
+            <ThemedText style={styles.platform}>{getShareTargetLabel(check.platform)}</ThemedText>
+            <ThemedText style={[styles.count, check.tooLong && styles.overLimit]}>
+              {check.length.toLocaleString('en-US')}/{check.limits.maxLength.toLocaleString('en-US')} characters
+            </ThemedText>
+            <ThemedText style={[styles.count, check.tooManyHashtags && styles.overLimit]}>
+              {check.limits.maxHashtags !== undefined
+                ? `${check.hashtagCount}/${check.limits.maxHashtags} hashtags`
+                : `${check.hashtagCount} hashtags`}
+            </ThemedText>
+          </ThemedView>
+        );
+      })}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  platform: {
+    fontSize: 12,
+    fontWeight: '600',
+    minWidth: 72,
+  },
+  count: {
+    fontSize: 12,
+    color: '#666',
+  },
+  overLimit: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+});
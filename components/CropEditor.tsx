@@ -0,0 +1,227 @@
+import React from 'react';
+import { Image, Modal, PanResponder, StyleSheet, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/context/ThemeContext';
+import { clampCropRect, FULL_CROP, getCropRect, SHARE_FORMATS } from '@/services/framing';
+import { CropRect, FixedShareFormat } from '@/types/reminder';
+
+type Props = {
+  /** Photo to crop, the editor is hidden while this is undefined */
+  uri?: string;
+  value?: CropRect;
+  onCancel: () => void;
+  onSave: (crop: CropRect) => void;
+};
+
+const HANDLE_SIZE = 28;
+
+/**
+ * Modal for choosing the region of a photo to keep with manual framing.
+ * Drag the frame to move it and the corner handle to resize it.
+ */
+export function CropEditor({ uri, value, onCancel, onSave }: Props) {
+  const { isDarkMode } = useTheme();
+  const { width: windowWidth, height: windowHeight } = useWindowDimensions();
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState<CropRect>(value ?? FULL_CROP);
+  // PanResponder callbacks are created once, so they read the latest values through refs
+  const cropRef = useRef(crop);
+  const dragStart = useRef(crop);
+  const displaySize = useRef({ width: 1, height: 1 });
+
+  useEffect(() => {
+    cropRef.current = crop;
+  }, [crop]);
+
+  useEffect(() => {
+    if (!uri) return;
+
+    setImageSize(null);
+    setCrop(value ?? FULL_CROP);
+    Image.getSize(uri, (width, height) => setImageSize({ width, height }), error => {
+      console.error('Error reading image size:', error);
+      onCancel();
+    });
+  }, [uri]);
+
+  const maxWidth = windowWidth - 40;
+  const maxHeight = windowHeight * 0.55;
+  const scale = imageSize ? Math.min(maxWidth / imageSize.width, maxHeight / imageSize.height) : 1;
+  const display = imageSize
+    ? { width: imageSize.width * scale, height: imageSize.height * scale }
+    : { width: maxWidth, height: maxHeight };
+  displaySize.current = display;
+
+  const moveResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onPanResponderGrant: () => {
+      dragStart.current = cropRef.current;
+    },
+    onPanResponderMove: (_, gesture) => {
+      const start = dragStart.current;
+      setCrop(clampCropRect({
+        ...start,
+        x: start.x + gesture.dx / displaySize.current.width,
+        y: start.y + gesture.dy / displaySize.current.height,
+      }));
+    },
+  }), []);
+
+  const resizeResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onPanResponderGrant: () => {
+      dragStart.current = cropRef.current;
+    },
+    onPanResponderMove: (_, gesture) => {
+      const start = dragStart.current;
+      setCrop(clampCropRect({
+        ...start,
+        width: Math.min(start.width + gesture.dx / displaySize.current.width, 1 - start.x),
+        height: Math.min(start.height + gesture.dy / displaySize.current.height, 1 - start.y),
+      }));
+    },
+  }), []);
+
+  // Snaps the frame to the largest centered rectangle of a format's aspect ratio
+  const handleAspectPreset = (format: FixedShareFormat) => {
+    if (!imageSize) return;
+
+    const rect = getCropRect(imageSize.width, imageSize.height, format);
+    setCrop({
+      x: rect.x / imageSize.width,
+      y: rect.y / imageSize.height,
+      width: rect.width / imageSize.width,
+      height: rect.height / imageSize.height,
+    });
+  };
+
+  return (
+    <Modal visible={Boolean(uri)} transparent animationType="slide" onRequestClose={onCancel}>
+      <ThemedView style={styles.modalContainer}>
+        <ThemedView style={[styles.modalContent, { backgroundColor: isDarkMode ? '#333' : '#fff' }]}>
+          <ThemedText style={styles.modalTitle}>Crop Photo</ThemedText>
+
+          {uri && imageSize ? (
+            <View style={{ width: display.width, height: display.height }}>
+              <Image source={{ uri }} style={{ width: display.width, height: display.height }} />
+              <View
+                style={[
+                  styles.cropFrame,
+                  {
+                    left: crop.x * display.width,
+                    top: crop.y * display.height,
+                    width: crop.width * display.width,
+                    height: crop.height * display.height,
+                  },
+                ]}
+                {...moveResponder.panHandlers}
+              >
+                <View style={styles.resizeHandle} {...resizeResponder.panHandlers} />
+              </View>
+            </View>
+          ) : (
+            <ThemedText>Loading photo...</ThemedText>
+          )}
+
+          <ThemedView style={[styles.presets, { backgroundColor: 'transparent' }]}>
+            {(Object.keys(SHARE_FORMATS) as FixedShareFormat[]).map(format => (
+              <TouchableOpacity key={format} style={styles.presetButton} onPress={() => handleAspectPreset(format)}>
+                <ThemedText style={styles.presetText}>{SHARE_FORMATS[format].label}</ThemedText>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.presetButton} onPress={() => setCrop(FULL_CROP)}>
+              <ThemedText style={styles.presetText}>Reset</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <ThemedView style={[styles.modalButtons, { backgroundColor: 'transparent' }]}>
+            <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={onCancel}>
+              <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.modalButton, styles.saveButton]} onPress={() => onSave(crop)}>
+              <ThemedText style={styles.modalButtonText}>Save</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '100%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+    gap: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  cropFrame: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#fff',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  resizeHandle: {
+    position: 'absolute',
+    right: -HANDLE_SIZE / 2,
+    bottom: -HANDLE_SIZE / 2,
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: '#007AFF',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  presetButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#5856D6',
+  },
+  presetText: {
+    color: 'white',
+    fontSize: 14,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#FF3B30',
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,105 @@
+import { StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { getShareFormat, SHARE_FORMAT_OPTIONS } from '@/services/framing';
+import { getSelectedShareTargets } from '@/services/shareTargets';
+import { FramingMode, ReminderFraming, ReminderPlatforms, ShareFormat, ShareTargetId } from '@/types/reminder';
+
+const MODE_OPTIONS: { value: FramingMode; label: string }[] = [
+  { value: 'center-crop', label: 'Crop' },
+  { value: 'fit-blur', label: 'Fit + Blur' },
+  { value: 'manual', label: 'Manual' },
+];
+
+const MODE_DESCRIPTIONS: Record<FramingMode, string> = {
+  'center-crop': 'Photos fill the frame, edges are trimmed evenly.',
+  'fit-blur': 'Whole photos are shown over a blurred background.',
+  manual: 'Tap the crop icon on each photo to choose what to keep.',
+};
+
+type Props = {
+  value: ReminderFraming;
+  platforms: ReminderPlatforms;
+  onChange: (framing: ReminderFraming) => void;
+};
+
+export function FramingPicker({ value, platforms, onChange }: Props) {
+  const enabledTargets = getSelectedShareTargets(platforms);
+
+  const handleFormatChange = (platform: ShareTargetId, format: ShareFormat) => {
+    onChange({ ...value, formats: { ...value.formats, [platform]: format } });
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.segmentRow}>
+        {MODE_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segment, value.mode === option.value && styles.segmentSelected]}
+            onPress={() => onChange({ ...value, mode: option.value })}
+          >
+            <ThemedText style={value.mode === option.value && styles.segmentTextSelected}>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </ThemedView>
+      <ThemedText style={styles.summary}>{MODE_DESCRIPTIONS[value.mode]}</ThemedText>
+
+      {enabledTargets.map(target => (
+        <ThemedView key={target.id} style={styles.platformFormats}>
+          <ThemedText>{target.label}</ThemedText>
+          <ThemedView style={styles.segmentRow}>
+            {SHARE_FORMAT_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.segment, getShareFormat(value, target.id) === option.value && styles.segmentSelected]}
+                onPress={() => handleFormatChange(target.id, option.value)}
+              >
+                <ThemedText style={[styles.formatText, getShareFormat(value, target.id) === option.value && styles.segmentTextSelected]}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ThemedView>
+        </ThemedView>
+      ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  formatText: {
+    fontSize: 13,
+  },
+  platformFormats: {
+    gap: 6,
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
@@ -0,0 +1,74 @@
+import { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { getHashtagSets, recordHashtagSetUsage } from '@/services/hashtagService';
+import { HashtagSet } from '@/types/hashtag';
+
+type Props = {
+  /** Called with the hashtags of the tapped set */
+  onInsert: (hashtags: string[]) => void;
+};
+
+/**
+ * Row of saved hashtag sets, most used first, that insert their hashtags when tapped
+ */
+export function HashtagSetPicker({ onInsert }: Props) {
+  const [sets, setSets] = useState<HashtagSet[]>([]);
+
+  // Reload when coming back from the hashtag library
+  useFocusEffect(
+    useCallback(() => {
+      getHashtagSets().then(setSets);
+    }, [])
+  );
+
+  const handleInsert = (set: HashtagSet) => {
+    onInsert(set.hashtags);
+    recordHashtagSetUsage(set.id);
+    setSets(prev => prev.map(s => (s.id === set.id ? { ...s, usageCount: s.usageCount + 1 } : s)));
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+      {sets.map(set => (
+        <TouchableOpacity key={set.id} style={styles.chip} onPress={() => handleInsert(set)}>
+          <Ionicons name="pricetag-outline" size={14} color="#007AFF" />
+          <ThemedText style={styles.chipText}>{set.name}</ThemedText>
+          <ThemedText style={styles.usageCount}>{set.usageCount}</ThemedText>
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity style={styles.chip} onPress={() => router.push('/hashtags')}>
+        <Ionicons name={sets.length > 0 ? 'settings-outline' : 'add'} size={14} color="#007AFF" />
+        <ThemedText style={styles.chipText}>{sets.length > 0 ? 'Manage' : 'Hashtag Sets'}</ThemedText>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#007AFF',
+  },
+  usageCount: {
+    fontSize: 11,
+    lineHeight: 18,
+    color: '#999',
+  },
+});
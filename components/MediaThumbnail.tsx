@@ -0,0 +1,71 @@
+import { Image, StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ReminderMedia } from '@/types/reminder';
+
+type Props = {
+  media: ReminderMedia;
+  style?: StyleProp<ViewStyle>;
+  /** Hides the duration badge on small thumbnails */
+  showDuration?: boolean;
+};
+
+const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.round(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Preview of a photo, or of a video's still frame with a play badge
+ */
+export function MediaThumbnail({ media, style, showDuration = true }: Props) {
+  const previewUri = media.type === 'video' ? media.thumbnailUri : media.uri;
+
+  return (
+    <View style={[styles.container, style]}>
+      {previewUri ? (
+        <Image source={{ uri: previewUri }} style={styles.image} />
+      ) : (
+        <View style={[styles.image, styles.missingPreview]} />
+      )}
+      {media.type === 'video' && (
+        <View style={styles.videoOverlay} pointerEvents="none">
+          <Ionicons name="play-circle" size={28} color="#fff" />
+          {showDuration && media.duration ? (
+            <Text style={styles.duration}>{formatDuration(media.duration)}</Text>
+          ) : null}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: '#000',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+    resizeMode: 'cover',
+  },
+  missingPreview: {
+    backgroundColor: '#444',
+  },
+  videoOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  duration: {
+    position: 'absolute',
+    top: 4,
+    left: 6,
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,319 @@
+import React from 'react';
+import { Image, Modal, Platform, ScrollView, StyleSheet, TextInput, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { useEffect, useState } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/context/ThemeContext';
+import { isFixedShareFormat, SHARE_FORMATS } from '@/services/framing';
+import { DEFAULT_OVERLAY, getOverlayText, OVERLAY_COLORS, OVERLAY_FONTS, OVERLAY_METRICS } from '@/services/overlayLayout';
+import { OverlayFont, OverlayPosition, ShareFormat, TextOverlay } from '@/types/reminder';
+
+const POSITION_OPTIONS: { value: OverlayPosition; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'center', label: 'Center' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+type Props = {
+  visible: boolean;
+  value?: TextOverlay;
+  /** Reminder title, shown when the overlay uses the title */
+  title: string;
+  /** Cover photo the overlay is burned into */
+  photoUri?: string;
+  /** Output format the preview is framed to */
+  format: ShareFormat;
+  onCancel: () => void;
+  onSave: (overlay: TextOverlay) => void;
+};
+
+/**
+ * Modal for composing the caption burned into the cover photo, with a live
+ * preview laid out with the same proportions as the shared image
+ */
+export function OverlayComposer({ visible, value, title, photoUri, format, onCancel, onSave }: Props) {
+  const { isDarkMode } = useTheme();
+  const { width: windowWidth, height: windowHeight } = useWindowDimensions();
+  const [overlay, setOverlay] = useState<TextOverlay>(value ?? DEFAULT_OVERLAY);
+  // Photos shared in their own aspect ratio are previewed in it
+  const [photoSize, setPhotoSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setOverlay(value ?? DEFAULT_OVERLAY);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    setPhotoSize(null);
+    if (!photoUri || isFixedShareFormat(format)) return;
+    Image.getSize(photoUri, (width, height) => setPhotoSize({ width, height }), error => {
+      console.error('Error reading image size:', error);
+    });
+  }, [photoUri, format]);
+
+  const update = (changes: Partial<TextOverlay>) => setOverlay(prev => ({ ...prev, ...changes }));
+
+  const frame = isFixedShareFormat(format) ? SHARE_FORMATS[format] : photoSize ?? SHARE_FORMATS.portrait;
+  const previewHeight = Math.min(windowHeight * 0.4, (windowWidth - 40) * frame.height / frame.width);
+  const previewWidth = previewHeight * frame.width / frame.height;
+  const fontSize = previewWidth * OVERLAY_METRICS.fontSize;
+  const margin = previewHeight * OVERLAY_METRICS.safeMargin;
+  const text = getOverlayText(overlay, title);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <ThemedView style={styles.modalContainer}>
+        <ThemedView style={[styles.modalContent, { backgroundColor: isDarkMode ? '#333' : '#fff' }]}>
+          <ThemedText style={styles.modalTitle}>Text Overlay</ThemedText>
+
+          <View style={[styles.preview, { width: previewWidth, height: previewHeight }]}>
+            {photoUri && <Image source={{ uri: photoUri }} style={StyleSheet.absoluteFill} resizeMode="cover" />}
+            {text !== '' && (
+              <View
+                style={[
+                  styles.previewTextArea,
+                  overlay.position === 'top' && { top: margin },
+                  overlay.position === 'bottom' && { bottom: margin },
+                  overlay.position === 'center' && styles.previewTextCentered,
+                ]}
+              >
+                <View
+                  style={{
+                    maxWidth: previewWidth * (OVERLAY_METRICS.maxWidth + OVERLAY_METRICS.pillPaddingX * 2),
+                    paddingHorizontal: previewWidth * OVERLAY_METRICS.pillPaddingX,
+                    paddingVertical: previewWidth * OVERLAY_METRICS.pillPaddingY,
+                    borderRadius: previewWidth * OVERLAY_METRICS.pillRadius,
+                    backgroundColor: overlay.pillColor ?? 'transparent',
+                  }}
+                >
+                  <ThemedText
+                    style={{
+                      color: overlay.color,
+                      fontSize,
+                      lineHeight: fontSize * OVERLAY_METRICS.lineHeight,
+                      fontFamily: Platform.OS === 'ios' ? OVERLAY_FONTS[overlay.font].ios : OVERLAY_FONTS[overlay.font].android,
+                      fontWeight: 'bold',
+                      textAlign: 'center',
+                    }}
+                  >
+                    {text}
+                  </ThemedText>
+                </View>
+              </View>
+            )}
+          </View>
+
+          <ScrollView style={styles.controls} contentContainerStyle={styles.controlsContent}>
+            <ThemedView style={[styles.segmentRow, { backgroundColor: 'transparent' }]}>
+              {(['title', 'custom'] as TextOverlay['source'][]).map(source => (
+                <TouchableOpacity
+                  key={source}
+                  style={[styles.segment, overlay.source === source && styles.segmentSelected]}
+                  onPress={() => update({ source })}
+                >
+                  <ThemedText style={overlay.source === source && styles.segmentTextSelected}>
+                    {source === 'title' ? 'Use Title' : 'Custom Text'}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ThemedView>
+            {overlay.source === 'custom' && (
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: isDarkMode ? '#444' : '#f5f5f5',
+                    color: isDarkMode ? '#fff' : '#000'
+                  }
+                ]}
+                value={overlay.text}
+                onChangeText={text => update({ text })}
+                placeholder="Text to show on the photo"
+                placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+                multiline
+              />
+            )}
+
+            <ThemedText>Font</ThemedText>
+            <ThemedView style={[styles.segmentRow, { backgroundColor: 'transparent' }]}>
+              {(Object.keys(OVERLAY_FONTS) as OverlayFont[]).map(font => (
+                <TouchableOpacity
+                  key={font}
+                  style={[styles.segment, overlay.font === font && styles.segmentSelected]}
+                  onPress={() => update({ font })}
+                >
+                  <ThemedText style={overlay.font === font && styles.segmentTextSelected}>
+                    {OVERLAY_FONTS[font].label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ThemedView>
+
+            <ThemedText>Text Color</ThemedText>
+            <View style={styles.swatchRow}>
+              {OVERLAY_COLORS.map(color => (
+                <TouchableOpacity
+                  key={color}
+                  style={[styles.swatch, { backgroundColor: color }, overlay.color === color && styles.swatchSelected]}
+                  onPress={() => update({ color })}
+                />
+              ))}
+            </View>
+
+            <ThemedText>Background Pill</ThemedText>
+            <View style={styles.swatchRow}>
+              <TouchableOpacity
+                style={[styles.swatch, styles.noPillSwatch, !overlay.pillColor && styles.swatchSelected]}
+                onPress={() => update({ pillColor: undefined })}
+              >
+                <Ionicons name="close" size={18} color="#888" />
+              </TouchableOpacity>
+              {OVERLAY_COLORS.map(color => (
+                <TouchableOpacity
+                  key={color}
+                  style={[styles.swatch, { backgroundColor: color }, overlay.pillColor === color && styles.swatchSelected]}
+                  onPress={() => update({ pillColor: color })}
+                />
+              ))}
+            </View>
+
+            <ThemedText>Position</ThemedText>
+            <ThemedView style={[styles.segmentRow, { backgroundColor: 'transparent' }]}>
+              {POSITION_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.segment, overlay.position === option.value && styles.segmentSelected]}
+                  onPress={() => update({ position: option.value })}
+                >
+                  <ThemedText style={overlay.position === option.value && styles.segmentTextSelected}>
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ThemedView>
+          </ScrollView>
+
+          <ThemedView style={[styles.modalButtons, { backgroundColor: 'transparent' }]}>
+            <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={onCancel}>
+              <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.modalButton, styles.saveButton]} onPress={() => onSave(overlay)}>
+              <ThemedText style={styles.modalButtonText}>Save</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        </ThemedView>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '100%',
+    maxHeight: '95%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+    gap: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  preview: {
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#000',
+  },
+  previewTextArea: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+  },
+  previewTextCentered: {
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  controls: {
+    alignSelf: 'stretch',
+  },
+  controlsContent: {
+    gap: 10,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  input: {
+    padding: 12,
+    borderRadius: 8,
+    fontSize: 16,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  swatch: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#007AFF',
+  },
+  noPillSwatch: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#FF3B30',
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
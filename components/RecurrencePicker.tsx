@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/context/ThemeContext';
+import { describeRecurrence } from '@/services/recurrence';
+import { RecurrenceFrequency, RecurrenceRule } from '@/types/reminder';
+
+type FrequencyOption = RecurrenceFrequency | 'none';
+type EndOption = 'never' | 'until' | 'count';
+
+const FREQUENCY_OPTIONS: { value: FrequencyOption; label: string }[] = [
+  { value: 'none', label: 'Once' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const END_OPTIONS: { value: EndOption; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'until', label: 'On date' },
+  { value: 'count', label: 'After' },
+];
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+type Props = {
+  value?: RecurrenceRule;
+  startDate: Date;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+};
+
+export function RecurrencePicker({ value, startDate, onChange }: Props) {
+  const { isDarkMode } = useTheme();
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  const frequency: FrequencyOption = value?.frequency ?? 'none';
+  const endOption: EndOption = value?.count !== undefined ? 'count' : value?.until ? 'until' : 'never';
+  const inputStyle = {
+    backgroundColor: isDarkMode ? '#333' : '#f5f5f5',
+    color: isDarkMode ? '#fff' : '#000',
+  };
+
+  const handleFrequencyChange = (option: FrequencyOption) => {
+    if (option === 'none') {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      frequency: option,
+      interval: value?.interval ?? 1,
+      weekdays: option === 'weekly' ? [startDate.getDay()] : undefined,
+      monthDay: option === 'monthly' ? startDate.getDate() : undefined,
+      until: value?.until,
+      count: value?.count,
+    });
+  };
+
+  const handleToggleWeekday = (weekday: number) => {
+    if (!value) return;
+    const current = value.weekdays ?? [startDate.getDay()];
+    const weekdays = current.includes(weekday)
+      ? current.filter(d => d !== weekday)
+      : [...current, weekday].sort((a, b) => a - b);
+    // A weekly rule always needs at least one day
+    if (weekdays.length === 0) return;
+    onChange({ ...value, weekdays });
+  };
+
+  const handleEndChange = (option: EndOption) => {
+    if (!value) return;
+    if (option === 'never') {
+      onChange({ ...value, until: undefined, count: undefined });
+    } else if (option === 'until') {
+      const until = new Date(startDate);
+      until.setMonth(until.getMonth() + 1);
+      onChange({ ...value, until: until.toISOString(), count: undefined });
+    } else {
+      onChange({ ...value, until: undefined, count: 10 });
+    }
+  };
+
+  const handleUntilChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowUntilPicker(false);
+    }
+    if (selectedDate && value) {
+      // Include every occurrence on the chosen day
+      const until = new Date(selectedDate);
+      until.setHours(23, 59, 59, 999);
+      onChange({ ...value, until: until.toISOString() });
+    }
+  };
+
+  const parsePositive = (text: string): number | undefined => {
+    const number = parseInt(text, 10);
+    return isNaN(number) || number < 1 ? undefined : number;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.segmentRow}>
+        {FREQUENCY_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segment, frequency === option.value && styles.segmentSelected]}
+            onPress={() => handleFrequencyChange(option.value)}
+          >
+            <ThemedText style={frequency === option.value && styles.segmentTextSelected}>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </ThemedView>
+
+      {value && (
+        <>
+          <ThemedView style={styles.row}>
+            <ThemedText>Every</ThemedText>
+            <TextInput
+              style={[styles.numberInput, inputStyle]}
+              value={String(value.interval)}
+              onChangeText={text => onChange({ ...value, interval: parsePositive(text) ?? 1 })}
+              keyboardType="number-pad"
+            />
+            <ThemedText>{{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' }[value.frequency]}</ThemedText>
+          </ThemedView>
+
+          {value.frequency === 'weekly' && (
+            <ThemedView style={styles.row}>
+              {WEEKDAYS.map((label, weekday) => {
+                const selected = (value.weekdays ?? [startDate.getDay()]).includes(weekday);
+                return (
+                  <TouchableOpacity
+                    key={weekday}
+                    style={[styles.weekday, selected && styles.segmentSelected]}
+                    onPress={() => handleToggleWeekday(weekday)}
+                  >
+                    <ThemedText style={selected && styles.segmentTextSelected}>{label}</ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </ThemedView>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <ThemedView style={styles.row}>
+              <ThemedText>On day</ThemedText>
+              <TextInput
+                style={[styles.numberInput, inputStyle]}
+                value={String(value.monthDay ?? startDate.getDate())}
+                onChangeText={text => onChange({ ...value, monthDay: Math.min(parsePositive(text) ?? 1, 31) })}
+                keyboardType="number-pad"
+              />
+            </ThemedView>
+          )}
+
+          <ThemedText>Ends</ThemedText>
+          <ThemedView style={styles.segmentRow}>
+            {END_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.segment, endOption === option.value && styles.segmentSelected]}
+                onPress={() => handleEndChange(option.value)}
+              >
+                <ThemedText style={endOption === option.value && styles.segmentTextSelected}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ThemedView>
+
+          {endOption === 'until' && value.until && (
+            <TouchableOpacity style={[styles.untilButton, inputStyle]} onPress={() => setShowUntilPicker(true)}>
+              <ThemedText>
+                {new Date(value.until).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+
+          {endOption === 'count' && (
+            <ThemedView style={styles.row}>
+              <TextInput
+                style={[styles.numberInput, inputStyle]}
+                value={String(value.count ?? '')}
+                onChangeText={text => onChange({ ...value, count: parsePositive(text) ?? 1 })}
+                keyboardType="number-pad"
+              />
+              <ThemedText>occurrences</ThemedText>
+            </ThemedView>
+          )}
+
+          {showUntilPicker && value.until && (
+            <DateTimePicker
+              value={new Date(value.until)}
+              mode="date"
+              display="default"
+              onChange={handleUntilChange}
+              minimumDate={startDate}
+            />
+          )}
+
+          <ThemedText style={styles.summary}>{describeRecurrence(value, startDate)}</ThemedText>
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  numberInput: {
+    width: 56,
+    padding: 8,
+    borderRadius: 8,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  weekday: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  untilButton: {
+    padding: 12,
+    borderRadius: 8,
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
@@ -0,0 +1,252 @@
+import React from 'react';
+import { Platform, ScrollView, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { useState } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { CampaignChip } from '@/components/CampaignChip';
+import { useTheme } from '@/context/ThemeContext';
+import { DEFAULT_REMINDER_FILTERS, isQueryActive } from '@/services/reminderQuery';
+import { DateRangePreset, ReminderQuery, ReminderStatusFilter } from '@/types/filters';
+import { getShareTargets } from '@/services/shareTargets';
+import { Campaign } from '@/types/campaign';
+
+const STATUS_OPTIONS: { value: ReminderStatusFilter; label: string }[] = [
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'shared', label: 'Shared' },
+];
+
+const DATE_OPTIONS: { value: DateRangePreset; label: string }[] = [
+  { value: 'any', label: 'Any Date' },
+  { value: 'today', label: 'Today' },
+  { value: 'next7', label: 'Next 7 Days' },
+  { value: 'next30', label: 'Next 30 Days' },
+  { value: 'past30', label: 'Past 30 Days' },
+  { value: 'custom', label: 'Custom' },
+];
+
+type Props = {
+  query: ReminderQuery;
+  /** Campaigns offered as filters, the row is hidden when there are none */
+  campaigns?: Campaign[];
+  onChange: (query: ReminderQuery) => void;
+};
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/**
+ * Search bar and filter chips for the reminder list
+ */
+export function ReminderFilterBar({ query, campaigns = [], onChange }: Props) {
+  const { isDarkMode } = useTheme();
+  // Android shows the date picker as a dialog, one bound at a time
+  const [pickingBound, setPickingBound] = useState<'from' | 'to' | null>(null);
+
+  const update = (changes: Partial<ReminderQuery>) => onChange({ ...query, ...changes });
+
+  const handleDatePresetChange = (preset: DateRangePreset) => {
+    if (preset !== 'custom') {
+      update({ dateRange: { preset } });
+      return;
+    }
+    // Start a custom range on the coming week
+    const from = new Date();
+    const to = new Date();
+    to.setDate(to.getDate() + 7);
+    update({
+      dateRange: {
+        preset,
+        from: query.dateRange.from ?? from.toISOString(),
+        to: query.dateRange.to ?? to.toISOString(),
+      },
+    });
+  };
+
+  const handleBoundChange = (bound: 'from' | 'to', date?: Date) => {
+    if (Platform.OS === 'android') {
+      setPickingBound(null);
+    }
+    if (date) {
+      update({ dateRange: { ...query.dateRange, [bound]: date.toISOString() } });
+    }
+  };
+
+  const formatDay = (value?: string) =>
+    value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : 'Any';
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, icon?: keyof typeof Ionicons.glyphMap) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      {icon && <Ionicons name={icon} size={14} color={selected ? '#fff' : '#007AFF'} />}
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={[styles.searchBar, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}>
+        <Ionicons name="search" size={18} color={isDarkMode ? '#aaa' : '#666'} />
+        <TextInput
+          style={[styles.searchInput, { color: isDarkMode ? '#fff' : '#000' }]}
+          value={query.text}
+          onChangeText={text => update({ text })}
+          placeholder="Search reminders"
+          placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+          returnKeyType="search"
+        />
+        {query.text !== '' && (
+          <TouchableOpacity onPress={() => update({ text: '' })}>
+            <Ionicons name="close-circle" size={18} color={isDarkMode ? '#aaa' : '#666'} />
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {isQueryActive(query) && renderChip(
+          'clear',
+          'Clear',
+          false,
+          () => onChange({ ...DEFAULT_REMINDER_FILTERS, text: '' }),
+          'close'
+        )}
+        {getShareTargets().map(target => renderChip(
+          target.id,
+          target.label,
+          query.platforms.includes(target.id),
+          () => update({ platforms: toggle(query.platforms, target.id) }),
+          target.icon
+        ))}
+        {STATUS_OPTIONS.map(option => renderChip(
+          option.value,
+          option.label,
+          query.statuses.includes(option.value),
+          () => update({ statuses: toggle(query.statuses, option.value) })
+        ))}
+      </ScrollView>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {DATE_OPTIONS.map(option => renderChip(
+          option.value,
+          option.label,
+          query.dateRange.preset === option.value,
+          () => handleDatePresetChange(option.value)
+        ))}
+      </ScrollView>
+
+      {campaigns.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {campaigns.map(campaign => (
+            <CampaignChip
+              key={campaign.id}
+              campaign={campaign}
+              selected={query.campaignIds.includes(campaign.id)}
+              onPress={() => update({ campaignIds: toggle(query.campaignIds, campaign.id) })}
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      {query.dateRange.preset === 'custom' && (
+        <ThemedView style={styles.customRange}>
+          {(['from', 'to'] as const).map(bound => (
+            <ThemedView key={bound} style={styles.customBound}>
+              <ThemedText style={styles.boundLabel}>{bound === 'from' ? 'From' : 'To'}</ThemedText>
+              {Platform.OS === 'ios' ? (
+                <DateTimePicker
+                  value={new Date(query.dateRange[bound] ?? Date.now())}
+                  mode="date"
+                  display="compact"
+                  onChange={(_, date) => handleBoundChange(bound, date)}
+                />
+              ) : (
+                <TouchableOpacity
+                  style={[styles.boundButton, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}
+                  onPress={() => setPickingBound(bound)}
+                >
+                  <ThemedText>{formatDay(query.dateRange[bound])}</ThemedText>
+                </TouchableOpacity>
+              )}
+            </ThemedView>
+          ))}
+        </ThemedView>
+      )}
+
+      {Platform.OS === 'android' && pickingBound && (
+        <DateTimePicker
+          value={new Date(query.dateRange[pickingBound] ?? Date.now())}
+          mode="date"
+          display="default"
+          onChange={(_, date) => handleBoundChange(pickingBound, date)}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  customRange: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  customBound: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  boundLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  boundButton: {
+    flex: 1,
+    padding: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+});
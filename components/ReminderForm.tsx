@@ -0,0 +1,883 @@
+import React from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, Alert, Platform, Switch, View, Modal, ScrollView, KeyboardAvoidingView } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useState, useEffect } from 'react';
+import { useTheme } from '@/context/ThemeContext';
+import {
+  takePhoto,
+  recordVideo,
+  pickVideo,
+  pickPhotos,
+  CapturedMedia,
+  MAX_VIDEO_DURATION_SECONDS,
+  VideoTooLongError,
+} from '@/services/photoService';
+import { getMimeType } from '@/services/mimeTypes';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { RecurrencePicker } from '@/components/RecurrencePicker';
+import { MediaThumbnail } from '@/components/MediaThumbnail';
+import { FramingPicker } from '@/components/FramingPicker';
+import { CropEditor } from '@/components/CropEditor';
+import { OverlayComposer } from '@/components/OverlayComposer';
+import { CampaignPicker } from '@/components/CampaignPicker';
+import { CaptionValidator } from '@/components/CaptionValidator';
+import { HashtagSetPicker } from '@/components/HashtagSetPicker';
+import {
+  checkPlatformCaptions,
+  describeCaptionProblems,
+  insertHashtags,
+  normalizePlatformCaptions,
+} from '@/services/captionRules';
+import { hasPlaceholders } from '@/services/captionTemplates';
+import { DEFAULT_FRAMING, DEFAULT_SHARE_FORMAT, getShareFormat } from '@/services/framing';
+import { getOverlayText } from '@/services/overlayLayout';
+import { MAX_MEDIA_ITEMS } from '@/services/reminderSchema';
+import { getSelectedShareTargets, getShareTargetLabel, getShareTargets, getTargetOptions } from '@/services/shareTargets';
+import {
+  CropRect,
+  PlatformCaptions,
+  RecurrenceRule,
+  ReminderFraming,
+  ReminderMedia,
+  ReminderPlatforms,
+  ReminderTargetOptions,
+  ShareTargetId,
+  TextOverlay,
+} from '@/types/reminder';
+
+/**
+ * Values collected by the reminder form
+ */
+export interface ReminderFormValues {
+  title: string;
+  description: string;
+  date: Date;
+  media: ReminderMedia[];
+  framing: ReminderFraming;
+  overlay?: TextOverlay;
+  platforms: ReminderPlatforms;
+  /** Captions that replace the description on one platform */
+  captions?: PlatformCaptions;
+  /** Settings of single targets, edited with each target's own editor */
+  targetOptions?: ReminderTargetOptions;
+  recurrence?: RecurrenceRule;
+  campaignId?: string;
+}
+
+/**
+ * Caption being edited, the description or one platform's own caption
+ */
+type CaptionTab = 'default' | ShareTargetId;
+
+type Props = {
+  heading: string;
+  submitLabel: string;
+  submittingLabel: string;
+  initialValues?: ReminderFormValues;
+  /** Date to start a new reminder on when there are no initial values, e.g. a calendar slot */
+  initialDate?: Date;
+  /** Shown between the heading and the fields, e.g. a template picker */
+  headerAccessory?: React.ReactNode;
+  onSubmit: (values: ReminderFormValues) => Promise<void>;
+  /** Called with the untrimmed form state whenever a field changes */
+  onChange?: (values: ReminderFormValues) => void;
+};
+
+export function ReminderForm({ heading, submitLabel, submittingLabel, initialValues, initialDate, headerAccessory, onSubmit, onChange }: Props) {
+  const { isDarkMode } = useTheme();
+  const [title, setTitle] = useState(initialValues?.title ?? '');
+  const [description, setDescription] = useState(initialValues?.description ?? '');
+  const [date, setDate] = useState(() => {
+    if (initialValues) {
+      return new Date(initialValues.date);
+    }
+    if (initialDate) {
+      return new Date(initialDate);
+    }
+    // Set default time to 5 minutes from now
+    const defaultDate = new Date();
+    defaultDate.setMinutes(defaultDate.getMinutes() + 5);
+    return defaultDate;
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [media, setMedia] = useState<ReminderMedia[]>(initialValues?.media ?? []);
+  const [framing, setFraming] = useState<ReminderFraming>(initialValues?.framing ?? DEFAULT_FRAMING);
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState<TextOverlay | undefined>(initialValues?.overlay);
+  const [showOverlayComposer, setShowOverlayComposer] = useState(false);
+  const [platforms, setPlatforms] = useState<ReminderPlatforms>(initialValues?.platforms ?? {});
+  const [captions, setCaptions] = useState<PlatformCaptions>(initialValues?.captions ?? {});
+  const [captionTab, setCaptionTab] = useState<CaptionTab>('default');
+  const [targetOptions, setTargetOptions] = useState<ReminderTargetOptions | undefined>(initialValues?.targetOptions);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(initialValues?.recurrence);
+  const [campaignId, setCampaignId] = useState<string | undefined>(initialValues?.campaignId);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+  const [tempDate, setTempDate] = useState(date);
+
+  // Update tempDate when date changes
+  useEffect(() => {
+    setTempDate(date);
+  }, [date]);
+
+  useEffect(() => {
+    onChange?.({
+      title,
+      description,
+      date,
+      media,
+      framing,
+      overlay,
+      platforms,
+      captions,
+      targetOptions,
+      recurrence,
+      campaignId,
+    });
+  }, [title, description, date, media, framing, overlay, platforms, captions, targetOptions, recurrence, campaignId]);
+
+  // A platform's caption tab goes away when the platform is switched off
+  useEffect(() => {
+    if (captionTab !== 'default' && !platforms[captionTab]) {
+      setCaptionTab('default');
+    }
+  }, [platforms, captionTab]);
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+    }
+    if (selectedDate) {
+      const newDate = new Date(tempDate);
+      newDate.setFullYear(selectedDate.getFullYear());
+      newDate.setMonth(selectedDate.getMonth());
+      newDate.setDate(selectedDate.getDate());
+      setTempDate(newDate);
+    }
+  };
+
+  const handleTimeChange = (event: any, selectedTime?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowTimePicker(false);
+    }
+    if (selectedTime) {
+      const newDate = new Date(tempDate);
+      newDate.setHours(selectedTime.getHours());
+      newDate.setMinutes(selectedTime.getMinutes());
+      setTempDate(newDate);
+    }
+  };
+
+  const handleSaveDateTime = () => {
+    setDate(tempDate);
+    setShowDatePicker(false);
+    setShowTimePicker(false);
+  };
+
+  const handleCancelDateTime = () => {
+    setTempDate(date);
+    setShowDatePicker(false);
+    setShowTimePicker(false);
+  };
+
+  const handleTakePhoto = async () => {
+    try {
+      const uri = await takePhoto();
+      if (uri) {
+        addMedia([{ uri, type: 'image', mimeType: getMimeType(uri, 'image') }]);
+      }
+    } catch (error) {
+      console.error('Error taking photo:', error);
+      Alert.alert('Error', 'Failed to take photo. Please try again.');
+    }
+  };
+
+  const handleChooseFromGallery = async () => {
+    try {
+      const photos = await pickPhotos(MAX_MEDIA_ITEMS - media.length);
+      addMedia(photos);
+    } catch (error) {
+      console.error('Error choosing photos:', error);
+      Alert.alert('Error', 'Failed to add photos. Please try again.');
+    }
+  };
+
+  const handleAddVideo = async (source: 'camera' | 'library') => {
+    try {
+      const video = source === 'camera' ? await recordVideo() : await pickVideo();
+      if (video) {
+        addMedia([video]);
+      }
+    } catch (error) {
+      if (error instanceof VideoTooLongError) {
+        Alert.alert('Video too long', `Please choose a video of at most ${MAX_VIDEO_DURATION_SECONDS} seconds.`);
+        return;
+      }
+      console.error('Error adding video:', error);
+      Alert.alert('Error', 'Failed to add video. Please try again.');
+    }
+  };
+
+  const addMedia = (items: CapturedMedia[]) => {
+    const addedAt = Date.now();
+    setMedia(prev => [
+      ...prev,
+      ...items.map((item, index) => ({ ...item, id: `${addedAt}-${index}` })),
+    ].slice(0, MAX_MEDIA_ITEMS));
+  };
+
+  const addMediaActions: { label: string; icon: keyof typeof Ionicons.glyphMap; onPress: () => void }[] = [
+    { label: 'Take Photo', icon: 'camera', onPress: handleTakePhoto },
+    { label: 'Choose from Gallery', icon: 'images-outline', onPress: handleChooseFromGallery },
+    { label: 'Record Video', icon: 'videocam', onPress: () => handleAddVideo('camera') },
+    { label: 'Choose Video', icon: 'film-outline', onPress: () => handleAddVideo('library') },
+  ];
+
+  const handleRemoveMedia = (id: string) => {
+    setMedia(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleSaveOverlay = (value: TextOverlay) => {
+    setOverlay(value);
+    setShowOverlayComposer(false);
+  };
+
+  const handleSaveCrop = (crop: CropRect) => {
+    setMedia(prev => prev.map(item => (item.id === croppingId ? { ...item, crop } : item)));
+    setCroppingId(null);
+  };
+
+  // Swaps an item with its neighbour, the first item is the carousel cover
+  const handleMoveMedia = (index: number, offset: -1 | 1) => {
+    setMedia(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // The overlay is burned into the first photo, videos are skipped
+  const coverPhoto = media.find(item => item.type === 'image');
+
+  const selectedTargets = getSelectedShareTargets(platforms);
+  const captionTabs: CaptionTab[] = ['default', ...selectedTargets.map(target => target.id)];
+  const captionText = captionTab === 'default' ? description : captions[captionTab] ?? '';
+
+  const updateCaption = (update: (caption: string) => string) => {
+    if (captionTab === 'default') {
+      setDescription(update);
+    } else {
+      setCaptions(prev => ({ ...prev, [captionTab]: update(prev[captionTab] ?? '') }));
+    }
+  };
+
+  // Saves without further checks, also used when the user saves past a caption warning
+  const submit = async () => {
+    try {
+      setIsSubmitting(true);
+      await onSubmit({
+        title: title.trim(),
+        description: description.trim(),
+        date,
+        media,
+        framing,
+        overlay,
+        platforms,
+        captions: normalizePlatformCaptions(captions),
+        targetOptions,
+        recurrence,
+        campaignId,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!title.trim()) {
+      Alert.alert('Error', 'Please enter a title for your reminder');
+      return;
+    }
+
+    if (selectedTargets.length === 0) {
+      Alert.alert('Error', 'Please select at least one platform to share to');
+      return;
+    }
+
+    const captionProblems = describeCaptionProblems(
+      checkPlatformCaptions(title.trim(), description.trim(), normalizePlatformCaptions(captions), platforms)
+    );
+    if (captionProblems.length > 0) {
+      Alert.alert(
+        'Caption Over Limit',
+        `${captionProblems.join('\n')}\n\nThe platform may cut the caption short or reject it.`,
+        [
+          { text: 'Edit Caption', style: 'cancel' },
+          { text: 'Save Anyway', onPress: submit },
+        ]
+      );
+      return;
+    }
+
+    await submit();
+  };
+
+  return (
+    <KeyboardAvoidingView 
+      style={{ flex: 1 }} 
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <ThemedView style={styles.container}>
+          <ThemedText type="title" style={styles.header}>{heading}</ThemedText>
+          {headerAccessory}
+          
+          <ThemedView style={styles.form}>
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText>Title</ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  { 
+                    backgroundColor: isDarkMode ? '#333' : '#f5f5f5',
+                    color: isDarkMode ? '#fff' : '#000'
+                  }
+                ]}
+                value={title}
+                onChangeText={setTitle}
+                placeholder="Enter reminder title"
+                placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+              />
+            </ThemedView>
+
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText>Description</ThemedText>
+              {captionTabs.length > 1 && (
+                <ThemedView style={styles.captionTabs}>
+                  {captionTabs.map(tab => (
+                    <TouchableOpacity
+                      key={tab}
+                      style={[styles.captionTab, captionTab === tab && styles.captionTabActive]}
+                      onPress={() => setCaptionTab(tab)}
+                    >
+                      <ThemedText style={[styles.captionTabText, captionTab === tab && styles.captionTabTextActive]}>
+                        {tab === 'default' ? 'Default' : getShareTargetLabel(tab)}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </ThemedView>
+              )}
+              <TextInput
+                style={[
+                  styles.input, 
+                  styles.textArea,
+                  { 
+                    backgroundColor: isDarkMode ? '#333' : '#f5f5f5',
+                    color: isDarkMode ? '#fff' : '#000'
+                  }
+                ]}
+                value={captionText}
+                onChangeText={text => updateCaption(() => text)}
+                placeholder={captionTab === 'default'
+                  ? 'Enter reminder description'
+                  : 'Leave empty to use the default caption'}
+                placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+                multiline
+              />
+              {hasPlaceholders(`${title}\n${description}\n${Object.values(captions).join('\n')}`) && (
+                <ThemedText style={styles.placeholderHint}>
+                  Placeholders like {'{date}'} are filled in when the reminder is shared.
+                </ThemedText>
+              )}
+              <HashtagSetPicker onInsert={hashtags => updateCaption(caption => insertHashtags(caption, hashtags))} />
+              <CaptionValidator title={title} description={description} captions={captions} platforms={platforms} />
+            </ThemedView>
+
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText>Date & Time</ThemedText>
+              <ThemedView style={styles.dateTimeContainer}>
+                <TouchableOpacity 
+                  onPress={() => {
+                    setTempDate(date);
+                    setShowDatePicker(true);
+                  }}
+                  style={[
+                    styles.dateTimeButton,
+                    { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }
+                  ]}
+                >
+                  <Ionicons 
+                    name="calendar-outline" 
+                    size={20} 
+                    color={isDarkMode ? '#fff' : '#000'} 
+                    style={styles.dateTimeIcon}
+                  />
+                  <ThemedText>{formatDate(date)}</ThemedText>
+                </TouchableOpacity>
+
+                <TouchableOpacity 
+                  onPress={() => {
+                    setTempDate(date);
+                    setShowTimePicker(true);
+                  }}
+                  style={[
+                    styles.dateTimeButton,
+                    { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }
+                  ]}
+                >
+                  <Ionicons 
+                    name="time-outline" 
+                    size={20} 
+                    color={isDarkMode ? '#fff' : '#000'} 
+                    style={styles.dateTimeIcon}
+                  />
+                  <ThemedText>{formatTime(date)}</ThemedText>
+                </TouchableOpacity>
+              </ThemedView>
+            </ThemedView>
+
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText>Repeat</ThemedText>
+              <RecurrencePicker value={recurrence} startDate={date} onChange={setRecurrence} />
+            </ThemedView>
+
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText>Campaign</ThemedText>
+              <CampaignPicker value={campaignId} onChange={setCampaignId} />
+            </ThemedView>
+
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText>Photos & Videos (Optional, {media.length}/{MAX_MEDIA_ITEMS})</ThemedText>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoStrip}>
+                {media.map((item, index) => (
+                  <View key={item.id} style={styles.photoThumbnail}>
+                    <MediaThumbnail media={item} style={styles.photoPreview} />
+                    <TouchableOpacity style={styles.removePhotoButton} onPress={() => handleRemoveMedia(item.id)}>
+                      <Ionicons name="close-circle" size={22} color="#fff" />
+                    </TouchableOpacity>
+                    {framing.mode === 'manual' && item.type === 'image' && (
+                      <TouchableOpacity style={styles.cropPhotoButton} onPress={() => setCroppingId(item.id)}>
+                        <Ionicons name="crop" size={20} color={item.crop ? '#34C759' : '#fff'} />
+                      </TouchableOpacity>
+                    )}
+                    <View style={styles.photoOrderControls}>
+                      <TouchableOpacity onPress={() => handleMoveMedia(index, -1)} disabled={index === 0}>
+                        <Ionicons name="chevron-back" size={20} color={index === 0 ? '#888' : '#fff'} />
+                      </TouchableOpacity>
+                      <ThemedText style={styles.photoIndex}>{index + 1}</ThemedText>
+                      <TouchableOpacity onPress={() => handleMoveMedia(index, 1)} disabled={index === media.length - 1}>
+                        <Ionicons name="chevron-forward" size={20} color={index === media.length - 1 ? '#888' : '#fff'} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+                {media.length < MAX_MEDIA_ITEMS && addMediaActions.map(action => (
+                  <TouchableOpacity 
+                    key={action.label}
+                    onPress={action.onPress}
+                    style={[
+                      styles.photoThumbnail,
+                      styles.photoPlaceholder,
+                      { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }
+                    ]}
+                  >
+                    <Ionicons name={action.icon} size={24} color={isDarkMode ? '#fff' : '#000'} />
+                    <ThemedText style={styles.addPhotoText}>{action.label}</ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </ThemedView>
+
+            <ThemedView style={styles.inputContainer}>
+              <ThemedText>Share to Platforms</ThemedText>
+              <ThemedView style={styles.platformContainer}>
+                {getShareTargets().map(target => (
+                  <ThemedView key={target.id} style={styles.platformRow}>
+                    <ThemedView style={styles.platformLabel}>
+                      <Ionicons name={target.icon} size={20} color={target.color} />
+                      <ThemedText>{target.label}</ThemedText>
+                    </ThemedView>
+                    <Switch
+                      value={platforms[target.id] === true}
+                      onValueChange={(value) => setPlatforms(prev => ({ ...prev, [target.id]: value }))}
+                    />
+                  </ThemedView>
+                ))}
+              </ThemedView>
+            </ThemedView>
+
+            {getSelectedShareTargets(platforms).map(target => {
+              const options = target.options;
+              if (!options || (options.appliesTo && !options.appliesTo(media))) return null;
+              const { Editor } = options;
+              return (
+                <ThemedView key={target.id} style={styles.inputContainer}>
+                  <ThemedText>{target.label}</ThemedText>
+                  <Editor
+                    value={getTargetOptions(targetOptions, target.id, options)}
+                    onChange={value => setTargetOptions(prev => ({ ...prev, [target.id]: value }))}
+                    media={media}
+                  />
+                </ThemedView>
+              );
+            })}
+
+            {coverPhoto && (
+              <ThemedView style={styles.inputContainer}>
+                <ThemedText>Photo Framing</ThemedText>
+                <FramingPicker value={framing} platforms={platforms} onChange={setFraming} />
+              </ThemedView>
+            )}
+
+            {coverPhoto && (
+              <ThemedView style={styles.inputContainer}>
+                <ThemedText>Text Overlay</ThemedText>
+                {overlay && (
+                  <ThemedText style={styles.overlaySummary} numberOfLines={2}>
+                    {getOverlayText(overlay, title) || 'No text yet'}
+                  </ThemedText>
+                )}
+                <ThemedView style={styles.overlayButtons}>
+                  <TouchableOpacity
+                    style={[styles.overlayButton, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}
+                    onPress={() => setShowOverlayComposer(true)}
+                  >
+                    <Ionicons name="text" size={18} color={isDarkMode ? '#fff' : '#000'} />
+                    <ThemedText>{overlay ? 'Edit Overlay' : 'Add Text to Cover Photo'}</ThemedText>
+                  </TouchableOpacity>
+                  {overlay && (
+                    <TouchableOpacity
+                      style={[styles.overlayButton, { backgroundColor: isDarkMode ? '#333' : '#f5f5f5' }]}
+                      onPress={() => setOverlay(undefined)}
+                    >
+                      <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+                      <ThemedText>Remove</ThemedText>
+                    </TouchableOpacity>
+                  )}
+                </ThemedView>
+              </ThemedView>
+            )}
+
+            <TouchableOpacity 
+              style={[styles.button, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+            >
+              <ThemedText style={styles.buttonText}>
+                {isSubmitting ? submittingLabel : submitLabel}
+              </ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        </ThemedView>
+      </ScrollView>
+
+      <OverlayComposer
+        visible={showOverlayComposer}
+        value={overlay}
+        title={title}
+        photoUri={coverPhoto?.uri}
+        format={selectedTargets.length > 0 ? getShareFormat(framing, selectedTargets[0].id) : DEFAULT_SHARE_FORMAT}
+        onCancel={() => setShowOverlayComposer(false)}
+        onSave={handleSaveOverlay}
+      />
+
+      <CropEditor
+        uri={media.find(item => item.id === croppingId)?.uri}
+        value={media.find(item => item.id === croppingId)?.crop}
+        onCancel={() => setCroppingId(null)}
+        onSave={handleSaveCrop}
+      />
+
+      <Modal
+        visible={showDatePicker || showTimePicker}
+        transparent={true}
+        animationType="slide"
+      >
+        <ThemedView style={styles.modalContainer}>
+          <ThemedView style={[
+            styles.modalContent,
+            { backgroundColor: isDarkMode ? '#333' : '#fff' }
+          ]}>
+            <ThemedText style={styles.modalTitle}>
+              {showDatePicker ? 'Select Date' : 'Select Time'}
+            </ThemedText>
+            
+            {Platform.OS === 'ios' && (
+              <View style={styles.pickerContainer}>
+                {showDatePicker ? (
+                  <DateTimePicker
+                    value={tempDate}
+                    mode="date"
+                    display="spinner"
+                    onChange={handleDateChange}
+                    minimumDate={new Date()}
+                  />
+                ) : (
+                  <DateTimePicker
+                    value={tempDate}
+                    mode="time"
+                    display="spinner"
+                    onChange={handleTimeChange}
+                  />
+                )}
+              </View>
+            )}
+
+            {Platform.OS === 'android' && (
+              <DateTimePicker
+                value={tempDate}
+                mode={showDatePicker ? "date" : "time"}
+                display="default"
+                onChange={showDatePicker ? handleDateChange : handleTimeChange}
+                minimumDate={showDatePicker ? new Date() : undefined}
+              />
+            )}
+
+            <ThemedView style={styles.modalButtons}>
+              <TouchableOpacity 
+                style={[styles.modalButton, styles.cancelButton]} 
+                onPress={handleCancelDateTime}
+              >
+                <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={[styles.modalButton, styles.saveButton]} 
+                onPress={handleSaveDateTime}
+              >
+                <ThemedText style={styles.modalButtonText}>Save</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        </ThemedView>
+      </Modal>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  placeholderHint: {
+    fontSize: 12,
+    color: '#007AFF',
+  },
+  captionTabs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  captionTab: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  captionTabActive: {
+    backgroundColor: '#007AFF',
+  },
+  captionTabText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  captionTabTextActive: {
+    color: 'white',
+  },
+  form: {
+    gap: 20,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  input: {
+    padding: 12,
+    borderRadius: 8,
+    fontSize: 16,
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  dateTimeContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateTimeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+  },
+  dateTimeIcon: {
+    marginRight: 8,
+  },
+  photoStrip: {
+    gap: 12,
+  },
+  photoThumbnail: {
+    width: 120,
+    height: 120,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  photoPreview: {
+    width: '100%',
+    height: '100%',
+  },
+  photoPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addPhotoText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  removePhotoButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+  },
+  cropPhotoButton: {
+    position: 'absolute',
+    top: 4,
+    left: 4,
+  },
+  photoOrderControls: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  photoIndex: {
+    color: '#fff',
+    fontSize: 12,
+  },
+  overlaySummary: {
+    fontSize: 14,
+    color: '#666',
+  },
+  overlayButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  overlayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+  },
+  platformContainer: {
+    gap: 12,
+  },
+  platformRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  platformLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#999',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '80%',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  pickerContainer: {
+    width: '100%',
+    height: 200,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+    marginTop: 20,
+  },
+  modalButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#FF3B30',
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+  },
+  modalButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+}); 
\ No newline at end of file
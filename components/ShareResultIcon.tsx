@@ -0,0 +1,22 @@
+import { Ionicons } from '@expo/vector-icons';
+
+import { ShareOutcome } from '@/types/reminder';
+
+const OUTCOME_ICONS: Record<ShareOutcome, { name: keyof typeof Ionicons.glyphMap; color: string }> = {
+  shared: { name: 'checkmark-circle', color: '#4CAF50' },
+  cancelled: { name: 'remove-circle', color: '#8E8E93' },
+  failed: { name: 'close-circle', color: '#FF3B30' },
+};
+
+type Props = {
+  outcome: ShareOutcome;
+  size?: number;
+};
+
+/**
+ * Icon showing whether a share attempt was sent, cancelled or failed
+ */
+export function ShareResultIcon({ outcome, size = 18 }: Props) {
+  const { name, color } = OUTCOME_ICONS[outcome];
+  return <Ionicons name={name} size={size} color={color} />;
+}
@@ -0,0 +1,132 @@
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { STORY_COLORS } from '@/services/instagramStories';
+import { StoryLayout, StoryOptions, TargetOptionsEditorProps } from '@/types/shareTarget';
+
+const LAYOUT_OPTIONS: { value: StoryLayout; label: string }[] = [
+  { value: 'background', label: 'Full Screen' },
+  { value: 'sticker', label: 'Sticker' },
+];
+
+const LAYOUT_DESCRIPTIONS: Record<StoryLayout, string> = {
+  background: 'The cover photo or video fills the story.',
+  sticker: 'The cover photo sits on a gradient, move and resize it in Instagram.',
+};
+
+type Props = TargetOptionsEditorProps<StoryOptions>;
+
+/**
+ * Layout and gradient colors of an Instagram story
+ */
+export function StoryOptionsPicker({ value, onChange }: Props) {
+  const renderSwatches = (key: 'topColor' | 'bottomColor') => (
+    <View style={styles.swatchRow}>
+      {STORY_COLORS.map(color => (
+        <TouchableOpacity
+          key={color}
+          style={[styles.swatch, { backgroundColor: color }, value[key] === color && styles.swatchSelected]}
+          onPress={() => onChange({ ...value, [key]: color })}
+        />
+      ))}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.segmentRow}>
+        {LAYOUT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segment, value.layout === option.value && styles.segmentSelected]}
+            onPress={() => onChange({ ...value, layout: option.value })}
+          >
+            <ThemedText style={value.layout === option.value && styles.segmentTextSelected}>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </ThemedView>
+      <ThemedText style={styles.summary}>{LAYOUT_DESCRIPTIONS[value.layout]}</ThemedText>
+
+      {value.layout === 'sticker' && (
+        <ThemedView style={styles.colors}>
+          <View style={styles.preview}>
+            <View style={[styles.previewHalf, { backgroundColor: value.topColor }]} />
+            <View style={[styles.previewHalf, { backgroundColor: value.bottomColor }]} />
+          </View>
+          <ThemedView style={styles.colorPickers}>
+            <ThemedText>Top</ThemedText>
+            {renderSwatches('topColor')}
+            <ThemedText>Bottom</ThemedText>
+            {renderSwatches('bottomColor')}
+          </ThemedView>
+        </ThemedView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+  },
+  colors: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  preview: {
+    width: 54,
+    height: 96,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  previewHalf: {
+    flex: 1,
+  },
+  colorPickers: {
+    flex: 1,
+    gap: 6,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  swatch: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#007AFF',
+  },
+});
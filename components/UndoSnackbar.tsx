@@ -0,0 +1,69 @@
+import { Animated, StyleSheet, TouchableOpacity } from 'react-native';
+import { useEffect, useRef } from 'react';
+import { ThemedText } from '@/components/ThemedText';
+
+type Props = {
+  /** Message to show, the snackbar is hidden while this is undefined */
+  message?: string;
+  onUndo: () => void;
+  /** Called once the snackbar times out without being used */
+  onDismiss: () => void;
+  duration?: number;
+};
+
+/**
+ * Bar at the bottom of the screen offering to undo the last action
+ */
+export function UndoSnackbar({ message, onUndo, onDismiss, duration = 5000 }: Props) {
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!message) return;
+
+    opacity.setValue(0);
+    Animated.timing(opacity, { toValue: 1, duration: 200, useNativeDriver: true }).start();
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <Animated.View style={[styles.snackbar, { opacity }]}>
+      <ThemedText style={styles.message} numberOfLines={2}>{message}</ThemedText>
+      <TouchableOpacity onPress={onUndo} style={styles.undoButton}>
+        <ThemedText style={styles.undoText}>UNDO</ThemedText>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#323232',
+    gap: 12,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+  },
+  undoButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  undoText: {
+    color: '#FFCC00',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/context/ThemeContext';
+import { parseRecipients } from '@/services/whatsappOptions';
+import { TargetOptionsEditorProps, WhatsAppApp, WhatsAppOptions } from '@/types/shareTarget';
+
+const APP_OPTIONS: { value: WhatsAppApp; label: string }[] = [
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'business', label: 'WhatsApp Business' },
+];
+
+type Props = TargetOptionsEditorProps<WhatsAppOptions>;
+
+/**
+ * Recipient phone numbers and the WhatsApp app to send with
+ */
+export function WhatsAppOptionsPicker({ value, onChange }: Props) {
+  const { isDarkMode } = useTheme();
+  const [recipientsText, setRecipientsText] = useState(() => value.recipients.map(number => `+${number}`).join(', '));
+  const { invalid } = parseRecipients(recipientsText);
+
+  const handleRecipientsChange = (text: string) => {
+    setRecipientsText(text);
+    onChange({ ...value, recipients: parseRecipients(text).recipients });
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: isDarkMode ? '#333' : '#f5f5f5',
+            color: isDarkMode ? '#fff' : '#000'
+          }
+        ]}
+        value={recipientsText}
+        onChangeText={handleRecipientsChange}
+        placeholder="+44 20 7946 0958, +1 555 0100"
+        placeholderTextColor={isDarkMode ? '#aaa' : '#666'}
+        keyboardType="phone-pad"
+        multiline
+      />
+      {invalid.length > 0 ? (
+        <ThemedText style={styles.error}>
+          Not a phone number: {invalid.join(', ')}. Include the country code.
+        </ThemedText>
+      ) : (
+        <ThemedText style={styles.summary}>
+          Leave empty to pick the chat in WhatsApp when the reminder is shared.
+        </ThemedText>
+      )}
+
+      <ThemedView style={styles.segmentRow}>
+        {APP_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segment, value.app === option.value && styles.segmentSelected]}
+            onPress={() => onChange({ ...value, app: option.value })}
+          >
+            <ThemedText style={value.app === option.value && styles.segmentTextSelected}>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </ThemedView>
+      <ThemedText style={styles.summary}>Used when both apps are installed.</ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  input: {
+    padding: 12,
+    borderRadius: 8,
+    fontSize: 16,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#007AFF',
+  },
+  segmentTextSelected: {
+    color: 'white',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+  },
+  error: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+});
@@ -1,8 +1,9 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useColorScheme } from 'react-native';
+import { ThemePreference } from '@/types/settings';
 
-type ThemeType = 'light' | 'dark' | 'system';
+type ThemeType = ThemePreference;
 
 interface ThemeContextType {
   theme: ThemeType;
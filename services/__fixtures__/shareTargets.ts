@@ -0,0 +1,25 @@
+import { createShareResult } from '../shareResults';
+import { ShareTargetAdapter } from '../../types/shareTarget';
+
+/**
+ * Builds a share target for tests that is always installed and always shares
+ *
+ * @param id - Id of the target
+ * @param label - Name shown for the target
+ * @param overrides - Any other adapter fields, e.g. caption limits
+ * @returns ShareTargetAdapter - The target, ready to register
+ */
+export const createShareTarget = (
+  id: string,
+  label: string,
+  overrides: Partial<ShareTargetAdapter> = {}
+): ShareTargetAdapter => ({
+  id,
+  label,
+  icon: 'share-outline',
+  color: '#000000',
+  mediaTypes: ['image', 'video'],
+  isInstalled: async () => true,
+  share: async () => createShareResult(id, 'shared'),
+  ...overrides,
+});
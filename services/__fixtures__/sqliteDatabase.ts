@@ -0,0 +1,56 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { SqlJsStatic } from 'sql.js';
+
+// The WebAssembly build cannot open databases under jest, the asm.js build can
+const initSqlJs: () => Promise<SqlJsStatic> = require('sql.js/dist/sql-asm.js');
+
+type BindValue = string | number | null;
+
+/**
+ * Opens an in-memory database for tests. It answers the expo-sqlite calls the
+ * repository makes with SQLite compiled to JavaScript, so queries, indexes
+ * and JSON functions behave as on a device.
+ *
+ * @returns Promise<SQLiteDatabase> - The empty database
+ */
+export const openTestDatabase = async (): Promise<SQLiteDatabase> => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  const query = <T>(source: string, params: BindValue[]): T[] => {
+    const statement = db.prepare(source);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  const database = {
+    execAsync: async (source: string) => {
+      db.exec(source);
+    },
+    runAsync: async (source: string, ...params: BindValue[]) => {
+      db.run(source, params);
+      return { changes: db.getRowsModified(), lastInsertRowId: 0 };
+    },
+    getFirstAsync: async <T>(source: string, ...params: BindValue[]) => query<T>(source, params)[0] ?? null,
+    getAllAsync: async <T>(source: string, ...params: BindValue[]) => query<T>(source, params),
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      db.exec('BEGIN');
+      try {
+        await task();
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+  return database as unknown as SQLiteDatabase;
+};
@@ -0,0 +1,129 @@
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  getBackupFiles,
+  InvalidBackupError,
+  mergeReminders,
+  parseBackupManifest,
+  remapReminderMedia,
+} from '../backupArchive';
+import { DEFAULT_FRAMING } from '../framing';
+import { REMINDER_SCHEMA_VERSION } from '../reminderSchema';
+import { Reminder } from '../../types/reminder';
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: '1',
+  title: 'Launch',
+  description: '',
+  date: '2025-03-01T10:00:00.000Z',
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true, whatsapp: false },
+  completed: false,
+  shareHistory: [],
+  createdAt: '2025-02-01T10:00:00.000Z',
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const manifest = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: '2025-02-02T10:00:00.000Z',
+  schemaVersion: REMINDER_SCHEMA_VERSION,
+  reminders: [],
+  campaigns: [],
+  templates: [],
+  settings: { notificationsEnabled: false },
+  theme: 'dark',
+  files: {},
+  ...overrides,
+});
+
+describe('getBackupFiles', () => {
+  it('lists each file once and names its copy in the archive', () => {
+    const video = { id: 'a', uri: 'file:///a.mov', type: 'video' as const, mimeType: 'video/quicktime', thumbnailUri: 'file:///a.jpg' };
+    const files = getBackupFiles([reminder({ media: [video] }), reminder({ id: '2', media: [video] })]);
+
+    expect(files).toEqual([
+      { uri: 'file:///a.mov', mimeType: 'video/quicktime', name: 'media-0.mov' },
+      { uri: 'file:///a.jpg', mimeType: 'image/jpeg', name: 'media-1.jpg' },
+    ]);
+  });
+});
+
+describe('parseBackupManifest', () => {
+  it('rejects files that are not backups or come from a newer app', () => {
+    expect(() => parseBackupManifest('not json')).toThrow(InvalidBackupError);
+    expect(() => parseBackupManifest(JSON.stringify({ reminders: [] }))).toThrow(InvalidBackupError);
+    expect(() => parseBackupManifest(manifest({ schemaVersion: REMINDER_SCHEMA_VERSION + 1 }))).toThrow(InvalidBackupError);
+  });
+
+  it('drops files whose name points outside the archive', () => {
+    const backup = parseBackupManifest(manifest({
+      files: {
+        'file:///a.jpg': { mimeType: 'image/jpeg', name: 'media-0.jpg' },
+        'file:///b.jpg': { mimeType: 'image/jpeg', name: '../b.jpg' },
+        'file:///c.json': { mimeType: 'application/json', name: 'manifest.json' },
+      },
+    }));
+
+    expect(Object.keys(backup.files)).toEqual(['file:///a.jpg']);
+  });
+
+  it('migrates reminders and counts the ones that cannot be read', () => {
+    const backup = parseBackupManifest(manifest({
+      schemaVersion: 1,
+      reminders: [
+        { id: '1', title: 'Old photo', date: '2025-03-01T10:00:00.000Z', photoUri: 'file:///old/a.jpg' },
+        { title: 'No id' },
+      ],
+      files: { 'file:///old/a.jpg': { mimeType: 'image/jpeg', name: 'media-0.jpg' }, 'file:///bad': 'nope' },
+      campaigns: undefined,
+    }));
+
+    expect(backup.reminders.map(r => r.media[0].uri)).toEqual(['file:///old/a.jpg']);
+    expect(backup.invalidCount).toBe(1);
+    expect(Object.keys(backup.files)).toEqual(['file:///old/a.jpg']);
+    expect(backup.settings).toEqual({ notificationsEnabled: false });
+    expect(backup.theme).toBe('dark');
+    expect(backup.campaigns).toEqual([]);
+  });
+});
+
+describe('remapReminderMedia', () => {
+  it('points media at the restored files and drops media that was not backed up', () => {
+    const remapped = remapReminderMedia(reminder({
+      media: [
+        { id: 'a', uri: 'file:///old/a.mp4', type: 'video', mimeType: 'video/mp4', thumbnailUri: 'file:///old/a.jpg' },
+        { id: 'b', uri: 'file:///old/missing.jpg', type: 'image', mimeType: 'image/jpeg' },
+      ],
+    }), { 'file:///old/a.mp4': 'file:///new/1.mp4', 'file:///old/a.jpg': 'file:///new/2.jpg' });
+
+    expect(remapped.media).toEqual([
+      { id: 'a', uri: 'file:///new/1.mp4', type: 'video', mimeType: 'video/mp4', thumbnailUri: 'file:///new/2.jpg' },
+    ]);
+  });
+});
+
+describe('mergeReminders', () => {
+  it('keeps the copy edited last and combines share history', () => {
+    const existing = reminder({
+      title: 'Existing',
+      shareHistory: [{ platform: 'instagram', sharedAt: '2025-03-01T10:00:00.000Z', outcome: 'shared' }],
+    });
+    const restored = reminder({
+      title: 'Restored',
+      updatedAt: '2025-02-05T10:00:00.000Z',
+      shareHistory: [
+        { platform: 'instagram', sharedAt: '2025-03-01T10:00:00.000Z', outcome: 'shared' },
+        { platform: 'whatsapp', sharedAt: '2025-02-20T10:00:00.000Z', outcome: 'failed', errorCode: 'not_installed' },
+      ],
+    });
+
+    const merged = mergeReminders(existing, restored);
+
+    expect(merged.title).toBe('Restored');
+    expect(merged.shareHistory.map(entry => entry.platform)).toEqual(['whatsapp', 'instagram']);
+  });
+});
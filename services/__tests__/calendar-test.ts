@@ -0,0 +1,78 @@
+import { getEntriesInRange, getEntryPlatforms, getMonthGrid, groupEntriesByDay } from '../calendar';
+import { DEFAULT_FRAMING } from '../framing';
+import { Reminder } from '../../types/reminder';
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: '1',
+  title: 'Launch',
+  description: '',
+  date: new Date(2025, 2, 3, 10).toISOString(),
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true, whatsapp: false },
+  completed: false,
+  shareHistory: [],
+  createdAt: '2025-02-01T10:00:00.000Z',
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('getMonthGrid', () => {
+  it('covers the month in whole weeks starting on Sunday', () => {
+    // March 2025 starts on a Saturday and ends on a Monday
+    const weeks = getMonthGrid(new Date(2025, 2, 15));
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0][0]).toEqual(new Date(2025, 1, 23));
+    expect(weeks[5][6]).toEqual(new Date(2025, 3, 5));
+  });
+});
+
+describe('getEntriesInRange', () => {
+  it('places each occurrence of a recurring reminder except skipped ones', () => {
+    const weekly = reminder({
+      id: '2',
+      recurrence: { frequency: 'weekly', interval: 1 },
+      occurrences: [
+        { date: new Date(2025, 2, 3, 10).toISOString(), status: 'completed' },
+        { date: new Date(2025, 2, 10, 10).toISOString(), status: 'skipped' },
+        { date: new Date(2025, 2, 17, 10).toISOString(), status: 'scheduled' },
+        { date: new Date(2025, 3, 7, 10).toISOString(), status: 'scheduled' },
+      ],
+    });
+
+    const entries = getEntriesInRange([weekly, reminder()], new Date(2025, 2, 1), new Date(2025, 3, 1));
+
+    expect(entries.map(entry => [entry.reminder.id, entry.date.getDate(), entry.completed])).toEqual([
+      ['2', 3, true],
+      ['1', 3, false],
+      ['2', 17, false],
+      ['2', 24, false],
+      ['2', 31, false],
+    ]);
+  });
+
+  it('expands recurring reminders beyond their stored occurrences', () => {
+    const daily = reminder({
+      recurrence: { frequency: 'daily', interval: 1 },
+      occurrences: [{ date: new Date(2025, 2, 3, 10).toISOString(), status: 'scheduled' }],
+    });
+
+    const entries = getEntriesInRange([daily], new Date(2025, 5, 1), new Date(2025, 6, 1));
+
+    expect(entries).toHaveLength(30);
+    expect(entries[0].date).toEqual(new Date(2025, 5, 1, 10));
+  });
+
+  it('groups entries by day and lists the platforms used', () => {
+    const entries = getEntriesInRange([
+      reminder(),
+      reminder({ id: '2', platforms: { instagram: true, whatsapp: true } }),
+    ], new Date(2025, 2, 1), new Date(2025, 3, 1));
+
+    const days = groupEntriesByDay(entries);
+
+    expect(Object.keys(days)).toEqual(['2025-03-03']);
+    expect(getEntryPlatforms(days['2025-03-03'])).toEqual(['instagram', 'whatsapp']);
+  });
+});
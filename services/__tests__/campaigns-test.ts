@@ -0,0 +1,62 @@
+import { CAMPAIGN_COLORS, summarizeCampaigns, toCampaigns } from '../campaigns';
+import { DEFAULT_FRAMING } from '../framing';
+import { Reminder } from '../../types/reminder';
+
+const now = new Date('2025-03-10T12:00:00.000Z');
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: '1',
+  title: 'Launch',
+  description: '',
+  date: '2025-03-12T10:00:00.000Z',
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true, whatsapp: false },
+  completed: false,
+  campaignId: 'spring',
+  shareHistory: [],
+  createdAt: '2025-02-01T10:00:00.000Z',
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const spring = { id: 'spring', name: 'Spring Launch', color: '#34C759', createdAt: '2025-02-01T10:00:00.000Z' };
+
+describe('summarizeCampaigns', () => {
+  it('counts planned, shared and missed posts, one per occurrence of recurring reminders', () => {
+    const [summary] = summarizeCampaigns([spring], [
+      reminder(),
+      reminder({ id: '2', date: '2025-03-01T10:00:00.000Z' }),
+      reminder({
+        id: '3',
+        date: '2025-03-01T10:00:00.000Z',
+        shareHistory: [{ platform: 'instagram', sharedAt: '2025-03-01T10:00:05.000Z', outcome: 'shared' }],
+      }),
+      reminder({
+        id: '4',
+        date: '2025-03-03T10:00:00.000Z',
+        recurrence: { frequency: 'weekly', interval: 1 },
+        occurrences: [
+          { date: '2025-03-03T10:00:00.000Z', status: 'completed' },
+          { date: '2025-03-06T10:00:00.000Z', status: 'skipped' },
+          { date: '2025-03-09T10:00:00.000Z', status: 'scheduled' },
+          { date: '2025-03-17T10:00:00.000Z', status: 'scheduled' },
+        ],
+      }),
+      reminder({ id: '5', campaignId: undefined }),
+    ], now);
+
+    expect(summary).toEqual({ campaign: spring, planned: 2, shared: 2, missed: 2 });
+  });
+});
+
+describe('toCampaigns', () => {
+  it('drops campaigns without a name and repairs their color', () => {
+    expect(toCampaigns([
+      { id: 'a', name: 'Festival', color: 'red', createdAt: '2025-02-01T10:00:00.000Z' },
+      { id: 'b', name: '  ' },
+      'nope',
+    ])).toEqual([{ id: 'a', name: 'Festival', color: CAMPAIGN_COLORS[0], createdAt: '2025-02-01T10:00:00.000Z' }]);
+    expect(toCampaigns(undefined)).toEqual([]);
+  });
+});
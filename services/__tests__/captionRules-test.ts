@@ -0,0 +1,73 @@
+import {
+  checkCaption,
+  checkPlatformCaptions,
+  describeCaptionProblems,
+  extractHashtags,
+  getPlatformDescription,
+  insertHashtags,
+  normalizePlatformCaptions,
+  parseHashtags,
+} from '../captionRules';
+import { registerShareTarget } from '../shareTargets';
+import { createShareTarget } from '../__fixtures__/shareTargets';
+
+beforeAll(() => {
+  registerShareTarget(createShareTarget('instagram', 'Instagram', { captionLimits: { maxLength: 2200, maxHashtags: 30 } }));
+  registerShareTarget(createShareTarget('whatsapp', 'WhatsApp', { captionLimits: { maxLength: 65536 } }));
+  registerShareTarget(createShareTarget('system', 'Other Apps'));
+});
+
+describe('parseHashtags', () => {
+  it('adds missing # signs and drops repeats and invalid words', () => {
+    expect(parseHashtags('#summer, sale\n##Summer new-in café')).toEqual(['#summer', '#sale', '#café']);
+  });
+});
+
+describe('insertHashtags', () => {
+  it('appends only the hashtags the caption does not have yet', () => {
+    expect(insertHashtags('New drop #Sale ', ['#sale', '#summer'])).toBe('New drop #Sale\n\n#summer');
+    expect(insertHashtags('', ['#sale'])).toBe('#sale');
+    expect(insertHashtags('#sale', ['#SALE'])).toBe('#sale');
+  });
+});
+
+describe('checkCaption', () => {
+  it('checks only the selected platforms and flags each limit', () => {
+    const hashtags = Array.from({ length: 31 }, (_, i) => `#tag${i}`).join(' ');
+    const checks = checkCaption(hashtags, { instagram: true, whatsapp: false });
+
+    expect(checks).toHaveLength(1);
+    expect(checks[0]).toMatchObject({ platform: 'instagram', hashtagCount: 31, tooLong: false, tooManyHashtags: true });
+    expect(describeCaptionProblems(checks)).toEqual(['Instagram allows 30 hashtags, this caption has 31.']);
+    expect(extractHashtags('Hi #a and #b_2!')).toEqual(['#a', '#b_2']);
+  });
+
+  it('counts emoji as single characters', () => {
+    const [check] = checkCaption('😀'.repeat(2200), { instagram: true, whatsapp: false });
+
+    expect(check.length).toBe(2200);
+    expect(check.tooLong).toBe(false);
+  });
+});
+
+describe('platform captions', () => {
+  it('falls back to the description when a platform has no caption of its own', () => {
+    const captions = normalizePlatformCaptions({ instagram: ' #launch ', whatsapp: '   ' });
+
+    expect(captions).toEqual({ instagram: '#launch' });
+    expect(getPlatformDescription('New drop', captions, 'instagram')).toBe('#launch');
+    expect(getPlatformDescription('New drop', captions, 'whatsapp')).toBe('New drop');
+    expect(normalizePlatformCaptions({ whatsapp: '' })).toBeUndefined();
+  });
+
+  it('checks each platform against its own caption', () => {
+    const hashtags = Array.from({ length: 31 }, (_, i) => `#tag${i}`).join(' ');
+    const checks = checkPlatformCaptions('Launch', 'New drop', { whatsapp: hashtags }, { instagram: true, whatsapp: true });
+
+    expect(checks.map(check => [check.platform, check.hashtagCount])).toEqual([['instagram', 0], ['whatsapp', 31]]);
+  });
+
+  it('skips platforms without caption limits', () => {
+    expect(checkPlatformCaptions('Launch', 'New drop', undefined, { system: true })).toEqual([]);
+  });
+});
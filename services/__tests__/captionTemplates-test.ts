@@ -0,0 +1,44 @@
+import { expandCaption, expandPlaceholders, hasPlaceholders, toCaptionTemplates } from '../captionTemplates';
+
+// Friday
+const date = new Date(2025, 2, 7, 18, 0);
+
+describe('expandPlaceholders', () => {
+  it('fills in every known placeholder and leaves unknown ones as written', () => {
+    expect(expandPlaceholders('{title} on {weekday}, {date} for {campaign} {price}', {
+      title: 'Happy hour',
+      date,
+      campaign: 'Spring Launch',
+    })).toBe('Happy hour on Friday, March 7 for Spring Launch {price}');
+  });
+});
+
+describe('expandCaption', () => {
+  it('expands the title first and uses it in the caption', () => {
+    expect(expandCaption('{weekday} Special {title}', 'Join us for the {title}!', { date, campaign: '' })).toEqual({
+      title: 'Friday Special',
+      description: 'Join us for the Friday Special!',
+    });
+  });
+});
+
+describe('toCaptionTemplates', () => {
+  it('drops templates without a name and fills in missing text', () => {
+    const [template, ...rest] = toCaptionTemplates([
+      { id: '1', name: 'Weekly', description: 'See you {weekday}', createdAt: '2025-02-01T10:00:00.000Z' },
+      { id: '2', name: '' },
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(template).toEqual({
+      id: '1',
+      name: 'Weekly',
+      title: '',
+      description: 'See you {weekday}',
+      createdAt: '2025-02-01T10:00:00.000Z',
+      updatedAt: '2025-02-01T10:00:00.000Z',
+    });
+    expect(hasPlaceholders(template.description)).toBe(true);
+    expect(hasPlaceholders('No {placeholders} here')).toBe(false);
+  });
+});
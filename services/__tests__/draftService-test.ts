@@ -0,0 +1,91 @@
+import { deleteDraft, getDraft, getDrafts, readDrafts, saveDraft } from '../draftService';
+import { DEFAULT_FRAMING } from '../framing';
+import { ReminderDraft } from '../../types/draft';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const AsyncStorage: typeof import('@react-native-async-storage/async-storage').default =
+  jest.requireMock('@react-native-async-storage/async-storage');
+
+const draft = (overrides: Partial<ReminderDraft> = {}): ReminderDraft => ({
+  id: 'd1',
+  title: 'Launch',
+  description: '',
+  date: '2025-03-01T10:00:00.000Z',
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true },
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  ...overrides,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('saveDraft', () => {
+  it('replaces a draft with the same id and lists the latest edit first', async () => {
+    await saveDraft(draft({ id: 'd1', title: 'First' }));
+    await saveDraft(draft({ id: 'd2', updatedAt: '2025-02-02T10:00:00.000Z' }));
+    await saveDraft(draft({ id: 'd1', title: 'Edited', updatedAt: '2025-02-03T10:00:00.000Z' }));
+
+    const drafts = await getDrafts();
+    expect(drafts.map(d => [d.id, d.title])).toEqual([['d1', 'Edited'], ['d2', 'Launch']]);
+  });
+
+  it('moves drafts it cannot read aside and keeps saving', async () => {
+    await AsyncStorage.setItem('snaply_drafts', '[{ broken');
+    await expect(readDrafts()).rejects.toThrow(SyntaxError);
+    expect(await getDrafts()).toEqual([]);
+
+    await saveDraft(draft());
+
+    const keys = await AsyncStorage.getAllKeys();
+    const movedKey = keys.find(key => key.startsWith('snaply_drafts_unreadable_'));
+    expect(await AsyncStorage.getItem(movedKey ?? '')).toBe('[{ broken');
+    expect((await getDrafts()).map(d => d.id)).toEqual(['d1']);
+  });
+});
+
+describe('getDraft', () => {
+  it('restores drafts saved before media, framing and target options existed', async () => {
+    await AsyncStorage.setItem('snaply_drafts', JSON.stringify([{
+      id: 'old',
+      title: 'Old draft',
+      description: '',
+      date: '2025-03-01T10:00:00.000Z',
+      platforms: { instagram: true, whatsapp: true },
+      photoUri: 'file:///photos/a.png',
+      story: { layout: 'sticker' },
+      whatsapp: { app: 'business' },
+      updatedAt: '2025-02-01T10:00:00.000Z',
+    }]));
+
+    const restored = await getDraft('old');
+
+    expect(restored?.media).toEqual([{ id: '0', uri: 'file:///photos/a.png', type: 'image', mimeType: 'image/png' }]);
+    expect(restored?.framing).toEqual(DEFAULT_FRAMING);
+    expect(restored?.targetOptions).toEqual({ instagram_stories: { layout: 'sticker' }, whatsapp: { app: 'business' } });
+    expect(restored).not.toHaveProperty('photoUri');
+    expect(await getDraft('missing')).toBeNull();
+  });
+});
+
+describe('deleteDraft', () => {
+  it('discards only the given draft', async () => {
+    await saveDraft(draft({ id: 'd1' }));
+    await saveDraft(draft({ id: 'd2' }));
+
+    await deleteDraft('d1');
+
+    expect((await getDrafts()).map(d => d.id)).toEqual(['d2']);
+  });
+});
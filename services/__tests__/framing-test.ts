@@ -0,0 +1,61 @@
+import {
+  clampCropRect,
+  DEFAULT_FRAMING,
+  getCropRect,
+  getFittedRect,
+  getRegionRect,
+  getScaledSize,
+  getShareFormat,
+} from '../framing';
+import { registerShareTarget } from '../shareTargets';
+import { createShareTarget } from '../__fixtures__/shareTargets';
+
+describe('getCropRect', () => {
+  it('center crops a landscape photo to a story', () => {
+    expect(getCropRect(4000, 3000, 'story')).toEqual({ x: 1156, y: 0, width: 1688, height: 3000 });
+  });
+
+  it('center crops a portrait photo to a square', () => {
+    expect(getCropRect(3000, 4000, 'square')).toEqual({ x: 0, y: 500, width: 3000, height: 3000 });
+  });
+
+  it('keeps the crop inside a manually chosen region', () => {
+    const rect = getCropRect(4000, 3000, 'square', { x: 0.5, y: 0, width: 0.5, height: 1 });
+
+    expect(rect).toEqual({ x: 2000, y: 500, width: 2000, height: 2000 });
+  });
+});
+
+describe('clampCropRect', () => {
+  it('moves and shrinks rectangles back inside the image', () => {
+    expect(clampCropRect({ x: 0.8, y: -0.2, width: 0.5, height: 1.4 })).toEqual({ x: 0.5, y: 0, width: 0.5, height: 1 });
+  });
+});
+
+describe('getFittedRect', () => {
+  it('letterboxes with contain and overflows with cover', () => {
+    expect(getFittedRect(2000, 1000, 1080, 1920, 'contain')).toEqual({ x: 0, y: 690, width: 1080, height: 540 });
+    expect(getFittedRect(2000, 1000, 1080, 1920, 'cover')).toEqual({ x: -1380, y: 0, width: 3840, height: 1920 });
+  });
+});
+
+describe('getShareFormat', () => {
+  it('uses the chosen format, then the target default, then the original photo', () => {
+    registerShareTarget({ ...createShareTarget('instagram', 'Instagram Feed'), defaultFormat: 'portrait' });
+    registerShareTarget(createShareTarget('telegram', 'Telegram'));
+
+    expect(getShareFormat({ ...DEFAULT_FRAMING, formats: { instagram: 'square' } }, 'instagram')).toBe('square');
+    expect(getShareFormat(DEFAULT_FRAMING, 'instagram')).toBe('portrait');
+    expect(getShareFormat(DEFAULT_FRAMING, 'telegram')).toBe('original');
+    expect(getShareFormat(DEFAULT_FRAMING, 'unknown')).toBe('original');
+  });
+});
+
+describe('original format', () => {
+  it('keeps the aspect ratio of the photo or its crop region', () => {
+    expect(getRegionRect(4000, 3000)).toEqual({ x: 0, y: 0, width: 4000, height: 3000 });
+    expect(getRegionRect(4000, 3000, { x: 0.5, y: 0, width: 0.5, height: 1 })).toEqual({ x: 2000, y: 0, width: 2000, height: 3000 });
+    expect(getScaledSize(4000, 3000, 1920)).toEqual({ width: 1920, height: 1440 });
+    expect(getScaledSize(800, 600, 1920)).toEqual({ width: 800, height: 600 });
+  });
+});
@@ -0,0 +1,31 @@
+import { DEFAULT_STORY_OPTIONS, getStoryAssets, toStoryOptions } from '../instagramStories';
+import { ReminderMedia } from '../../types/reminder';
+
+const photo: ReminderMedia = { id: 'a', uri: 'file:///a.jpg', type: 'image', mimeType: 'image/jpeg' };
+const video: ReminderMedia = { id: 'b', uri: 'file:///b.mp4', type: 'video', mimeType: 'video/mp4' };
+
+describe('getStoryAssets', () => {
+  it('uses the cover as the background', () => {
+    expect(getStoryAssets([photo, video])).toEqual({ backgroundImage: 'file:///a.jpg' });
+    expect(getStoryAssets([video, photo])).toEqual({ backgroundVideo: 'file:///b.mp4' });
+    expect(getStoryAssets([])).toBeUndefined();
+  });
+
+  it('puts the first photo on the gradient as a sticker', () => {
+    const options = { layout: 'sticker' as const, topColor: '#000000', bottomColor: '#FFFFFF' };
+
+    expect(getStoryAssets([video, photo], options)).toEqual({
+      stickerImage: 'file:///a.jpg',
+      backgroundTopColor: '#000000',
+      backgroundBottomColor: '#FFFFFF',
+    });
+    expect(getStoryAssets([video], options)).toEqual({ backgroundVideo: 'file:///b.mp4' });
+  });
+});
+
+describe('toStoryOptions', () => {
+  it('falls back to the defaults for malformed values', () => {
+    expect(toStoryOptions({ layout: 'poster', topColor: 'red' })).toEqual(DEFAULT_STORY_OPTIONS);
+    expect(toStoryOptions(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,27 @@
+import { getCombinedMimeType, getExtensionForMimeType, getMimeType } from '../mimeTypes';
+
+describe('getMimeType', () => {
+  it('maps known extensions and falls back to the media type default', () => {
+    expect(getMimeType('file:///photos/a.PNG', 'image')).toBe('image/png');
+    expect(getMimeType('file:///videos/b.mov', 'video')).toBe('video/quicktime');
+    expect(getMimeType('content://media/external/video/42', 'video')).toBe('video/mp4');
+    // An extension that contradicts the media type is not trusted
+    expect(getMimeType('file:///videos/c.jpg', 'video')).toBe('video/mp4');
+  });
+});
+
+describe('getCombinedMimeType', () => {
+  it('widens to a wildcard when the files differ', () => {
+    expect(getCombinedMimeType(['image/jpeg', 'image/jpeg'])).toBe('image/jpeg');
+    expect(getCombinedMimeType(['image/jpeg', 'image/png'])).toBe('image/*');
+    expect(getCombinedMimeType(['image/jpeg', 'video/mp4'])).toBe('*/*');
+  });
+});
+
+describe('getExtensionForMimeType', () => {
+  it('returns the first extension registered for a MIME type', () => {
+    expect(getExtensionForMimeType('image/jpeg')).toBe('jpg');
+    expect(getExtensionForMimeType('video/quicktime')).toBe('mov');
+    expect(getExtensionForMimeType('application/pdf')).toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+import { NOTIFICATION_BUDGET, planNotifications } from '../notificationSchedule';
+import { Reminder } from '../../types/reminder';
+import { DEFAULT_FRAMING } from '../framing';
+
+// Monday 6 January 2025, 09:30 local time
+const now = new Date(2025, 0, 6, 9, 30);
+
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const createReminder = (id: string, overrides: Partial<Reminder> = {}): Reminder => ({
+  id,
+  title: `Reminder ${id}`,
+  description: '',
+  date: daysFromNow(1),
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true, whatsapp: false },
+  completed: false,
+  shareHistory: [],
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+  ...overrides,
+});
+
+const createSeries = (id: string, count: number, offset: number): Reminder =>
+  createReminder(id, {
+    date: daysFromNow(offset),
+    recurrence: { frequency: 'daily', interval: 1 },
+    occurrences: Array.from({ length: count }, (_, i) => ({ date: daysFromNow(offset + i), status: 'scheduled' as const })),
+  });
+
+describe('planNotifications', () => {
+  it('shares the budget across reminders, soonest first', () => {
+    const series = ['a', 'b', 'c', 'd'].map((id, i) => createSeries(id, 20, i * 0.1 + 1));
+
+    const planned = planNotifications(series, now);
+
+    expect(planned).toHaveLength(NOTIFICATION_BUDGET);
+    expect(new Set(planned.map(n => n.reminder.id))).toEqual(new Set(['a', 'b', 'c', 'd']));
+    expect(planned.map(n => n.date)).toEqual([...planned.map(n => n.date)].sort());
+    expect(planned[0].identifier).toBe(`a:${daysFromNow(1)}`);
+  });
+
+  it('puts a one-off reminder ahead of later occurrences', () => {
+    const oneOff = createReminder('once', { date: daysFromNow(2.5) });
+
+    const planned = planNotifications([createSeries('a', 20, 1), oneOff], now, 3);
+
+    expect(planned.map(n => n.identifier)).toEqual([`a:${daysFromNow(1)}`, `a:${daysFromNow(2)}`, 'once']);
+  });
+
+  it('leaves out past, handled, completed and trashed notifications', () => {
+    const series = createReminder('a', {
+      date: daysFromNow(-1),
+      recurrence: { frequency: 'daily', interval: 1 },
+      occurrences: [
+        { date: daysFromNow(-1), status: 'scheduled' },
+        { date: daysFromNow(1), status: 'skipped' },
+        { date: daysFromNow(2), status: 'scheduled' },
+      ],
+    });
+
+    const planned = planNotifications(
+      [
+        series,
+        createReminder('done', { completed: true }),
+        createReminder('trashed', { deletedAt: now.toISOString() }),
+        createReminder('past', { date: daysFromNow(-1) }),
+      ],
+      now
+    );
+
+    expect(planned.map(n => n.identifier)).toEqual([`a:${daysFromNow(2)}`]);
+  });
+});
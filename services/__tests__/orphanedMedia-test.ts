@@ -0,0 +1,59 @@
+import { collectReferencedUris, isOrphaned, MediaFile, ORPHAN_GRACE_PERIOD_MS } from '../orphanedMedia';
+import { DEFAULT_FRAMING } from '../framing';
+import { ReminderDraft } from '../../types/draft';
+
+const draft = (overrides: Partial<ReminderDraft> = {}): ReminderDraft => ({
+  id: 'd1',
+  title: 'Draft',
+  description: '',
+  date: '2025-03-01T10:00:00.000Z',
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true },
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const file = (overrides: Partial<MediaFile> = {}): MediaFile => ({
+  uri: 'file:///photos/a.jpg',
+  size: 100,
+  referenced: false,
+  modifiedAt: 0,
+  ...overrides,
+});
+
+describe('collectReferencedUris', () => {
+  it('keeps the media and video thumbnails of reminders and drafts', () => {
+    const uris = collectReferencedUris(['file:///photos/a.jpg'], [
+      draft({
+        media: [
+          { id: 'v', uri: 'file:///photos/v.mp4', type: 'video', mimeType: 'video/mp4', thumbnailUri: 'file:///photos/v.jpg' },
+          { id: 'a', uri: 'file:///photos/a.jpg', type: 'image', mimeType: 'image/jpeg' },
+        ],
+      }),
+    ]);
+
+    expect([...uris].sort()).toEqual(['file:///photos/a.jpg', 'file:///photos/v.jpg', 'file:///photos/v.mp4']);
+  });
+
+  it('keeps the files of quarantined records, even ones that are not valid JSON', () => {
+    const uris = collectReferencedUris([], [], [
+      '{"id":"1","media":[{"uri":"file:///photos/q.jpg"}]',
+      { title: 'No id', photoUri: 'file:///photos/legacy.png' },
+    ]);
+
+    expect([...uris].sort()).toEqual(['file:///photos/legacy.png', 'file:///photos/q.jpg']);
+  });
+});
+
+describe('isOrphaned', () => {
+  const now = Date.UTC(2025, 2, 1);
+
+  it('only collects unreferenced files older than the grace period', () => {
+    const old = now - ORPHAN_GRACE_PERIOD_MS - 1;
+
+    expect(isOrphaned(file({ modifiedAt: old }), now)).toBe(true);
+    expect(isOrphaned(file({ modifiedAt: old, referenced: true }), now)).toBe(false);
+    expect(isOrphaned(file({ modifiedAt: now - ORPHAN_GRACE_PERIOD_MS }), now)).toBe(false);
+  });
+});
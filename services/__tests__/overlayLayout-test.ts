@@ -0,0 +1,40 @@
+import { DEFAULT_OVERLAY, getOverlayText, layoutOverlay, wrapText } from '../overlayLayout';
+
+// Every character is 10px wide
+const measure = (text: string) => text.length * 10;
+
+describe('wrapText', () => {
+  it('breaks between words and keeps explicit line breaks', () => {
+    expect(wrapText('New drop this Friday\nSee you there', 120, measure)).toEqual([
+      'New drop',
+      'this Friday',
+      'See you',
+      'there',
+    ]);
+  });
+
+  it('gives a word wider than the limit its own line', () => {
+    expect(wrapText('a extraordinarily b', 50, measure)).toEqual(['a', 'extraordinarily', 'b']);
+  });
+});
+
+describe('layoutOverlay', () => {
+  it('centers the block horizontally and keeps it above the bottom margin', () => {
+    const layout = layoutOverlay('Sale', 1000, 2000, 'bottom', measure);
+
+    expect(layout.lines).toEqual([{ text: 'Sale', width: 40 }]);
+    expect(layout.block.x).toBeCloseTo(440);
+    expect(layout.block.y + layout.block.height).toBeCloseTo(2000 - 280);
+  });
+
+  it('places a top block below the safe margin', () => {
+    expect(layoutOverlay('Sale', 1000, 2000, 'top', measure).block.y).toBeCloseTo(280);
+  });
+});
+
+describe('getOverlayText', () => {
+  it('uses the title unless custom text is chosen', () => {
+    expect(getOverlayText(DEFAULT_OVERLAY, ' Launch ')).toBe('Launch');
+    expect(getOverlayText({ ...DEFAULT_OVERLAY, source: 'custom', text: 'Hello' }, 'Launch')).toBe('Hello');
+  });
+});
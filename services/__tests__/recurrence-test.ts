@@ -0,0 +1,147 @@
+import {
+  describeRecurrence,
+  expandRecurrence,
+  getNextOccurrence,
+  hasScheduleChanged,
+  MAX_PAST_OCCURRENCES,
+  refreshOccurrences,
+} from '../recurrence';
+import { Reminder } from '../../types/reminder';
+import { DEFAULT_FRAMING } from '../framing';
+
+// Monday 6 January 2025, 09:30 local time
+const start = new Date(2025, 0, 6, 9, 30);
+
+describe('expandRecurrence', () => {
+  it('expands daily rules with an interval', () => {
+    const dates = expandRecurrence(start, { frequency: 'daily', interval: 2 }, { limit: 3 });
+
+    expect(dates).toEqual([
+      new Date(2025, 0, 6, 9, 30),
+      new Date(2025, 0, 8, 9, 30),
+      new Date(2025, 0, 10, 9, 30),
+    ]);
+  });
+
+  it('expands weekly rules on the chosen weekdays', () => {
+    const dates = expandRecurrence(start, { frequency: 'weekly', interval: 1, weekdays: [1, 4] }, { limit: 4 });
+
+    expect(dates).toEqual([
+      new Date(2025, 0, 6, 9, 30),
+      new Date(2025, 0, 9, 9, 30),
+      new Date(2025, 0, 13, 9, 30),
+      new Date(2025, 0, 16, 9, 30),
+    ]);
+  });
+
+  it('skips months that do not have the chosen day', () => {
+    const dates = expandRecurrence(new Date(2025, 0, 31, 9, 30), { frequency: 'monthly', interval: 1, monthDay: 31 }, { limit: 3 });
+
+    expect(dates).toEqual([
+      new Date(2025, 0, 31, 9, 30),
+      new Date(2025, 2, 31, 9, 30),
+      new Date(2025, 4, 31, 9, 30),
+    ]);
+  });
+
+  it('stops at the end date or occurrence count', () => {
+    const until = new Date(2025, 0, 8, 23, 59).toISOString();
+
+    expect(expandRecurrence(start, { frequency: 'daily', interval: 1, until })).toHaveLength(3);
+    expect(expandRecurrence(start, { frequency: 'daily', interval: 1, count: 5 })).toHaveLength(5);
+  });
+
+  it('counts occurrences from the start even when a window is given', () => {
+    const dates = expandRecurrence(start, { frequency: 'daily', interval: 1, count: 5 }, { from: new Date(2025, 0, 9) });
+
+    expect(dates).toEqual([new Date(2025, 0, 9, 9, 30), new Date(2025, 0, 10, 9, 30)]);
+  });
+});
+
+describe('refreshOccurrences', () => {
+  const reminder: Reminder = {
+    id: '1',
+    title: 'Weekly post',
+    description: '',
+    date: start.toISOString(),
+    media: [],
+    framing: DEFAULT_FRAMING,
+    platforms: { instagram: true, whatsapp: false },
+    completed: false,
+    recurrence: { frequency: 'weekly', interval: 1 },
+    occurrences: [{ date: start.toISOString(), status: 'skipped' }],
+    shareHistory: [],
+    createdAt: start.toISOString(),
+    updatedAt: start.toISOString(),
+  };
+
+  it('keeps existing occurrences and appends new ones up to the horizon', () => {
+    const occurrences = refreshOccurrences(reminder, new Date(2025, 0, 6, 10, 0));
+
+    expect(occurrences[0]).toEqual({ date: start.toISOString(), status: 'skipped' });
+    expect(occurrences[1]).toEqual({ date: new Date(2025, 0, 13, 9, 30).toISOString(), status: 'scheduled' });
+    expect(occurrences.length).toBeGreaterThan(5);
+  });
+
+  it('marks occurrences missed a day after their time and moves on from now', () => {
+    const open = {
+      ...reminder,
+      occurrences: [
+        { date: start.toISOString(), status: 'scheduled' as const },
+        { date: new Date(2025, 0, 13, 9, 30).toISOString(), status: 'scheduled' as const },
+      ],
+    };
+    const now = new Date(2025, 0, 14, 9, 0);
+
+    const occurrences = refreshOccurrences(open, now);
+
+    expect(occurrences[0].status).toBe('missed');
+    // Still within a day of its time, so it can be shared late
+    expect(occurrences[1].status).toBe('scheduled');
+    expect(occurrences[2]).toEqual({ date: new Date(2025, 0, 20, 9, 30).toISOString(), status: 'scheduled' });
+    expect(getNextOccurrence(open, now)?.date).toBe(new Date(2025, 0, 13, 9, 30).toISOString());
+    expect(getNextOccurrence(open, new Date(2025, 0, 15, 9, 0))).toBeUndefined();
+  });
+
+  it('keeps only the most recent past occurrences', () => {
+    const past = expandRecurrence(start, { frequency: 'daily', interval: 1 }, { limit: MAX_PAST_OCCURRENCES + 10 })
+      .map(date => ({ date: date.toISOString(), status: 'completed' as const }));
+    const now = new Date(past[past.length - 1].date);
+    now.setHours(12);
+
+    const occurrences = refreshOccurrences(
+      { ...reminder, recurrence: { frequency: 'daily', interval: 1 }, occurrences: past },
+      now
+    );
+
+    expect(occurrences.filter(o => new Date(o.date) < now)).toHaveLength(MAX_PAST_OCCURRENCES);
+    expect(occurrences[0]).toEqual(past[10]);
+  });
+});
+
+describe('hasScheduleChanged', () => {
+  const reminder = {
+    date: start.toISOString(),
+    recurrence: { frequency: 'weekly' as const, interval: 1, weekdays: [1, 4] },
+  };
+
+  it('ignores a date and rule sent back unchanged', () => {
+    expect(hasScheduleChanged(reminder, {
+      date: new Date(start).toISOString(),
+      recurrence: { frequency: 'weekly', interval: 1, weekdays: [4, 1], until: undefined },
+    })).toBe(false);
+  });
+
+  it('notices a moved date or a different rule', () => {
+    expect(hasScheduleChanged(reminder, { ...reminder, date: new Date(2025, 0, 6, 10, 0).toISOString() })).toBe(true);
+    expect(hasScheduleChanged(reminder, { ...reminder, recurrence: { ...reminder.recurrence, interval: 2 } })).toBe(true);
+    expect(hasScheduleChanged(reminder, { ...reminder, recurrence: undefined })).toBe(true);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes weekly rules with an end', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, weekdays: [4, 1], count: 6 }, start))
+      .toBe('Every 2 weeks on Mon, Thu, 6 times');
+  });
+});
@@ -0,0 +1,63 @@
+import { DEFAULT_REMINDER_FILTERS, filterReminders, matchesReminderQuery } from '../reminderQuery';
+import { DEFAULT_FRAMING } from '../framing';
+import { Reminder } from '../../types/reminder';
+import { ReminderQuery } from '../../types/filters';
+
+const now = new Date(2025, 2, 10, 12, 0);
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: '1',
+  title: 'Spring launch',
+  description: 'New collection teaser',
+  date: new Date(2025, 2, 12, 9, 0).toISOString(),
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true, whatsapp: false },
+  completed: false,
+  shareHistory: [],
+  createdAt: '2025-02-01T10:00:00.000Z',
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const query = (overrides: Partial<ReminderQuery> = {}): ReminderQuery => ({
+  ...DEFAULT_REMINDER_FILTERS,
+  text: '',
+  ...overrides,
+});
+
+describe('matchesReminderQuery', () => {
+  it('matches every search word against title and description, ignoring case', () => {
+    expect(matchesReminderQuery(reminder(), query({ text: 'LAUNCH teaser' }), now)).toBe(true);
+    expect(matchesReminderQuery(reminder(), query({ text: 'launch sale' }), now)).toBe(false);
+  });
+
+  it('treats options within a filter as alternatives and filters as all required', () => {
+    const overdue = reminder({ date: new Date(2025, 2, 9).toISOString() });
+
+    expect(matchesReminderQuery(overdue, query({ statuses: ['upcoming', 'overdue'] }), now)).toBe(true);
+    expect(matchesReminderQuery(overdue, query({ statuses: ['upcoming'] }), now)).toBe(false);
+    expect(matchesReminderQuery(overdue, query({ statuses: ['overdue'], platforms: ['whatsapp'] }), now)).toBe(false);
+    expect(matchesReminderQuery(reminder({ campaignId: 'spring' }), query({ campaignIds: ['spring', 'summer'] }), now)).toBe(true);
+    expect(matchesReminderQuery(reminder(), query({ campaignIds: ['spring'] }), now)).toBe(false);
+  });
+
+  it('limits reminders to the chosen date range', () => {
+    expect(matchesReminderQuery(reminder(), query({ dateRange: { preset: 'next7' } }), now)).toBe(true);
+    expect(matchesReminderQuery(reminder(), query({ dateRange: { preset: 'today' } }), now)).toBe(false);
+    expect(matchesReminderQuery(reminder(), query({
+      dateRange: { preset: 'custom', from: new Date(2025, 2, 12).toISOString(), to: new Date(2025, 2, 12).toISOString() },
+    }), now)).toBe(true);
+  });
+});
+
+describe('filterReminders', () => {
+  it('keeps only shared reminders for the shared status', () => {
+    const shared = reminder({
+      id: '2',
+      shareHistory: [{ platform: 'instagram', sharedAt: '2025-03-01T10:00:00.000Z', outcome: 'shared' }],
+    });
+
+    expect(filterReminders([reminder(), shared], query({ statuses: ['shared'] }), now).map(r => r.id)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,202 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { DEFAULT_FRAMING } from '../framing';
+import { openTestDatabase } from '../__fixtures__/sqliteDatabase';
+import { Reminder } from '../../types/reminder';
+
+jest.mock('expo-sqlite', () => ({ openDatabaseAsync: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: '1',
+  title: 'Launch',
+  description: '',
+  date: '2025-03-10T10:00:00.000Z',
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true, whatsapp: false },
+  completed: false,
+  shareHistory: [],
+  createdAt: '2025-02-01T10:00:00.000Z',
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  ...overrides,
+});
+
+let db: SQLiteDatabase;
+let repository: typeof import('../reminderRepository');
+let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+
+/**
+ * Loads a fresh repository module on a database prepared by the test
+ */
+const openRepository = async (prepare?: (database: SQLiteDatabase) => Promise<void>) => {
+  db = await openTestDatabase();
+  await prepare?.(db);
+  jest.mocked(require('expo-sqlite').openDatabaseAsync).mockResolvedValue(db);
+  repository = require('../reminderRepository');
+  await repository.initializeReminderRepository();
+};
+
+beforeEach(() => {
+  // Recurring reminders are indexed by their next occurrence, which depends on the time
+  jest.useFakeTimers({ now: new Date('2025-03-05T00:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout'] });
+  jest.resetModules();
+  AsyncStorage = jest.requireMock('@react-native-async-storage/async-storage');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('schema', () => {
+  it('creates the tables and records the schema version', async () => {
+    await openRepository();
+
+    const tables = await db.getAllAsync<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name");
+    expect(tables.map(table => table.name)).toEqual(['app_meta', 'caption_templates', 'reminder_platforms', 'reminders']);
+    expect(await db.getFirstAsync('PRAGMA user_version')).toEqual({ user_version: 3 });
+  });
+
+  it('indexes recurrence and campaign of rows written before those columns existed', async () => {
+    await openRepository(async database => {
+      await database.execAsync(`
+        CREATE TABLE reminders (
+          id TEXT PRIMARY KEY NOT NULL, date TEXT NOT NULL, status TEXT NOT NULL,
+          schema_version INTEGER NOT NULL, data TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+        );
+        CREATE TABLE reminder_platforms (reminder_id TEXT NOT NULL, platform TEXT NOT NULL, PRIMARY KEY (reminder_id, platform));
+        CREATE TABLE app_meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+        CREATE TABLE caption_templates (id TEXT PRIMARY KEY NOT NULL, name TEXT NOT NULL, data TEXT NOT NULL, updated_at TEXT NOT NULL);
+        INSERT INTO app_meta (key, value) VALUES ('legacy_async_storage_imported_at', '2025-01-01T00:00:00.000Z');
+        PRAGMA user_version = 2;
+      `);
+      const weekly = reminder({ recurrence: { frequency: 'weekly', interval: 1 }, occurrences: [], campaignId: 'spring' });
+      await database.runAsync(
+        'INSERT INTO reminders VALUES (?, ?, ?, ?, ?, ?, ?)',
+        weekly.id, weekly.date, 'scheduled', 5, JSON.stringify(weekly), weekly.createdAt, weekly.updatedAt
+      );
+    });
+
+    expect((await repository.findRecurringReminders()).map(r => r.id)).toEqual(['1']);
+    expect((await repository.findRemindersByCampaign('spring')).map(r => r.id)).toEqual(['1']);
+  });
+});
+
+describe('reading rows', () => {
+  it('keeps rows from an older schema when writing them back fails', async () => {
+    await openRepository();
+    const old = reminder();
+    await db.runAsync(
+      'INSERT INTO reminders (id, date, status, schema_version, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      old.id, old.date, 'scheduled', 4, JSON.stringify(old), old.createdAt, old.updatedAt
+    );
+    const runAsync = db.runAsync.bind(db);
+    const failingWrite = jest.spyOn(db, 'runAsync').mockImplementation(((source: string, ...params: never[]) =>
+      source.includes('INSERT INTO reminders')
+        ? Promise.reject(new Error('database is locked'))
+        : runAsync(source, ...params)) as typeof db.runAsync);
+
+    await expect(repository.findAllReminders()).rejects.toThrow('database is locked');
+
+    failingWrite.mockRestore();
+    expect(await db.getFirstAsync('SELECT schema_version FROM reminders')).toEqual({ schema_version: 4 });
+    expect(await AsyncStorage.getItem('snaply_reminders_quarantine')).toBeNull();
+    expect((await repository.findAllReminders()).map(r => r.id)).toEqual(['1']);
+  });
+
+  it('skips caption templates that cannot be read', async () => {
+    await openRepository();
+    await db.runAsync(
+      "INSERT INTO caption_templates (id, name, data, updated_at) VALUES ('bad', 'Bad', '{ broken', '2025-01-01')"
+    );
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await repository.findAllCaptionTemplates()).toEqual([]);
+  });
+});
+
+describe('legacy import', () => {
+  it('imports the AsyncStorage reminders and quarantines unreadable ones', async () => {
+    await AsyncStorage.setItem('snaply_reminders', JSON.stringify([
+      { id: 'old', title: 'Old post', timestamp: Date.UTC(2025, 0, 6, 9) },
+      { title: 'No id' },
+    ]));
+
+    await openRepository();
+
+    const reminders = await repository.findAllReminders();
+    expect(reminders.map(r => [r.id, r.date])).toEqual([['old', '2025-01-06T09:00:00.000Z']]);
+    expect(JSON.parse(await AsyncStorage.getItem('snaply_reminders_quarantine') ?? '[]')).toHaveLength(1);
+    // Marks the import as done so it never runs again
+    expect(await db.getFirstAsync('SELECT key FROM app_meta')).toEqual({ key: 'legacy_async_storage_imported_at' });
+  });
+
+  it('keeps an unreadable quarantine list under its own key', async () => {
+    await AsyncStorage.setItem('snaply_reminders', '{ broken');
+    await AsyncStorage.setItem('snaply_reminders_quarantine', '[{ broken');
+
+    await openRepository();
+
+    const keys = await AsyncStorage.getAllKeys();
+    const movedKey = keys.find(key => key.startsWith('snaply_reminders_quarantine_unreadable_'));
+    expect(await AsyncStorage.getItem(movedKey ?? '')).toBe('[{ broken');
+    expect(JSON.parse(await AsyncStorage.getItem('snaply_reminders_quarantine') ?? '[]')).toEqual([
+      expect.objectContaining({ raw: '{ broken', reason: 'Reminder store is not valid JSON' }),
+    ]);
+  });
+});
+
+describe('queries', () => {
+  beforeEach(async () => {
+    await openRepository();
+    for (const stored of [
+      reminder({ id: 'past', date: '2025-03-01T10:00:00.000Z' }),
+      reminder({
+        id: 'next',
+        platforms: { instagram: false, whatsapp: true },
+        media: [{ id: 'a', uri: 'file:///a.mov', type: 'video', mimeType: 'video/quicktime', thumbnailUri: 'file:///a.jpg' }],
+      }),
+      reminder({ id: 'done', date: '2025-03-12T10:00:00.000Z', completed: true }),
+      reminder({ id: 'trashed', date: '2025-03-11T10:00:00.000Z', deletedAt: '2025-03-02T10:00:00.000Z', campaignId: 'spring' }),
+      reminder({
+        id: 'weekly',
+        date: '2025-01-06T10:00:00.000Z',
+        recurrence: { frequency: 'weekly', interval: 1 },
+        occurrences: [{ date: '2025-03-17T10:00:00.000Z', status: 'scheduled' }],
+        campaignId: 'spring',
+      }),
+    ]) {
+      await repository.saveReminder(stored);
+    }
+  });
+
+  it('finds upcoming reminders by their indexed date', async () => {
+    const upcoming = await repository.findUpcomingReminders(new Date('2025-03-05T00:00:00.000Z'));
+
+    expect(upcoming.map(r => r.id)).toEqual(['next', 'weekly']);
+  });
+
+  it('finds reminders in a date range and by status, leaving the trash out of ranges', async () => {
+    const range = await repository.findRemindersByDateRange(
+      new Date('2025-03-10T00:00:00.000Z'),
+      new Date('2025-03-13T00:00:00.000Z')
+    );
+
+    expect(range.map(r => r.id)).toEqual(['next', 'done']);
+    expect((await repository.findRemindersByStatus('deleted')).map(r => r.id)).toEqual(['trashed']);
+    expect((await repository.findActiveReminders()).map(r => r.id)).toEqual(['past', 'next', 'done', 'weekly']);
+  });
+
+  it('finds reminders by platform, recurrence and campaign', async () => {
+    expect((await repository.findRemindersByPlatform('whatsapp')).map(r => r.id)).toEqual(['next']);
+    expect((await repository.findRecurringReminders()).map(r => r.id)).toEqual(['weekly']);
+    expect((await repository.findRemindersByCampaign()).map(r => r.id)).toEqual(['weekly']);
+    expect((await repository.findRemindersByCampaign('spring', true)).map(r => r.id)).toEqual(['trashed', 'weekly']);
+  });
+
+  it('lists the media files of every reminder', async () => {
+    expect((await repository.findReminderMediaUris()).sort()).toEqual(['file:///a.jpg', 'file:///a.mov']);
+  });
+});
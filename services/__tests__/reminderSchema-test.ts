@@ -0,0 +1,155 @@
+import { InvalidReminderRecordError, migrateReminderRecord, REMINDER_SCHEMA_VERSION } from '../reminderSchema';
+import { registerShareTarget } from '../shareTargets';
+import { toWhatsAppOptions } from '../whatsappOptions';
+import { createShareTarget } from '../__fixtures__/shareTargets';
+
+describe('migrateReminderRecord', () => {
+  it('derives the date from a legacy timestamp and fills in defaults', () => {
+    const timestamp = Date.UTC(2025, 0, 6, 9, 0);
+    const reminder = migrateReminderRecord({ id: '1', title: 'Launch', timestamp }, 0);
+
+    expect(reminder).toEqual({
+      id: '1',
+      title: 'Launch',
+      description: '',
+      date: new Date(timestamp).toISOString(),
+      media: [],
+      framing: { mode: 'center-crop', formats: {} },
+      platforms: { instagram: false, whatsapp: false },
+      completed: false,
+      shareHistory: [],
+      createdAt: new Date(timestamp).toISOString(),
+      updatedAt: new Date(timestamp).toISOString(),
+    });
+    expect(reminder).not.toHaveProperty('timestamp');
+  });
+
+  it('keeps fields that are already valid', () => {
+    const record = {
+      id: '2',
+      title: 'Weekly post',
+      description: 'Caption',
+      date: '2025-02-01T10:00:00.000Z',
+      media: [
+        { id: 'a', uri: 'file:///photos/a.jpg', type: 'image', mimeType: 'image/jpeg', crop: { x: 0.1, y: 0, width: 0.5, height: 0.9 } },
+        { id: 'b', uri: 'file:///photos/b.mov', type: 'video', mimeType: 'video/quicktime', thumbnailUri: 'file:///photos/b.jpg', duration: 12000 },
+      ],
+      framing: { mode: 'manual', formats: { instagram: 'portrait', whatsapp: 'story' } },
+      overlay: { source: 'custom', text: 'New drop', font: 'serif', color: '#FFFFFF', pillColor: '#FF3B30', position: 'top' },
+      platforms: { instagram: true, whatsapp: false, telegram: true },
+      captions: { instagram: 'New drop #launch' },
+      targetOptions: {
+        instagram_stories: { layout: 'sticker', topColor: '#833AB4', bottomColor: '#FCAF45' },
+        whatsapp: { recipients: ['442079460958'], app: 'business' },
+      },
+      completed: true,
+      campaignId: 'launch',
+      shareHistory: [{ platform: 'instagram', sharedAt: '2025-02-01T10:00:05.000Z', outcome: 'shared' }],
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-02T10:00:00.000Z',
+      deletedAt: '2025-01-03T10:00:00.000Z',
+    };
+
+    expect(migrateReminderRecord(record, REMINDER_SCHEMA_VERSION)).toEqual(record);
+  });
+
+  it('turns a single photo into a one-item media list', () => {
+    const reminder = migrateReminderRecord(
+      { id: '5', title: 'Photo', date: '2025-03-01T10:00:00.000Z', photoUri: 'file:///photos/cover.jpg' },
+      1
+    );
+
+    expect(reminder.media).toEqual([{ id: '0', uri: 'file:///photos/cover.jpg', type: 'image', mimeType: 'image/jpeg' }]);
+    expect(reminder).not.toHaveProperty('photoUri');
+  });
+
+  it('turns share success flags into outcomes', () => {
+    const reminder = migrateReminderRecord(
+      {
+        id: '6',
+        title: 'Shared',
+        date: '2025-03-01T10:00:00.000Z',
+        shareHistory: [
+          { platform: 'instagram', sharedAt: '2025-03-01T10:00:05.000Z', success: true },
+          { platform: 'whatsapp', sharedAt: '2025-03-01T10:00:05.000Z', success: false },
+        ],
+      },
+      2
+    );
+
+    expect(reminder.shareHistory).toEqual([
+      { platform: 'instagram', outcome: 'shared', sharedAt: '2025-03-01T10:00:05.000Z' },
+      { platform: 'whatsapp', outcome: 'failed', errorCode: 'unknown', sharedAt: '2025-03-01T10:00:05.000Z' },
+    ]);
+  });
+
+  it('keeps the formats chosen before each target had a default of its own', () => {
+    const reminder = migrateReminderRecord(
+      {
+        id: '7',
+        title: 'Framed',
+        date: '2025-03-01T10:00:00.000Z',
+        framing: { mode: 'fit-blur', formats: { instagram: 'story', whatsapp: 'story' } },
+      },
+      3
+    );
+
+    expect(reminder.framing).toEqual({ mode: 'fit-blur', formats: { instagram: 'story', whatsapp: 'story' } });
+  });
+
+  it('moves story and WhatsApp settings into the target options', () => {
+    const reminder = migrateReminderRecord(
+      {
+        id: '8',
+        title: 'Story',
+        date: '2025-03-01T10:00:00.000Z',
+        story: { layout: 'sticker', topColor: '#833AB4', bottomColor: '#FCAF45' },
+        whatsapp: { recipients: ['442079460958'], app: 'business' },
+      },
+      4
+    );
+
+    expect(reminder.targetOptions).toEqual({
+      instagram_stories: { layout: 'sticker', topColor: '#833AB4', bottomColor: '#FCAF45' },
+      whatsapp: { recipients: ['442079460958'], app: 'business' },
+    });
+    expect(reminder).not.toHaveProperty('story');
+    expect(reminder).not.toHaveProperty('whatsapp');
+  });
+
+  it('lets registered targets validate their options', () => {
+    registerShareTarget(createShareTarget('whatsapp', 'WhatsApp', {
+      options: {
+        defaultValue: { recipients: [], app: 'whatsapp' },
+        parse: toWhatsAppOptions,
+        Editor: () => null,
+      },
+    }));
+
+    const reminder = migrateReminderRecord(
+      {
+        id: '9',
+        title: 'Chats',
+        date: '2025-03-01T10:00:00.000Z',
+        targetOptions: { whatsapp: { recipients: ['442079460958', 'call me'], app: 'signal' }, mastodon: { visibility: 'public' } },
+      },
+      REMINDER_SCHEMA_VERSION
+    );
+
+    expect(reminder.targetOptions).toEqual({
+      whatsapp: { recipients: ['442079460958'], app: 'whatsapp' },
+      mastodon: { visibility: 'public' },
+    });
+  });
+
+  it('rejects records that cannot be repaired', () => {
+    expect(() => migrateReminderRecord('not a record', 0)).toThrow(InvalidReminderRecordError);
+    expect(() => migrateReminderRecord({ title: 'No id', date: '2025-01-01' }, 0)).toThrow(InvalidReminderRecordError);
+    expect(() => migrateReminderRecord({ id: '3', title: 'Bad date', date: 'soon' }, 0)).toThrow(InvalidReminderRecordError);
+  });
+
+  it('refuses records written by a newer schema version', () => {
+    expect(() => migrateReminderRecord({ id: '4', title: 'Future', date: '2025-01-01' }, REMINDER_SCHEMA_VERSION + 1))
+      .toThrow(InvalidReminderRecordError);
+  });
+});
@@ -0,0 +1,38 @@
+import * as FileSystem from 'expo-file-system';
+import { prepareShareFiles, SHARE_DIRECTORY } from '../shareFileService';
+import { ReminderMedia } from '../../types/reminder';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  getInfoAsync: jest.fn(async () => ({ exists: false })),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  copyAsync: jest.fn(async () => undefined),
+  getContentUriAsync: jest.fn(),
+}));
+
+const media: ReminderMedia[] = [
+  { id: 'a', uri: 'file:///photos/a.jpg', type: 'image', mimeType: 'image/jpeg' },
+  { id: 'b', uri: 'file:///photos/b.mov', type: 'video', mimeType: 'video/quicktime' },
+];
+
+describe('prepareShareFiles', () => {
+  it('copies every file into the share directory and hands out file URIs', async () => {
+    const prepared = await prepareShareFiles(media, 'telegram');
+
+    expect(FileSystem.makeDirectoryAsync).toHaveBeenCalledWith(SHARE_DIRECTORY, { intermediates: true });
+    expect(FileSystem.copyAsync).toHaveBeenCalledTimes(2);
+    expect(prepared.map(item => item.uri)).toEqual([
+      expect.stringMatching(/^file:\/\/\/cache\/snaply_share\/\d+-telegram-0\.jpg$/),
+      expect.stringMatching(/^file:\/\/\/cache\/snaply_share\/\d+-telegram-1\.mov$/),
+    ]);
+    expect(FileSystem.getContentUriAsync).not.toHaveBeenCalled();
+    expect(prepared.map(item => item.id)).toEqual(['a', 'b']);
+  });
+
+  it('fails when a file cannot be copied', async () => {
+    jest.mocked(FileSystem.copyAsync).mockRejectedValueOnce(new Error('No such file'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(prepareShareFiles(media, 'x')).rejects.toThrow('Failed to prepare files for sharing');
+  });
+});
@@ -0,0 +1,36 @@
+import { createFailedShareResult, describeShareResult, getLatestShareResults, toShareResult } from '../shareResults';
+import { ShareResult } from '../../types/reminder';
+
+describe('createFailedShareResult', () => {
+  it('keeps the message of the error that was thrown', () => {
+    const result = createFailedShareResult('instagram', 'unknown', new Error('Activity not found'));
+
+    expect(result).toMatchObject({ platform: 'instagram', outcome: 'failed', errorCode: 'unknown', message: 'Activity not found' });
+    expect(describeShareResult(result)).toBe('Sharing failed');
+    expect(describeShareResult(createFailedShareResult('x', 'not_installed'))).toBe('App not installed');
+  });
+});
+
+describe('getLatestShareResults', () => {
+  it('keeps the last attempt of each platform', () => {
+    const history: ShareResult[] = [
+      { platform: 'instagram', outcome: 'failed', errorCode: 'not_installed', sharedAt: '2025-03-01T10:00:00.000Z' },
+      { platform: 'whatsapp', outcome: 'cancelled', sharedAt: '2025-03-01T10:00:00.000Z' },
+      { platform: 'instagram', outcome: 'shared', sharedAt: '2025-03-02T10:00:00.000Z' },
+    ];
+
+    expect(getLatestShareResults(history).map(result => [result.platform, result.outcome])).toEqual([
+      ['instagram', 'shared'],
+      ['whatsapp', 'cancelled'],
+    ]);
+  });
+});
+
+describe('toShareResult', () => {
+  it('drops malformed results and unknown error codes', () => {
+    expect(toShareResult({ platform: 'telegram', outcome: 'failed', errorCode: 'offline', sharedAt: '2025-03-01T10:00:00.000Z' }))
+      .toEqual({ platform: 'telegram', outcome: 'failed', errorCode: 'unknown', sharedAt: '2025-03-01T10:00:00.000Z' });
+    expect(toShareResult({ platform: 'telegram', outcome: 'shared', sharedAt: 'yesterday' })).toBeUndefined();
+    expect(toShareResult({ outcome: 'shared', sharedAt: '2025-03-01T10:00:00.000Z' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  getSelectedShareTargets,
+  getShareableMedia,
+  getShareTargetLabel,
+  getShareTargets,
+  registerShareTarget,
+} from '../shareTargets';
+import { createShareTarget } from '../__fixtures__/shareTargets';
+import { ReminderMedia } from '../../types/reminder';
+
+describe('share target registry', () => {
+  it('lists targets in registration order and replaces a re-registered id in place', () => {
+    registerShareTarget(createShareTarget('instagram', 'Instagram'));
+    registerShareTarget(createShareTarget('telegram', 'Telegram', { mediaTypes: ['image'] }));
+    registerShareTarget(createShareTarget('instagram', 'Instagram Feed'));
+
+    expect(getShareTargets().map(target => target.label)).toEqual(['Instagram Feed', 'Telegram']);
+    expect(getShareTargetLabel('telegram')).toBe('Telegram');
+    expect(getShareTargetLabel('myspace')).toBe('myspace');
+  });
+
+  it('selects registered targets only and filters media by type', () => {
+    const selected = getSelectedShareTargets({ telegram: true, instagram: false, myspace: true });
+    const media: ReminderMedia[] = [
+      { id: 'a', uri: 'file:///a.jpg', type: 'image', mimeType: 'image/jpeg' },
+      { id: 'b', uri: 'file:///b.mp4', type: 'video', mimeType: 'video/mp4' },
+    ];
+
+    expect(selected.map(target => target.id)).toEqual(['telegram']);
+    expect(getShareableMedia(selected[0], media).map(item => item.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,33 @@
+import { getExpiredTrash } from '../trash';
+import { DEFAULT_FRAMING } from '../framing';
+import { Reminder } from '../../types/reminder';
+
+const reminder = (id: string, deletedAt?: string): Reminder => ({
+  id,
+  title: 'Launch',
+  description: '',
+  date: '2025-03-01T10:00:00.000Z',
+  media: [],
+  framing: DEFAULT_FRAMING,
+  platforms: { instagram: true },
+  completed: false,
+  shareHistory: [],
+  createdAt: '2025-02-01T10:00:00.000Z',
+  updatedAt: '2025-02-01T10:00:00.000Z',
+  deletedAt,
+});
+
+describe('getExpiredTrash', () => {
+  it('purges reminders deleted longer ago than the retention period', () => {
+    const now = new Date('2025-03-31T12:00:00.000Z');
+    const trash = [
+      reminder('expired', '2025-03-01T11:59:59.999Z'),
+      reminder('at-cutoff', '2025-03-01T12:00:00.000Z'),
+      reminder('recent', '2025-03-30T12:00:00.000Z'),
+      reminder('not-deleted'),
+    ];
+
+    expect(getExpiredTrash(trash, 30, now).map(r => r.id)).toEqual(['expired']);
+    expect(getExpiredTrash(trash, 1, now).map(r => r.id)).toEqual(['expired', 'at-cutoff']);
+  });
+});
@@ -0,0 +1,29 @@
+import { normalizePhoneNumber, parseRecipients, toWhatsAppOptions } from '../whatsappOptions';
+
+describe('normalizePhoneNumber', () => {
+  it('keeps the digits of international numbers', () => {
+    expect(normalizePhoneNumber('+44 (20) 7946-0958')).toBe('442079460958');
+    expect(normalizePhoneNumber('0049 30 123456')).toBe('4930123456');
+    expect(normalizePhoneNumber('12345')).toBeUndefined();
+    expect(normalizePhoneNumber('call me')).toBeUndefined();
+  });
+});
+
+describe('parseRecipients', () => {
+  it('splits on commas and new lines, dropping repeats', () => {
+    expect(parseRecipients('+44 20 7946 0958,\n442079460958; +1 555 0100 22, abc')).toEqual({
+      recipients: ['442079460958', '1555010022'],
+      invalid: ['abc'],
+    });
+  });
+});
+
+describe('toWhatsAppOptions', () => {
+  it('drops malformed numbers and unknown apps', () => {
+    expect(toWhatsAppOptions({ recipients: ['442079460958', '+44', 7], app: 'signal' })).toEqual({
+      recipients: ['442079460958'],
+      app: 'whatsapp',
+    });
+    expect(toWhatsAppOptions(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Backup Archive
+ *
+ * This module owns the shape of backup archives:
+ * - The archive format and its version
+ * - Validating an archive before anything is restored from it
+ * - Pointing restored reminders at their restored media files
+ * - Merging a restored reminder with one that already exists
+ *
+ * An archive is a zip file holding a JSON manifest and the media files as
+ * they are. The manifest lists each file under the URI it had on the device
+ * that made the backup. Files are copied and zipped natively, so media is
+ * never read into memory as a whole.
+ *
+ * @module backupArchive
+ */
+
+import { Reminder, ShareResult } from '../types/reminder';
+import { AppSettings, ThemePreference } from '../types/settings';
+import { Campaign } from '../types/campaign';
+import { CaptionTemplate } from '../types/template';
+import { InvalidReminderRecordError, migrateReminderRecord, REMINDER_SCHEMA_VERSION } from './reminderSchema';
+import { getExtensionForMimeType, getMimeType } from './mimeTypes';
+import { toCampaigns } from './campaigns';
+import { toCaptionTemplates } from './captionTemplates';
+import { isPlainObject } from './validation';
+
+/**
+ * Marker that identifies a Snaply backup
+ */
+export const BACKUP_FORMAT = 'snaply-backup';
+
+/**
+ * Version of the archive layout written by this build of the app
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * Name of the manifest inside the archive
+ */
+export const BACKUP_MANIFEST = 'manifest.json';
+
+/**
+ * A media file stored in an archive
+ */
+export interface BackupFile {
+  mimeType: string;
+  /** Name of the file inside the archive */
+  name: string;
+}
+
+/**
+ * The manifest describing everything in an archive
+ */
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Reminder schema version the reminders were written with */
+  schemaVersion: number;
+  reminders: Reminder[];
+  campaigns: Campaign[];
+  templates: CaptionTemplate[];
+  settings: AppSettings;
+  theme: ThemePreference;
+  /** Media files keyed by their URI on the device that made the backup */
+  files: Record<string, BackupFile>;
+}
+
+/**
+ * Contents of an archive that passed validation
+ */
+export interface ParsedBackup {
+  reminders: Reminder[];
+  /** Reminders in the archive that could not be repaired and were left out */
+  invalidCount: number;
+  /** Empty for backups made before campaigns existed */
+  campaigns: Campaign[];
+  /** Empty for backups made before caption templates existed */
+  templates: CaptionTemplate[];
+  settings: Partial<AppSettings>;
+  theme?: ThemePreference;
+  files: Record<string, BackupFile>;
+}
+
+/**
+ * What to do with a restored reminder whose id already exists.
+ * `skip` keeps the existing reminder, `merge` keeps whichever was edited
+ * last and combines their share history.
+ */
+export type DuplicateStrategy = 'skip' | 'merge';
+
+/**
+ * Error thrown when a file is not a backup this build of the app can restore
+ */
+export class InvalidBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBackupError';
+  }
+}
+
+const isThemePreference = (value: unknown): value is ThemePreference =>
+  value === 'light' || value === 'dark' || value === 'system';
+
+// Names are generated on export, anything else could point outside the archive
+const isArchiveFileName = (value: unknown): value is string =>
+  typeof value === 'string' && /^[\w-]+(\.\w+)?$/.test(value) && value !== BACKUP_MANIFEST;
+
+/**
+ * Lists every file a set of reminders needs, including video thumbnails,
+ * and names the copy each gets in the archive
+ *
+ * @param reminders - The reminders being backed up
+ * @returns ({ uri: string } & BackupFile)[] - The files, each listed once
+ */
+export const getBackupFiles = (reminders: Reminder[]): ({ uri: string } & BackupFile)[] => {
+  const files = new Map<string, string>();
+  for (const item of reminders.flatMap(reminder => reminder.media)) {
+    files.set(item.uri, item.mimeType);
+    if (item.thumbnailUri) {
+      files.set(item.thumbnailUri, getMimeType(item.thumbnailUri, 'image'));
+    }
+  }
+  return [...files].map(([uri, mimeType], index) => {
+    const extension = getExtensionForMimeType(mimeType);
+    return { uri, mimeType, name: extension ? `media-${index}.${extension}` : `media-${index}` };
+  });
+};
+
+/**
+ * Validates an archive's manifest and migrates its reminders to the current schema
+ *
+ * @param json - Contents of the manifest
+ * @returns ParsedBackup - The reminders, settings and files to restore
+ * @throws InvalidBackupError if the file is not a backup or was made by a newer version of the app
+ */
+export const parseBackupManifest = (json: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new InvalidBackupError('Backup manifest is not valid JSON');
+  }
+
+  if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new InvalidBackupError('File is not a Snaply backup');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new InvalidBackupError(`Backup version ${raw.version} is not supported`);
+  }
+  if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > REMINDER_SCHEMA_VERSION) {
+    throw new InvalidBackupError('Backup was made by a newer version of the app');
+  }
+  if (!Array.isArray(raw.reminders) || !isPlainObject(raw.files)) {
+    throw new InvalidBackupError('Backup is missing its reminders or files');
+  }
+
+  const reminders: Reminder[] = [];
+  let invalidCount = 0;
+  for (const record of raw.reminders) {
+    try {
+      reminders.push(migrateReminderRecord(record, raw.schemaVersion));
+    } catch (error) {
+      if (!(error instanceof InvalidReminderRecordError)) throw error;
+      invalidCount++;
+    }
+  }
+
+  const files: Record<string, BackupFile> = {};
+  for (const [uri, file] of Object.entries(raw.files)) {
+    if (isPlainObject(file) && typeof file.mimeType === 'string' && isArchiveFileName(file.name)) {
+      files[uri] = { mimeType: file.mimeType, name: file.name };
+    }
+  }
+
+  const rawSettings = isPlainObject(raw.settings) ? raw.settings : {};
+  const settings: Partial<AppSettings> = {};
+  if (typeof rawSettings.notificationsEnabled === 'boolean') {
+    settings.notificationsEnabled = rawSettings.notificationsEnabled;
+  }
+  if (typeof rawSettings.trashRetentionDays === 'number' && rawSettings.trashRetentionDays > 0) {
+    settings.trashRetentionDays = rawSettings.trashRetentionDays;
+  }
+
+  return {
+    reminders,
+    invalidCount,
+    campaigns: toCampaigns(raw.campaigns),
+    templates: toCaptionTemplates(raw.templates),
+    settings,
+    theme: isThemePreference(raw.theme) ? raw.theme : undefined,
+    files,
+  };
+};
+
+/**
+ * Points a restored reminder's media at the restored files.
+ * Media whose file was not in the archive is dropped.
+ *
+ * @param reminder - The reminder from the archive
+ * @param restoredUris - New URIs keyed by the URI in the archive
+ * @returns Reminder - The reminder with remapped media
+ */
+export const remapReminderMedia = (reminder: Reminder, restoredUris: Record<string, string>): Reminder => {
+  const lookup = (uri: string): string | undefined =>
+    Object.prototype.hasOwnProperty.call(restoredUris, uri) ? restoredUris[uri] : undefined;
+
+  return {
+    ...reminder,
+    media: reminder.media
+      .filter(item => lookup(item.uri))
+      .map(item => ({
+        ...item,
+        uri: lookup(item.uri) as string,
+        thumbnailUri: item.thumbnailUri ? lookup(item.thumbnailUri) : undefined,
+      })),
+  };
+};
+
+/**
+ * Whether a restored reminder was edited after the existing copy
+ *
+ * @param existing - The reminder already on the device
+ * @param restored - The reminder from the archive
+ * @returns boolean - True if the restored copy should win a merge
+ */
+export const isNewerReminder = (existing: Reminder, restored: Reminder): boolean =>
+  new Date(restored.updatedAt).getTime() > new Date(existing.updatedAt).getTime();
+
+/**
+ * Merges a restored reminder into an existing one with the same id
+ *
+ * @param existing - The reminder already on the device
+ * @param restored - The reminder from the archive, with its media already remapped
+ * @returns Reminder - The copy edited last, with the share history of both
+ */
+export const mergeReminders = (existing: Reminder, restored: Reminder): Reminder => {
+  const base = isNewerReminder(existing, restored) ? restored : existing;
+
+  const history = new Map<string, ShareResult>();
+  for (const entry of [...existing.shareHistory, ...restored.shareHistory]) {
+    history.set(`${entry.platform}:${entry.sharedAt}`, entry);
+  }
+
+  return {
+    ...base,
+    shareHistory: [...history.values()].sort(
+      (a, b) => new Date(a.sharedAt).getTime() - new Date(b.sharedAt).getTime()
+    ),
+  };
+};
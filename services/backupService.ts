@@ -0,0 +1,260 @@
+/**
+ * Backup Service
+ *
+ * This service moves everything the app stores to and from a backup file:
+ * - Exporting reminders (including the trash), campaigns, caption templates, settings, theme
+ *   and media into one zip archive
+ * - Sharing the archive so it can be saved off the device
+ * - Picking an archive and restoring it, with duplicates skipped or merged
+ *
+ * Media files are copied and zipped natively, see `backupArchive` for the layout.
+ *
+ * @module backupService
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { NO_COMPRESSION, unzip, zip } from 'react-native-zip-archive';
+import { findReminderById } from './reminderRepository';
+import { getReminders, getTrashedReminders, restoreReminder } from './reminderService';
+import { getSettings, updateSettings } from './settingsService';
+import { getCampaigns, restoreCampaigns } from './campaignService';
+import { getCaptionTemplates, restoreCaptionTemplates } from './templateService';
+import { importMediaFile } from './photoService';
+import { REMINDER_SCHEMA_VERSION } from './reminderSchema';
+import {
+  BACKUP_FORMAT,
+  BACKUP_MANIFEST,
+  BACKUP_VERSION,
+  BackupFile,
+  BackupManifest,
+  DuplicateStrategy,
+  getBackupFiles,
+  InvalidBackupError,
+  isNewerReminder,
+  mergeReminders,
+  parseBackupManifest,
+  remapReminderMedia,
+} from './backupArchive';
+import { Reminder } from '../types/reminder';
+import { ThemePreference } from '../types/settings';
+
+/**
+ * Directory a picked archive is extracted to while it is restored
+ */
+const RESTORE_DIRECTORY = `${FileSystem.cacheDirectory}snaply_restore/`;
+
+/**
+ * Outcome of restoring a backup
+ */
+export interface BackupImportResult {
+  /** Reminders that did not exist yet */
+  restored: number;
+  /** Existing reminders combined with their copy from the backup */
+  merged: number;
+  /** Existing reminders left untouched */
+  skipped: number;
+  /** Reminders in the backup that could not be read */
+  invalid: number;
+  /** Theme preference saved in the backup, for the caller to apply */
+  theme?: ThemePreference;
+}
+
+/**
+ * Deletes a file or directory from the cache, logging instead of failing
+ *
+ * @param uri - URI of the file or directory
+ * @returns Promise<void>
+ */
+const removeFromCache = (uri: string): Promise<void> =>
+  FileSystem.deleteAsync(uri, { idempotent: true }).catch(error =>
+    console.warn('Failed to remove backup file from the cache:', error)
+  );
+
+/**
+ * Writes a backup archive to the cache, opens the share sheet so it can be
+ * saved to files, cloud storage or another device, and removes it from the
+ * cache again
+ *
+ * @param theme - The current theme preference, kept by the theme context
+ * @returns Promise<void>
+ * @throws Error if the archive cannot be written or shared
+ */
+export const exportBackup = async (theme: ThemePreference): Promise<void> => {
+  const exportedAt = new Date().toISOString();
+  const archiveName = `snaply-backup-${exportedAt.slice(0, 10)}`;
+  const stagingUri = `${FileSystem.cacheDirectory}${archiveName}/`;
+  const archiveUri = `${FileSystem.cacheDirectory}${archiveName}.zip`;
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    await removeFromCache(stagingUri);
+    await removeFromCache(archiveUri);
+    await FileSystem.makeDirectoryAsync(stagingUri, { intermediates: true });
+
+    const reminders = [...await getReminders(), ...await getTrashedReminders()];
+    const files: Record<string, BackupFile> = {};
+    for (const { uri, mimeType, name } of getBackupFiles(reminders)) {
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists) {
+        console.warn('Media file missing from backup:', uri);
+        continue;
+      }
+      await FileSystem.copyAsync({ from: uri, to: `${stagingUri}${name}` });
+      files[uri] = { mimeType, name };
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt,
+      schemaVersion: REMINDER_SCHEMA_VERSION,
+      reminders,
+      campaigns: await getCampaigns(),
+      templates: await getCaptionTemplates(),
+      settings: await getSettings(),
+      theme,
+      files,
+    };
+    await FileSystem.writeAsStringAsync(`${stagingUri}${BACKUP_MANIFEST}`, JSON.stringify(manifest));
+
+    // Photos and videos are compressed already, storing them keeps the export fast
+    await zip(stagingUri, archiveUri, NO_COMPRESSION);
+    await Sharing.shareAsync(archiveUri, {
+      mimeType: 'application/zip',
+      UTI: 'public.zip-archive',
+      dialogTitle: 'Save Snaply Backup',
+    });
+  } catch (error) {
+    console.error('Error exporting backup:', error);
+    throw new Error('Failed to export backup');
+  } finally {
+    await removeFromCache(stagingUri);
+    await removeFromCache(archiveUri);
+  }
+};
+
+/**
+ * Lets the user choose a backup file
+ *
+ * @returns Promise<string | undefined> - URI of the chosen file, undefined if cancelled
+ */
+export const pickBackupFile = async (): Promise<string | undefined> => {
+  // Not filtered by type, some Android file providers report zip files as octet-stream
+  const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+  return result.canceled ? undefined : result.assets[0].uri;
+};
+
+/**
+ * Copies the media files a reminder needs from the extracted archive into
+ * the photo directory and points the reminder at them
+ *
+ * @param reminder - The reminder from the archive
+ * @param files - Media files listed in the manifest
+ * @param restoredUris - Files copied so far, shared between reminders so each is copied once
+ * @returns Promise<Reminder> - The reminder with remapped media
+ */
+const restoreReminderMedia = async (
+  reminder: Reminder,
+  files: Record<string, BackupFile>,
+  restoredUris: Record<string, string>
+): Promise<Reminder> => {
+  const uris = reminder.media.flatMap(item => (item.thumbnailUri ? [item.uri, item.thumbnailUri] : [item.uri]));
+  for (const uri of uris) {
+    if (Object.prototype.hasOwnProperty.call(restoredUris, uri) || !Object.prototype.hasOwnProperty.call(files, uri)) {
+      continue;
+    }
+    const source = `${RESTORE_DIRECTORY}${files[uri].name}`;
+    if (!(await FileSystem.getInfoAsync(source)).exists) {
+      console.warn('Media file missing from the backup archive:', files[uri].name);
+      continue;
+    }
+    restoredUris[uri] = await importMediaFile(source, files[uri].mimeType);
+  }
+  return remapReminderMedia(reminder, restoredUris);
+};
+
+/**
+ * Extracts a picked archive and reads its manifest
+ *
+ * @param uri - URI of the backup file
+ * @returns Promise<string> - Contents of the manifest
+ * @throws InvalidBackupError if the file is not a zip archive with a manifest
+ */
+const extractBackupArchive = async (uri: string): Promise<string> => {
+  await removeFromCache(RESTORE_DIRECTORY);
+  await FileSystem.makeDirectoryAsync(RESTORE_DIRECTORY, { intermediates: true });
+  try {
+    await unzip(uri, RESTORE_DIRECTORY);
+  } catch (error) {
+    console.error('Error extracting backup archive:', error);
+    throw new InvalidBackupError('Backup file is not a zip archive');
+  }
+
+  const manifestUri = `${RESTORE_DIRECTORY}${BACKUP_MANIFEST}`;
+  if (!(await FileSystem.getInfoAsync(manifestUri)).exists) {
+    throw new InvalidBackupError('File is not a Snaply backup');
+  }
+  return FileSystem.readAsStringAsync(manifestUri);
+};
+
+/**
+ * Restores reminders, settings and media from a backup file and schedules
+ * notifications for reminders still in the future. The extracted archive
+ * and the picked copy are removed from the cache afterwards.
+ *
+ * @param uri - URI of the backup file
+ * @param strategy - What to do with reminders that already exist
+ * @returns Promise<BackupImportResult> - How many reminders were restored, merged and skipped
+ * @throws InvalidBackupError if the file is not a backup this version can restore
+ * @throws Error if restoring fails
+ */
+export const importBackup = async (uri: string, strategy: DuplicateStrategy): Promise<BackupImportResult> => {
+  try {
+    const backup = parseBackupManifest(await extractBackupArchive(uri));
+    const result: BackupImportResult = {
+      restored: 0,
+      merged: 0,
+      skipped: 0,
+      invalid: backup.invalidCount,
+      theme: backup.theme,
+    };
+
+    const restoredUris: Record<string, string> = {};
+    for (const reminder of backup.reminders) {
+      const existing = await findReminderById(reminder.id);
+      if (existing && strategy === 'skip') {
+        result.skipped++;
+        continue;
+      }
+
+      if (!existing) {
+        await restoreReminder(await restoreReminderMedia(reminder, backup.files, restoredUris));
+        result.restored++;
+        continue;
+      }
+
+      // Only write the backup's media if its copy of the reminder wins the merge
+      const restored = isNewerReminder(existing, reminder)
+        ? await restoreReminderMedia(reminder, backup.files, restoredUris)
+        : reminder;
+      await restoreReminder(mergeReminders(existing, restored));
+      result.merged++;
+    }
+
+    await restoreCampaigns(backup.campaigns);
+    await restoreCaptionTemplates(backup.templates);
+    await updateSettings(backup.settings);
+    return result;
+  } catch (error) {
+    console.error('Error importing backup:', error);
+    if (error instanceof InvalidBackupError) throw error;
+    throw new Error('Failed to import backup');
+  } finally {
+    await removeFromCache(RESTORE_DIRECTORY);
+    await removeFromCache(uri);
+  }
+};
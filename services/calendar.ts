@@ -0,0 +1,161 @@
+/**
+ * Calendar
+ *
+ * Pure date helpers behind the calendar tab:
+ * - Month grids and weeks of days
+ * - Placing reminders, and each occurrence of recurring ones, on days
+ *
+ * @module calendar
+ */
+
+import { Reminder, ShareTargetId } from '../types/reminder';
+import { expandRecurrence } from './recurrence';
+
+/**
+ * A reminder as it appears on the calendar, recurring reminders appear once per occurrence
+ */
+export interface CalendarEntry {
+  reminder: Reminder;
+  /** When this entry is scheduled, the occurrence date for recurring reminders */
+  date: Date;
+  completed: boolean;
+}
+
+/**
+ * Hours shown in the day list, each is a slot that can be tapped to schedule a post
+ */
+export const DAY_SLOT_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Hour new reminders start at when created from a whole day rather than a slot
+ */
+export const DEFAULT_SLOT_HOUR = 9;
+
+/**
+ * Key identifying a local calendar day, e.g. "2025-03-01"
+ *
+ * @param date - Any time on the day
+ * @returns string - The day key
+ */
+export const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Midnight at the start of a local day
+ *
+ * @param date - Any time on the day
+ * @returns Date - The start of the day
+ */
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Moves a date by whole days, keeping the time of day across daylight saving changes
+ *
+ * @param date - The date to move
+ * @param days - Days to add, negative to go back
+ * @returns Date - The moved date
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * The seven days of the week containing a date, starting on Sunday
+ *
+ * @param date - Any day in the week
+ * @returns Date[] - Midnight of each day
+ */
+export const getWeekDays = (date: Date): Date[] => {
+  const sunday = addDays(startOfDay(date), -date.getDay());
+  return Array.from({ length: 7 }, (_, i) => addDays(sunday, i));
+};
+
+/**
+ * Whole weeks covering a month, padded with days from the neighbouring months
+ *
+ * @param month - Any day in the month
+ * @returns Date[][] - Weeks of seven days, Sunday first
+ */
+export const getMonthGrid = (month: Date): Date[][] => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const weeks = [getWeekDays(first)];
+  // Keep adding weeks while they start inside the month
+  let next = addDays(weeks[0][0], 7);
+  while (next.getMonth() === first.getMonth()) {
+    weeks.push(getWeekDays(next));
+    next = addDays(next, 7);
+  }
+  return weeks;
+};
+
+/**
+ * Dates a reminder falls on within a range. Recurring reminders are expanded
+ * over the whole range, as only the next few occurrences are stored; stored
+ * occurrences supply the status where there is one.
+ */
+const getReminderDates = (reminder: Reminder, start: Date, end: Date): { date: Date; completed: boolean }[] => {
+  if (!reminder.recurrence) {
+    return [{ date: new Date(reminder.date), completed: reminder.completed }];
+  }
+
+  const statuses = new Map((reminder.occurrences ?? []).map(occurrence => [occurrence.date, occurrence.status]));
+  return expandRecurrence(new Date(reminder.date), reminder.recurrence, { from: start, to: end })
+    .filter(date => statuses.get(date.toISOString()) !== 'skipped')
+    .map(date => ({ date, completed: statuses.get(date.toISOString()) === 'completed' }));
+};
+
+/**
+ * Places reminders on the calendar within a range. Recurring reminders appear
+ * on each occurrence that was not skipped.
+ *
+ * @param reminders - The reminders to place
+ * @param start - Start of the range, inclusive
+ * @param end - End of the range, exclusive
+ * @returns CalendarEntry[] - Entries in the range, ordered by date
+ */
+export const getEntriesInRange = (reminders: Reminder[], start: Date, end: Date): CalendarEntry[] => {
+  const entries: CalendarEntry[] = [];
+  for (const reminder of reminders) {
+    for (const { date, completed } of getReminderDates(reminder, start, end)) {
+      if (date >= start && date < end) {
+        entries.push({ reminder, date, completed });
+      }
+    }
+  }
+  return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Groups calendar entries by the day they fall on
+ *
+ * @param entries - The entries to group
+ * @returns Record<string, CalendarEntry[]> - Entries keyed by day key
+ */
+export const groupEntriesByDay = (entries: CalendarEntry[]): Record<string, CalendarEntry[]> => {
+  const days: Record<string, CalendarEntry[]> = {};
+  for (const entry of entries) {
+    const key = toDayKey(entry.date);
+    days[key] = [...(days[key] ?? []), entry];
+  }
+  return days;
+};
+
+/**
+ * Platforms with at least one entry, for the dots under a day in the month grid
+ *
+ * @param entries - Entries on one day
+ * @returns ShareTargetId[] - The platforms used, each once
+ */
+export const getEntryPlatforms = (entries: CalendarEntry[]): ShareTargetId[] => {
+  const platforms = new Set<ShareTargetId>();
+  for (const { reminder } of entries) {
+    for (const platform of Object.keys(reminder.platforms)) {
+      if (reminder.platforms[platform]) {
+        platforms.add(platform);
+      }
+    }
+  }
+  return [...platforms];
+};
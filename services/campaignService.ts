@@ -0,0 +1,142 @@
+/**
+ * Campaign Service
+ *
+ * This service manages the campaigns reminders can be grouped into:
+ * - Creating, renaming and recoloring campaigns
+ * - Deleting campaigns and unassigning their reminders
+ * - Summarising planned, shared and missed posts per campaign
+ *
+ * @module campaignService
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Campaign, CampaignSummary } from '../types/campaign';
+import { summarizeCampaigns, toCampaigns } from './campaigns';
+import { findRemindersByCampaign, saveReminder } from './reminderRepository';
+
+const CAMPAIGNS_STORAGE_KEY = 'snaply_campaigns';
+
+const saveCampaigns = async (campaigns: Campaign[]) => {
+  await AsyncStorage.setItem(CAMPAIGNS_STORAGE_KEY, JSON.stringify(campaigns));
+};
+
+/**
+ * Retrieves all campaigns, oldest first
+ *
+ * @returns Promise<Campaign[]> - Array of all campaigns
+ */
+export const getCampaigns = async (): Promise<Campaign[]> => {
+  try {
+    const campaignsJson = await AsyncStorage.getItem(CAMPAIGNS_STORAGE_KEY);
+    return toCampaigns(campaignsJson ? JSON.parse(campaignsJson) : []);
+  } catch (error) {
+    console.error('Error getting campaigns:', error);
+    return [];
+  }
+};
+
+/**
+ * Creates a new campaign
+ *
+ * @param name - Name shown on the campaign's chips
+ * @param color - Hex color of the campaign's chips
+ * @returns Promise<Campaign> - The created campaign
+ * @throws Error if the campaign cannot be saved
+ */
+export const createCampaign = async (name: string, color: string): Promise<Campaign> => {
+  try {
+    const campaign: Campaign = {
+      id: Date.now().toString(),
+      name: name.trim(),
+      color,
+      createdAt: new Date().toISOString(),
+    };
+    await saveCampaigns([...await getCampaigns(), campaign]);
+    return campaign;
+  } catch (error) {
+    console.error('Error creating campaign:', error);
+    throw new Error('Failed to create campaign');
+  }
+};
+
+/**
+ * Renames or recolors a campaign
+ *
+ * @param id - The ID of the campaign
+ * @param changes - The name and/or color to change
+ * @returns Promise<Campaign | null> - The updated campaign or null if not found
+ * @throws Error if the campaign cannot be saved
+ */
+export const updateCampaign = async (
+  id: string,
+  changes: Partial<Pick<Campaign, 'name' | 'color'>>
+): Promise<Campaign | null> => {
+  try {
+    const campaigns = await getCampaigns();
+    const campaign = campaigns.find(c => c.id === id);
+    if (!campaign) return null;
+
+    const updatedCampaign = { ...campaign, ...changes };
+    await saveCampaigns(campaigns.map(c => (c.id === id ? updatedCampaign : c)));
+    return updatedCampaign;
+  } catch (error) {
+    console.error('Error updating campaign:', error);
+    throw new Error('Failed to update campaign');
+  }
+};
+
+/**
+ * Deletes a campaign. Its reminders, including those in the trash, are kept
+ * but no longer belong to a campaign.
+ *
+ * @param id - The ID of the campaign to delete
+ * @returns Promise<void>
+ * @throws Error if the campaign or its reminders cannot be saved
+ */
+export const deleteCampaign = async (id: string): Promise<void> => {
+  try {
+    for (const reminder of await findRemindersByCampaign(id, true)) {
+      await saveReminder({ ...reminder, campaignId: undefined, updatedAt: new Date().toISOString() });
+    }
+    await saveCampaigns((await getCampaigns()).filter(c => c.id !== id));
+  } catch (error) {
+    console.error('Error deleting campaign:', error);
+    throw new Error('Failed to delete campaign');
+  }
+};
+
+/**
+ * Adds campaigns from a backup that do not exist on this device yet
+ *
+ * @param campaigns - The campaigns to restore
+ * @returns Promise<number> - How many campaigns were added
+ * @throws Error if the campaigns cannot be saved
+ */
+export const restoreCampaigns = async (campaigns: Campaign[]): Promise<number> => {
+  try {
+    const existing = await getCampaigns();
+    const added = campaigns.filter(campaign => !existing.some(c => c.id === campaign.id));
+    if (added.length > 0) {
+      await saveCampaigns([...existing, ...added]);
+    }
+    return added.length;
+  } catch (error) {
+    console.error('Error restoring campaigns:', error);
+    throw new Error('Failed to restore campaigns');
+  }
+};
+
+/**
+ * Counts planned, shared and missed posts for every campaign
+ *
+ * @returns Promise<CampaignSummary[]> - One summary per campaign, oldest campaign first
+ * @throws Error if the reminders cannot be read
+ */
+export const getCampaignSummaries = async (): Promise<CampaignSummary[]> => {
+  try {
+    return summarizeCampaigns(await getCampaigns(), await findRemindersByCampaign());
+  } catch (error) {
+    console.error('Error summarising campaigns:', error);
+    throw new Error('Failed to load campaigns');
+  }
+};
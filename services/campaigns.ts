@@ -0,0 +1,105 @@
+/**
+ * Campaigns
+ *
+ * Pure helpers for campaign tags:
+ * - The colors a campaign can take
+ * - Validating stored campaigns
+ * - Counting planned, shared and missed posts per campaign
+ *
+ * @module campaigns
+ */
+
+import { Campaign, CampaignSummary } from '../types/campaign';
+import { Reminder } from '../types/reminder';
+import { isHexColor, isPlainObject } from './validation';
+
+/**
+ * Colors offered when creating a campaign
+ */
+export const CAMPAIGN_COLORS = [
+  '#007AFF',
+  '#34C759',
+  '#FF9500',
+  '#FF3B30',
+  '#AF52DE',
+  '#FF2D55',
+  '#5AC8FA',
+  '#8E8E93',
+];
+
+/**
+ * Reads a list of campaigns from storage or a backup, dropping entries that
+ * are not usable
+ *
+ * @param raw - The parsed JSON
+ * @returns Campaign[] - The valid campaigns
+ */
+export const toCampaigns = (raw: unknown): Campaign[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(value => {
+    if (!isPlainObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !value.name.trim()) {
+      return [];
+    }
+    return [{
+      id: value.id,
+      name: value.name,
+      color: isHexColor(value.color) ? value.color : CAMPAIGN_COLORS[0],
+      createdAt: typeof value.createdAt === 'string' ? value.createdAt : new Date(0).toISOString(),
+    }];
+  });
+};
+
+/**
+ * Counts the posts of one reminder by outcome. Each occurrence of a recurring
+ * reminder is a post, skipped occurrences are not counted.
+ */
+const countPosts = (reminder: Reminder, now: Date): Omit<CampaignSummary, 'campaign'> => {
+  if (reminder.recurrence && reminder.occurrences) {
+    const counts = { planned: 0, shared: 0, missed: 0 };
+    for (const occurrence of reminder.occurrences) {
+      if (occurrence.status === 'completed') {
+        counts.shared++;
+      } else if (occurrence.status === 'missed') {
+        counts.missed++;
+      } else if (occurrence.status === 'scheduled') {
+        if (new Date(occurrence.date) < now) {
+          counts.missed++;
+        } else {
+          counts.planned++;
+        }
+      }
+    }
+    return counts;
+  }
+
+  if (reminder.completed || reminder.shareHistory.some(entry => entry.outcome === 'shared')) {
+    return { planned: 0, shared: 1, missed: 0 };
+  }
+  return new Date(reminder.date) < now
+    ? { planned: 0, shared: 0, missed: 1 }
+    : { planned: 1, shared: 0, missed: 0 };
+};
+
+/**
+ * Summarises how the posts in each campaign are going
+ *
+ * @param campaigns - The campaigns to summarise
+ * @param reminders - Active reminders, reminders in no campaign are ignored
+ * @param now - The current time, separates planned from missed posts
+ * @returns CampaignSummary[] - One summary per campaign, in the given order
+ */
+export const summarizeCampaigns = (
+  campaigns: Campaign[],
+  reminders: Reminder[],
+  now: Date = new Date()
+): CampaignSummary[] =>
+  campaigns.map(campaign => {
+    const summary: CampaignSummary = { campaign, planned: 0, shared: 0, missed: 0 };
+    for (const reminder of reminders.filter(r => r.campaignId === campaign.id)) {
+      const counts = countPosts(reminder, now);
+      summary.planned += counts.planned;
+      summary.shared += counts.shared;
+      summary.missed += counts.missed;
+    }
+    return summary;
+  });
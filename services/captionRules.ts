@@ -0,0 +1,176 @@
+/**
+ * Caption Rules
+ *
+ * Pure helpers for writing captions:
+ * - Checking captions against each share target's length and hashtag limits
+ * - Choosing each platform's caption, with the description as fallback
+ * - Counting the text that will be shared
+ * - Parsing and inserting hashtags
+ *
+ * @module captionRules
+ */
+
+import { PlatformCaptions, ReminderPlatforms, ShareTargetId } from '../types/reminder';
+import { CaptionLimits } from '../types/shareTarget';
+import { getSelectedShareTargets, getShareTargetLabel } from './shareTargets';
+
+/**
+ * How a caption measures up against one platform's limits
+ */
+export interface CaptionCheck {
+  platform: ShareTargetId;
+  length: number;
+  hashtagCount: number;
+  limits: CaptionLimits;
+  tooLong: boolean;
+  tooManyHashtags: boolean;
+}
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+
+/**
+ * Text sent along with the media when a reminder is shared
+ *
+ * @param title - The reminder title
+ * @param description - The reminder description
+ * @returns string - The caption
+ */
+export const getShareText = (title: string, description: string): string => `${title}\n\n${description}`;
+
+/**
+ * The caption a platform gets, its own caption if it has one, otherwise the description
+ *
+ * @param description - The default caption
+ * @param captions - Per-platform captions
+ * @param platform - The platform being shared to
+ * @returns string - The caption for the platform
+ */
+export const getPlatformDescription = (
+  description: string,
+  captions: PlatformCaptions | undefined,
+  platform: ShareTargetId
+): string => (captions?.[platform]?.trim() ? (captions[platform] as string) : description);
+
+/**
+ * Trims per-platform captions and drops the empty ones
+ *
+ * @param captions - Captions as typed
+ * @returns PlatformCaptions | undefined - The captions to store, undefined if none are left
+ */
+export const normalizePlatformCaptions = (captions: PlatformCaptions): PlatformCaptions | undefined => {
+  const normalized: PlatformCaptions = {};
+  for (const platform of Object.keys(captions)) {
+    const caption = captions[platform]?.trim();
+    if (caption) {
+      normalized[platform] = caption;
+    }
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
+/**
+ * Finds the hashtags in a text
+ *
+ * @param text - The text to search
+ * @returns string[] - Each hashtag as written, in order, repeats included
+ */
+export const extractHashtags = (text: string): string[] => text.match(HASHTAG_PATTERN) ?? [];
+
+/**
+ * Turns typed hashtags into a clean list, adding missing `#` signs and
+ * dropping repeats. Hashtags may be separated by spaces, commas or new lines.
+ *
+ * @param input - The typed hashtags, e.g. "#sale, summer"
+ * @returns string[] - The hashtags, each starting with `#`
+ */
+export const parseHashtags = (input: string): string[] => {
+  const hashtags = input
+    .split(/[\s,]+/)
+    .map(word => word.replace(/^#+/, ''))
+    .filter(word => /^[\p{L}\p{N}_]+$/u.test(word))
+    .map(word => `#${word}`);
+  return hashtags.filter((tag, index) =>
+    hashtags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index
+  );
+};
+
+/**
+ * Appends hashtags to a caption, leaving out any it already contains
+ *
+ * @param caption - The caption to add to
+ * @param hashtags - The hashtags to add
+ * @returns string - The caption with the new hashtags on their own line
+ */
+export const insertHashtags = (caption: string, hashtags: string[]): string => {
+  const existing = new Set(extractHashtags(caption).map(tag => tag.toLowerCase()));
+  const added = hashtags.filter(tag => !existing.has(tag.toLowerCase()));
+  if (added.length === 0) return caption;
+
+  const trimmed = caption.trimEnd();
+  return trimmed ? `${trimmed}\n\n${added.join(' ')}` : added.join(' ');
+};
+
+/**
+ * Checks a caption against the limits of each selected platform.
+ * Platforms without caption limits are left out.
+ *
+ * @param text - The caption as it will be shared
+ * @param platforms - The platforms the reminder shares to
+ * @returns CaptionCheck[] - One check per selected platform that has limits
+ */
+export const checkCaption = (text: string, platforms: ReminderPlatforms): CaptionCheck[] => {
+  // Count characters the way users see them, emoji count once
+  const length = [...text].length;
+  const hashtagCount = extractHashtags(text).length;
+
+  return getSelectedShareTargets(platforms).flatMap(({ id, captionLimits: limits }) => {
+    if (!limits) return [];
+    return [{
+      platform: id,
+      length,
+      hashtagCount,
+      limits,
+      tooLong: length > limits.maxLength,
+      tooManyHashtags: limits.maxHashtags !== undefined && hashtagCount > limits.maxHashtags,
+    }];
+  });
+};
+
+/**
+ * Checks the caption each selected platform will get against its limits
+ *
+ * @param title - The reminder title
+ * @param description - The default caption
+ * @param captions - Per-platform captions
+ * @param platforms - The platforms the reminder shares to
+ * @returns CaptionCheck[] - One check per selected platform that has limits
+ */
+export const checkPlatformCaptions = (
+  title: string,
+  description: string,
+  captions: PlatformCaptions | undefined,
+  platforms: ReminderPlatforms
+): CaptionCheck[] =>
+  getSelectedShareTargets(platforms).flatMap(({ id }) => checkCaption(
+    getShareText(title, getPlatformDescription(description, captions, id)),
+    { [id]: true }
+  ));
+
+/**
+ * Describes each limit a caption goes over, for warnings
+ *
+ * @param checks - Results of `checkCaption`
+ * @returns string[] - One sentence per problem, empty when the caption fits everywhere
+ */
+export const describeCaptionProblems = (checks: CaptionCheck[]): string[] =>
+  checks.flatMap(check => {
+    const name = getShareTargetLabel(check.platform);
+    const problems: string[] = [];
+    if (check.tooLong) {
+      problems.push(`${name} allows ${check.limits.maxLength.toLocaleString('en-US')} characters, this caption has ${check.length.toLocaleString('en-US')}.`);
+    }
+    if (check.tooManyHashtags) {
+      problems.push(`${name} allows ${check.limits.maxHashtags} hashtags, this caption has ${check.hashtagCount}.`);
+    }
+    return problems;
+  });
@@ -0,0 +1,116 @@
+/**
+ * Caption Templates
+ *
+ * Pure helpers for caption templates:
+ * - The placeholders a template can use
+ * - Validating stored and backed up templates
+ * - Filling in placeholders when a reminder is shared
+ *
+ * @module captionTemplates
+ */
+
+import { CaptionTemplate } from '../types/template';
+import { isPlainObject } from './validation';
+
+/**
+ * Values placeholders are filled in with
+ */
+export interface PlaceholderValues {
+  title: string;
+  /** When the post is due */
+  date: Date;
+  /** Name of the reminder's campaign, empty when it has none */
+  campaign: string;
+}
+
+/**
+ * Placeholders a template can use, with a description for the template editor
+ */
+export const TEMPLATE_PLACEHOLDERS: { key: keyof PlaceholderValues | 'weekday'; description: string }[] = [
+  { key: 'title', description: 'Reminder title' },
+  { key: 'date', description: 'Post date, e.g. March 7' },
+  { key: 'weekday', description: 'Day of the week, e.g. Friday' },
+  { key: 'campaign', description: 'Campaign name' },
+];
+
+const PLACEHOLDER_PATTERN = /\{(title|date|weekday|campaign)\}/g;
+
+/**
+ * Reads a template from storage or a backup
+ *
+ * @param raw - The parsed JSON
+ * @returns CaptionTemplate | undefined - The template, or undefined if it is not usable
+ */
+export const toCaptionTemplate = (raw: unknown): CaptionTemplate | undefined => {
+  if (!isPlainObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) {
+    return undefined;
+  }
+  const createdAt = typeof raw.createdAt === 'string' ? raw.createdAt : new Date(0).toISOString();
+  return {
+    id: raw.id,
+    name: raw.name,
+    title: typeof raw.title === 'string' ? raw.title : '',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    createdAt,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : createdAt,
+  };
+};
+
+/**
+ * Reads a list of templates, dropping entries that are not usable
+ *
+ * @param raw - The parsed JSON
+ * @returns CaptionTemplate[] - The valid templates
+ */
+export const toCaptionTemplates = (raw: unknown): CaptionTemplate[] =>
+  Array.isArray(raw) ? raw.flatMap(value => toCaptionTemplate(value) ?? []) : [];
+
+/**
+ * Whether a text uses any placeholders
+ *
+ * @param text - The text to check
+ * @returns boolean - True if the text contains a known placeholder
+ */
+export const hasPlaceholders = (text: string): boolean => new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+
+/**
+ * Fills in the placeholders in a text. Unknown placeholders are left as written.
+ *
+ * @param text - Text containing placeholders such as `{date}`
+ * @param values - The values to fill in
+ * @returns string - The expanded text
+ */
+export const expandPlaceholders = (text: string, values: PlaceholderValues): string =>
+  text.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+    switch (key) {
+      case 'date':
+        return values.date.toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+      case 'weekday':
+        return values.date.toLocaleDateString('en-US', { weekday: 'long' });
+      case 'campaign':
+        return values.campaign;
+      default:
+        return values.title;
+    }
+  });
+
+/**
+ * Expands a reminder's title and caption for sharing. `{title}` inside the
+ * title itself is left empty, in the caption it is the expanded title.
+ *
+ * @param title - The title as stored, possibly with placeholders
+ * @param description - The caption as stored, possibly with placeholders
+ * @param values - Date and campaign to fill in
+ * @returns { title: string; description: string } - The text to share
+ */
+export const expandCaption = (
+  title: string,
+  description: string,
+  values: Omit<PlaceholderValues, 'title'>
+): { title: string; description: string } => {
+  const expandedTitle = expandPlaceholders(title, { ...values, title: '' }).trim();
+  return {
+    title: expandedTitle,
+    description: expandPlaceholders(description, { ...values, title: expandedTitle }),
+  };
+};
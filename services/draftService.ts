@@ -0,0 +1,128 @@
+/**
+ * Draft Service
+ * 
+ * This service keeps unfinished reminders so nothing typed is lost:
+ * - Autosaving the create-reminder form as a draft
+ * - Listing drafts so they can be resumed later
+ * - Removing drafts once they become reminders
+ * 
+ * @module draftService
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReminderDraft } from '../types/draft';
+import { getMimeType } from './mimeTypes';
+import { DEFAULT_FRAMING } from './framing';
+
+const DRAFTS_STORAGE_KEY = 'snaply_drafts';
+
+/**
+ * Drafts saved by older versions may carry a single `photoUri`, no framing,
+ * and story and WhatsApp settings outside the target options
+ */
+type StoredDraft = Omit<ReminderDraft, 'media' | 'framing'> & Partial<Pick<ReminderDraft, 'media' | 'framing'>> & {
+  photoUri?: string;
+  story?: unknown;
+  whatsapp?: unknown;
+};
+
+const toDraft = ({ photoUri, media, framing, story, whatsapp, ...draft }: StoredDraft): ReminderDraft => ({
+  ...draft,
+  framing: framing ?? DEFAULT_FRAMING,
+  media: media ?? (photoUri ? [{ id: '0', uri: photoUri, type: 'image', mimeType: getMimeType(photoUri, 'image') }] : []),
+  targetOptions: story !== undefined || whatsapp !== undefined
+    ? {
+      ...draft.targetOptions,
+      ...(story !== undefined ? { instagram_stories: story } : {}),
+      ...(whatsapp !== undefined ? { whatsapp } : {}),
+    }
+    : draft.targetOptions,
+});
+
+/**
+ * Reads all drafts, most recently edited first
+ * 
+ * @returns Promise<ReminderDraft[]> - Array of all drafts
+ * @throws Error if the drafts cannot be read
+ */
+export const readDrafts = async (): Promise<ReminderDraft[]> => {
+  const draftsJson = await AsyncStorage.getItem(DRAFTS_STORAGE_KEY);
+  const drafts: unknown = draftsJson ? JSON.parse(draftsJson) : [];
+  if (!Array.isArray(drafts)) {
+    throw new SyntaxError('Stored drafts are not a list');
+  }
+  return (drafts as StoredDraft[]).map(toDraft).sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+};
+
+/**
+ * Retrieves all drafts, most recently edited first
+ * 
+ * @returns Promise<ReminderDraft[]> - Array of all drafts, empty if they cannot be read
+ */
+export const getDrafts = async (): Promise<ReminderDraft[]> => {
+  try {
+    return await readDrafts();
+  } catch (error) {
+    console.error('Error getting drafts:', error);
+    return [];
+  }
+};
+
+/**
+ * Retrieves a single draft by ID
+ * 
+ * @param id - The ID of the draft
+ * @returns Promise<ReminderDraft | null> - The draft or null if not found
+ */
+export const getDraft = async (id: string): Promise<ReminderDraft | null> => {
+  const drafts = await getDrafts();
+  return drafts.find(d => d.id === id) ?? null;
+};
+
+/**
+ * Reads the drafts before saving one. Stored drafts that cannot be read are
+ * moved aside under their own key, so autosave keeps working without
+ * overwriting them.
+ * 
+ * @returns Promise<ReminderDraft[]> - The readable drafts, empty if they were moved aside
+ */
+const readDraftsForSave = async (): Promise<ReminderDraft[]> => {
+  try {
+    return await readDrafts();
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    const draftsJson = await AsyncStorage.getItem(DRAFTS_STORAGE_KEY);
+    await AsyncStorage.setItem(`${DRAFTS_STORAGE_KEY}_unreadable_${Date.now()}`, draftsJson ?? '');
+    console.warn('Moved unreadable drafts aside:', error);
+    return [];
+  }
+};
+
+/**
+ * Inserts or replaces a draft
+ * 
+ * @param draft - The draft to save
+ */
+export const saveDraft = async (draft: ReminderDraft) => {
+  try {
+    const drafts = await readDraftsForSave();
+    const updatedDrafts = [draft, ...drafts.filter(d => d.id !== draft.id)];
+    await AsyncStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(updatedDrafts));
+  } catch (error) {
+    console.error('Error saving draft:', error);
+  }
+};
+
+/**
+ * Deletes a draft by ID
+ * 
+ * @param id - The ID of the draft to delete
+ */
+export const deleteDraft = async (id: string) => {
+  try {
+    const drafts = await readDrafts();
+    await AsyncStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts.filter(d => d.id !== id)));
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+  }
+};
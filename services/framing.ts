@@ -0,0 +1,203 @@
+/**
+ * Framing
+ *
+ * Pure geometry for fitting photos into a platform's output format:
+ * - Output sizes for stories and feed posts, and each target's default format
+ * - Crop rectangles for center and manual framing
+ * - Placement of a photo fitted over a blurred background
+ *
+ * @module framing
+ */
+
+import { CropRect, FixedShareFormat, ReminderFraming, ShareFormat, ShareTargetId } from '../types/reminder';
+import { getShareTarget } from './shareTargets';
+
+/**
+ * Pixel size and label of each output format with a fixed size
+ */
+export const SHARE_FORMATS: Record<FixedShareFormat, { label: string; width: number; height: number }> = {
+  story: { label: 'Story 9:16', width: 1080, height: 1920 },
+  square: { label: 'Square 1:1', width: 1080, height: 1080 },
+  portrait: { label: 'Portrait 4:5', width: 1080, height: 1350 },
+};
+
+/**
+ * Every output format in the order they are offered
+ */
+export const SHARE_FORMAT_OPTIONS: { value: ShareFormat; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  ...(Object.keys(SHARE_FORMATS) as FixedShareFormat[]).map(format => ({ value: format, label: SHARE_FORMATS[format].label })),
+];
+
+/**
+ * Longest side of photos shared in their original aspect ratio
+ */
+export const ORIGINAL_MAX_SIDE = 1920;
+
+/**
+ * Format used for share targets that have no default format of their own
+ */
+export const DEFAULT_SHARE_FORMAT: ShareFormat = 'original';
+
+/**
+ * Framing used by reminders that never chose one
+ */
+export const DEFAULT_FRAMING: ReminderFraming = {
+  mode: 'center-crop',
+  formats: {},
+};
+
+/**
+ * Checks whether a format crops photos to a fixed size
+ */
+export const isFixedShareFormat = (format: ShareFormat): format is FixedShareFormat => format !== 'original';
+
+/**
+ * The format a reminder's photos are prepared in for a share target
+ *
+ * @param framing - The reminder's framing
+ * @param target - Id of the share target
+ * @returns ShareFormat - The chosen format, or the target's default if none was chosen
+ */
+export const getShareFormat = (framing: ReminderFraming, target: ShareTargetId): ShareFormat =>
+  Object.prototype.hasOwnProperty.call(framing.formats, target)
+    ? framing.formats[target]
+    : getShareTarget(target)?.defaultFormat ?? DEFAULT_SHARE_FORMAT;
+
+/**
+ * A rectangle in pixels
+ */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The whole image as a relative crop rectangle
+ */
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Clamps a relative crop rectangle so it stays inside the image
+ *
+ * @param crop - The crop rectangle, relative to the image size
+ * @param minSize - Smallest allowed width and height
+ * @returns CropRect - The clamped rectangle
+ */
+export const clampCropRect = (crop: CropRect, minSize = 0.1): CropRect => {
+  const width = clamp(crop.width, minSize, 1);
+  const height = clamp(crop.height, minSize, 1);
+  return {
+    x: clamp(crop.x, 0, 1 - width),
+    y: clamp(crop.y, 0, 1 - height),
+    width,
+    height,
+  };
+};
+
+/**
+ * Finds the largest rectangle with the target aspect ratio that fits inside
+ * a region of the image, centered on that region
+ *
+ * @param imageWidth - Width of the source image in pixels
+ * @param imageHeight - Height of the source image in pixels
+ * @param format - The output format whose aspect ratio to use
+ * @param region - Part of the image to keep, the whole image if omitted
+ * @returns PixelRect - The crop rectangle in whole pixels
+ */
+export const getCropRect = (
+  imageWidth: number,
+  imageHeight: number,
+  format: FixedShareFormat,
+  region: CropRect = FULL_CROP
+): PixelRect => {
+  const { width: targetWidth, height: targetHeight } = SHARE_FORMATS[format];
+  const targetAspect = targetWidth / targetHeight;
+
+  const bounds = clampCropRect(region, 0);
+  const regionX = bounds.x * imageWidth;
+  const regionY = bounds.y * imageHeight;
+  const regionWidth = bounds.width * imageWidth;
+  const regionHeight = bounds.height * imageHeight;
+
+  let width = regionWidth;
+  let height = width / targetAspect;
+  if (height > regionHeight) {
+    height = regionHeight;
+    width = height * targetAspect;
+  }
+
+  return {
+    x: Math.round(regionX + (regionWidth - width) / 2),
+    y: Math.round(regionY + (regionHeight - height) / 2),
+    width: Math.max(1, Math.round(width)),
+    height: Math.max(1, Math.round(height)),
+  };
+};
+
+/**
+ * Turns a relative region into pixels, keeping the region's own aspect ratio
+ *
+ * @param imageWidth - Width of the source image in pixels
+ * @param imageHeight - Height of the source image in pixels
+ * @param region - Part of the image to keep, the whole image if omitted
+ * @returns PixelRect - The region in whole pixels
+ */
+export const getRegionRect = (imageWidth: number, imageHeight: number, region: CropRect = FULL_CROP): PixelRect => {
+  const bounds = clampCropRect(region, 0);
+  return {
+    x: Math.round(bounds.x * imageWidth),
+    y: Math.round(bounds.y * imageHeight),
+    width: Math.max(1, Math.round(bounds.width * imageWidth)),
+    height: Math.max(1, Math.round(bounds.height * imageHeight)),
+  };
+};
+
+/**
+ * Scales a size down so its longest side fits, never scaling up
+ *
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param maxSide - Longest allowed side
+ * @returns { width: number; height: number } - The scaled size in whole pixels
+ */
+export const getScaledSize = (width: number, height: number, maxSide: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+/**
+ * Scales an image to fit inside (`contain`) or fill (`cover`) a frame,
+ * centered on the frame
+ *
+ * @param imageWidth - Width of the source image
+ * @param imageHeight - Height of the source image
+ * @param frameWidth - Width of the frame
+ * @param frameHeight - Height of the frame
+ * @param fit - Whether the whole image must be visible or the whole frame covered
+ * @returns PixelRect - Where to draw the image within the frame
+ */
+export const getFittedRect = (
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number,
+  fit: 'contain' | 'cover'
+): PixelRect => {
+  const scaleX = frameWidth / imageWidth;
+  const scaleY = frameHeight / imageHeight;
+  const scale = fit === 'contain' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+
+  return {
+    x: (frameWidth - width) / 2,
+    y: (frameHeight - height) / 2,
+    width,
+    height,
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * Hashtag Service
+ *
+ * This service keeps the library of saved hashtag sets:
+ * - Creating, editing and deleting named sets
+ * - Counting how often each set is used so the favourites come first
+ *
+ * @module hashtagService
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HashtagSet } from '../types/hashtag';
+
+const HASHTAG_SETS_STORAGE_KEY = 'snaply_hashtag_sets';
+
+const saveHashtagSets = async (sets: HashtagSet[]) => {
+  await AsyncStorage.setItem(HASHTAG_SETS_STORAGE_KEY, JSON.stringify(sets));
+};
+
+/**
+ * Retrieves all hashtag sets, most used first
+ *
+ * @returns Promise<HashtagSet[]> - Array of all hashtag sets
+ */
+export const getHashtagSets = async (): Promise<HashtagSet[]> => {
+  try {
+    const setsJson = await AsyncStorage.getItem(HASHTAG_SETS_STORAGE_KEY);
+    const sets: HashtagSet[] = setsJson ? JSON.parse(setsJson) : [];
+    return sets.sort((a, b) => b.usageCount - a.usageCount || a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting hashtag sets:', error);
+    return [];
+  }
+};
+
+/**
+ * Saves a new hashtag set
+ *
+ * @param name - Name of the set, e.g. "Summer sale"
+ * @param hashtags - Hashtags in the set, each starting with `#`
+ * @returns Promise<HashtagSet> - The created set
+ * @throws Error if the set cannot be saved
+ */
+export const createHashtagSet = async (name: string, hashtags: string[]): Promise<HashtagSet> => {
+  try {
+    const set: HashtagSet = {
+      id: Date.now().toString(),
+      name: name.trim(),
+      hashtags,
+      usageCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await saveHashtagSets([...await getHashtagSets(), set]);
+    return set;
+  } catch (error) {
+    console.error('Error creating hashtag set:', error);
+    throw new Error('Failed to create hashtag set');
+  }
+};
+
+/**
+ * Renames a hashtag set or changes its hashtags
+ *
+ * @param id - The ID of the set
+ * @param changes - The name and/or hashtags to change
+ * @returns Promise<HashtagSet | null> - The updated set or null if not found
+ * @throws Error if the set cannot be saved
+ */
+export const updateHashtagSet = async (
+  id: string,
+  changes: Partial<Pick<HashtagSet, 'name' | 'hashtags'>>
+): Promise<HashtagSet | null> => {
+  try {
+    const sets = await getHashtagSets();
+    const set = sets.find(s => s.id === id);
+    if (!set) return null;
+
+    const updatedSet = { ...set, ...changes };
+    await saveHashtagSets(sets.map(s => (s.id === id ? updatedSet : s)));
+    return updatedSet;
+  } catch (error) {
+    console.error('Error updating hashtag set:', error);
+    throw new Error('Failed to update hashtag set');
+  }
+};
+
+/**
+ * Deletes a hashtag set by ID
+ *
+ * @param id - The ID of the set to delete
+ */
+export const deleteHashtagSet = async (id: string) => {
+  try {
+    await saveHashtagSets((await getHashtagSets()).filter(s => s.id !== id));
+  } catch (error) {
+    console.error('Error deleting hashtag set:', error);
+  }
+};
+
+/**
+ * Counts one more use of a hashtag set
+ *
+ * @param id - The ID of the set that was inserted into a caption
+ */
+export const recordHashtagSetUsage = async (id: string) => {
+  try {
+    const sets = await getHashtagSets();
+    await saveHashtagSets(sets.map(s => (s.id === id ? { ...s, usageCount: s.usageCount + 1 } : s)));
+  } catch (error) {
+    console.error('Error recording hashtag set usage:', error);
+  }
+};
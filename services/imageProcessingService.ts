@@ -0,0 +1,265 @@
+/**
+ * Image Processing Service
+ *
+ * This service prepares photos for each platform right before sharing:
+ * - Cropping to the platform's story or feed aspect ratio
+ * - Keeping the photo's own aspect ratio for chats and the share sheet
+ * - Fitting whole photos over a blurred background
+ * - Resizing and compressing to the platform's preferred size
+ * - Burning a caption overlay into the cover photo
+ *
+ * Processed photos are written as new files in the cache, the original
+ * attached to the reminder is never modified.
+ *
+ * @module imageProcessingService
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { ImageFormat, matchFont, Skia, SkSurface, TileMode } from '@shopify/react-native-skia';
+import {
+  getCropRect,
+  getFittedRect,
+  getRegionRect,
+  getScaledSize,
+  getShareFormat,
+  isFixedShareFormat,
+  ORIGINAL_MAX_SIDE,
+  SHARE_FORMATS,
+} from './framing';
+import { getOverlayFontSize, getOverlayText, layoutOverlay, OVERLAY_FONTS } from './overlayLayout';
+import { getShareTarget } from './shareTargets';
+import { FixedShareFormat, Reminder, ReminderMedia, ShareTargetId, TextOverlay } from '../types/reminder';
+
+/**
+ * Directory for photos composed with Skia, i.e. blurred backgrounds and caption overlays
+ */
+export const PROCESSED_DIRECTORY = `${FileSystem.cacheDirectory}snaply_processed/`;
+
+/**
+ * JPEG quality for share targets that do not set their own
+ */
+const DEFAULT_QUALITY = 0.9;
+
+/**
+ * Blur strength of the fit-blur background, relative to the output width
+ */
+const BACKGROUND_BLUR_RATIO = 0.04;
+
+/**
+ * Crops a photo to the output format and resizes it to the format's size
+ *
+ * @param item - The photo to process
+ * @param format - The output format
+ * @param quality - JPEG quality between 0 and 1
+ * @param manual - Whether to crop within the photo's manual crop region
+ * @returns Promise<string> - URI of the processed copy
+ */
+const cropPhoto = async (item: ReminderMedia, format: FixedShareFormat, quality: number, manual: boolean): Promise<string> => {
+  const { width, height } = SHARE_FORMATS[format];
+  const source = await ImageManipulator.manipulate(item.uri).renderAsync();
+  const rect = getCropRect(source.width, source.height, format, manual ? item.crop : undefined);
+
+  const processed = await ImageManipulator.manipulate(item.uri)
+    .crop({ originX: rect.x, originY: rect.y, width: rect.width, height: rect.height })
+    .resize({ width, height })
+    .renderAsync();
+  const result = await processed.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+  return result.uri;
+};
+
+/**
+ * Keeps a photo's own aspect ratio, or that of its manual crop region, and
+ * scales it down to `ORIGINAL_MAX_SIDE`
+ *
+ * @param item - The photo to process
+ * @param quality - JPEG quality between 0 and 1
+ * @param manual - Whether to keep only the photo's manual crop region
+ * @returns Promise<string> - URI of the processed copy
+ */
+const scalePhoto = async (item: ReminderMedia, quality: number, manual: boolean): Promise<string> => {
+  const source = await ImageManipulator.manipulate(item.uri).renderAsync();
+  const rect = getRegionRect(source.width, source.height, manual ? item.crop : undefined);
+  const size = getScaledSize(rect.width, rect.height, ORIGINAL_MAX_SIDE);
+
+  const processed = await ImageManipulator.manipulate(item.uri)
+    .crop({ originX: rect.x, originY: rect.y, width: rect.width, height: rect.height })
+    .resize(size)
+    .renderAsync();
+  const result = await processed.saveAsync({ compress: quality, format: SaveFormat.JPEG });
+  return result.uri;
+};
+
+/**
+ * Encodes a Skia surface as a JPEG in the processed directory
+ *
+ * @param surface - The surface to save
+ * @param quality - JPEG quality between 0 and 1
+ * @param fileName - Name of the file to write
+ * @returns Promise<string> - URI of the written file
+ */
+const saveSurface = async (surface: SkSurface, quality: number, fileName: string): Promise<string> => {
+  surface.flush();
+  const base64 = surface.makeImageSnapshot().encodeToBase64(ImageFormat.JPEG, Math.round(quality * 100));
+
+  const dirInfo = await FileSystem.getInfoAsync(PROCESSED_DIRECTORY);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(PROCESSED_DIRECTORY, { intermediates: true });
+  }
+  const destination = `${PROCESSED_DIRECTORY}${fileName}`;
+  await FileSystem.writeAsStringAsync(destination, base64, { encoding: FileSystem.EncodingType.Base64 });
+  return destination;
+};
+
+/**
+ * Draws the whole photo centered over a blurred copy that fills the frame
+ *
+ * @param item - The photo to process
+ * @param format - The output format
+ * @param quality - JPEG quality between 0 and 1
+ * @returns Promise<string> - URI of the processed copy
+ */
+const fitPhotoWithBlur = async (item: ReminderMedia, format: FixedShareFormat, quality: number): Promise<string> => {
+  const { width, height } = SHARE_FORMATS[format];
+
+  // Re-encode through the manipulator first so EXIF rotation is applied and large photos are scaled down
+  const normalized = await ImageManipulator.manipulate(item.uri).renderAsync();
+  const longestSide = Math.max(normalized.width, normalized.height);
+  const maxSide = Math.max(width, height);
+  const scaled = longestSide > maxSide
+    ? await ImageManipulator.manipulate(item.uri)
+      .resize(normalized.width >= normalized.height ? { width: maxSide } : { height: maxSide })
+      .renderAsync()
+    : normalized;
+  const { uri: normalizedUri } = await scaled.saveAsync({ format: SaveFormat.JPEG, compress: 1 });
+
+  const image = Skia.Image.MakeImageFromEncoded(await Skia.Data.fromURI(normalizedUri));
+  const surface = Skia.Surface.MakeOffscreen(width, height);
+  if (!image || !surface) {
+    throw new Error('Could not decode photo for blurred framing');
+  }
+
+  const imageRect = Skia.XYWHRect(0, 0, image.width(), image.height());
+  const background = getFittedRect(image.width(), image.height(), width, height, 'cover');
+  const foreground = getFittedRect(image.width(), image.height(), width, height, 'contain');
+
+  const canvas = surface.getCanvas();
+  const blurPaint = Skia.Paint();
+  const blur = width * BACKGROUND_BLUR_RATIO;
+  blurPaint.setImageFilter(Skia.ImageFilter.MakeBlur(blur, blur, TileMode.Clamp, null));
+  canvas.drawImageRect(image, imageRect, Skia.XYWHRect(background.x, background.y, background.width, background.height), blurPaint);
+  canvas.drawImageRect(image, imageRect, Skia.XYWHRect(foreground.x, foreground.y, foreground.width, foreground.height), Skia.Paint());
+
+  const destination = await saveSurface(surface, quality, `${Date.now()}-${item.id}-${format}.jpg`);
+  await FileSystem.deleteAsync(normalizedUri, { idempotent: true });
+  return destination;
+};
+
+/**
+ * Draws caption text, and the pill behind it, over an already framed photo
+ *
+ * @param uri - The framed photo
+ * @param overlay - The overlay settings
+ * @param text - The text to draw
+ * @param quality - JPEG quality between 0 and 1
+ * @param fileName - Name of the file to write in the processed directory
+ * @returns Promise<string> - URI of the flattened copy
+ */
+const drawTextOverlay = async (
+  uri: string,
+  overlay: TextOverlay,
+  text: string,
+  quality: number,
+  fileName: string
+): Promise<string> => {
+  const image = Skia.Image.MakeImageFromEncoded(await Skia.Data.fromURI(uri));
+  const surface = image ? Skia.Surface.MakeOffscreen(image.width(), image.height()) : null;
+  if (!image || !surface) {
+    throw new Error('Could not decode photo for the caption overlay');
+  }
+
+  const width = image.width();
+  const height = image.height();
+  const fontFamily = OVERLAY_FONTS[overlay.font];
+  const font = matchFont({
+    fontFamily: Platform.OS === 'ios' ? fontFamily.ios : fontFamily.android,
+    fontSize: getOverlayFontSize(width),
+    fontWeight: 'bold',
+  });
+  const layout = layoutOverlay(text, width, height, overlay.position, line => font.measureText(line).width);
+
+  const canvas = surface.getCanvas();
+  canvas.drawImage(image, 0, 0);
+
+  if (overlay.pillColor) {
+    const pillPaint = Skia.Paint();
+    pillPaint.setColor(Skia.Color(overlay.pillColor));
+    const { x, y, width: blockWidth, height: blockHeight } = layout.block;
+    canvas.drawRRect(Skia.RRectXY(Skia.XYWHRect(x, y, blockWidth, blockHeight), layout.pillRadius, layout.pillRadius), pillPaint);
+  }
+
+  const textPaint = Skia.Paint();
+  textPaint.setColor(Skia.Color(overlay.color));
+  const { ascent, descent } = font.getMetrics();
+  // ascent is negative, this centers the glyphs within each line box
+  const baseline = (layout.lineHeight - (descent - ascent)) / 2 - ascent;
+  const top = layout.block.y + (layout.block.height - layout.lines.length * layout.lineHeight) / 2;
+  layout.lines.forEach((line, index) => {
+    canvas.drawText(line.text, (width - line.width) / 2, top + index * layout.lineHeight + baseline, textPaint, font);
+  });
+
+  return saveSurface(surface, quality, fileName);
+};
+
+/**
+ * Builds copies of a reminder's photos sized and framed for one platform.
+ * The first photo also gets the reminder's caption overlay burned in.
+ * Targets that use unframed media, e.g. story stickers, get the whole
+ * photos scaled down instead. Videos are passed through unchanged.
+ *
+ * @param reminder - The reminder being shared
+ * @param platform - The platform the media is for
+ * @returns Promise<ReminderMedia[]> - Media to share, in the same order as the reminder's media
+ * @throws Error if a photo cannot be processed
+ */
+export const prepareMediaForPlatform = async (
+  reminder: Reminder,
+  platform: ShareTargetId
+): Promise<ReminderMedia[]> => {
+  const target = getShareTarget(platform);
+  const unframed = target?.usesUnframedMedia?.(reminder) ?? false;
+  const format = unframed ? 'original' : getShareFormat(reminder.framing, platform);
+  const quality = target?.imageQuality ?? DEFAULT_QUALITY;
+  const overlayText = reminder.overlay && !unframed ? getOverlayText(reminder.overlay, reminder.title) : '';
+  const cover = reminder.media.find(item => item.type === 'image');
+
+  try {
+    const prepared: ReminderMedia[] = [];
+    for (const item of reminder.media) {
+      if (item.type !== 'image') {
+        prepared.push(item);
+        continue;
+      }
+
+      const manual = reminder.framing.mode === 'manual' && !unframed;
+      // Photos in their own aspect ratio fill the frame, so there is nothing to blur
+      let uri = !isFixedShareFormat(format)
+        ? await scalePhoto(item, quality, manual)
+        : reminder.framing.mode === 'fit-blur'
+          ? await fitPhotoWithBlur(item, format, quality)
+          : await cropPhoto(item, format, quality, manual);
+
+      if (item === cover && reminder.overlay && overlayText) {
+        const framedUri = uri;
+        uri = await drawTextOverlay(framedUri, reminder.overlay, overlayText, quality, `${Date.now()}-${item.id}-${format}-overlay.jpg`);
+        await FileSystem.deleteAsync(framedUri, { idempotent: true });
+      }
+      prepared.push({ ...item, uri, mimeType: 'image/jpeg', crop: undefined });
+    }
+    return prepared;
+  } catch (error) {
+    console.error('Error processing media:', error);
+    throw new Error('Failed to process media');
+  }
+};
@@ -0,0 +1,97 @@
+/**
+ * Instagram Stories
+ *
+ * Pure helpers for sharing a reminder as an Instagram story:
+ * - Default layout and gradient colors
+ * - Validating stored story settings
+ * - Choosing the background or sticker asset from a reminder's media
+ *
+ * @module instagramStories
+ */
+
+import { ReminderMedia, ShareTargetId } from '../types/reminder';
+import { StoryOptions } from '../types/shareTarget';
+import { isHexColor, isPlainObject } from './validation';
+
+/**
+ * Id of the Instagram Stories share target
+ */
+export const INSTAGRAM_STORIES_TARGET_ID: ShareTargetId = 'instagram_stories';
+
+/**
+ * Gradient colors offered for stickers
+ */
+export const STORY_COLORS = [
+  '#833AB4',
+  '#C13584',
+  '#E1306C',
+  '#F77737',
+  '#FCAF45',
+  '#007AFF',
+  '#34C759',
+  '#000000',
+  '#FFFFFF',
+];
+
+/**
+ * Story settings of reminders that never chose any
+ */
+export const DEFAULT_STORY_OPTIONS: StoryOptions = {
+  layout: 'background',
+  topColor: '#833AB4',
+  bottomColor: '#F77737',
+};
+
+/**
+ * Assets handed to the story composer. A story has either a background
+ * photo or video, or a sticker photo over a two-color gradient.
+ */
+export interface StoryAssets {
+  backgroundImage?: string;
+  backgroundVideo?: string;
+  stickerImage?: string;
+  backgroundTopColor?: string;
+  backgroundBottomColor?: string;
+}
+
+/**
+ * Reads stored story settings
+ *
+ * @param value - The parsed JSON
+ * @returns StoryOptions | undefined - The settings, or undefined if there are none
+ */
+export const toStoryOptions = (value: unknown): StoryOptions | undefined => {
+  if (!isPlainObject(value)) return undefined;
+
+  return {
+    layout: value.layout === 'sticker' ? 'sticker' : 'background',
+    topColor: isHexColor(value.topColor) ? value.topColor : DEFAULT_STORY_OPTIONS.topColor,
+    bottomColor: isHexColor(value.bottomColor) ? value.bottomColor : DEFAULT_STORY_OPTIONS.bottomColor,
+  };
+};
+
+/**
+ * Picks the story assets for a reminder. Stickers must be photos, so a
+ * reminder with only videos shares its first video as the background.
+ *
+ * @param media - Media prepared for the story, in carousel order
+ * @param options - The reminder's story settings
+ * @returns StoryAssets | undefined - The assets, or undefined if there is no media to share
+ */
+export const getStoryAssets = (
+  media: ReminderMedia[],
+  options: StoryOptions = DEFAULT_STORY_OPTIONS
+): StoryAssets | undefined => {
+  const cover = media[0];
+  if (!cover) return undefined;
+
+  const photo = media.find(item => item.type === 'image');
+  if (options.layout === 'sticker' && photo) {
+    return {
+      stickerImage: photo.uri,
+      backgroundTopColor: options.topColor,
+      backgroundBottomColor: options.bottomColor,
+    };
+  }
+  return cover.type === 'video' ? { backgroundVideo: cover.uri } : { backgroundImage: cover.uri };
+};
@@ -0,0 +1,179 @@
+/**
+ * Media Storage Service
+ *
+ * This service keeps the app's media storage tidy:
+ * - Finding photos and videos that no reminder, draft or quarantined record references
+ * - Removing those orphaned files from the photo directory and the cache
+ * - Reporting how much space media takes up
+ *
+ * @module mediaStorageService
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { findReminderMediaUris } from './reminderRepository';
+import { readDrafts } from './draftService';
+import { getQuarantinedReminders } from './reminderStorage';
+import { deletePhoto, PHOTOS_DIRECTORY } from './photoService';
+import { isMediaFile } from './mimeTypes';
+import { PROCESSED_DIRECTORY } from './imageProcessingService';
+import { SHARE_DIRECTORY } from './shareFileService';
+import { collectReferencedUris, isOrphaned, MediaFile } from './orphanedMedia';
+
+/**
+ * Cache folders where the image picker, video thumbnails, image processing
+ * and sharing leave media behind. The cache root is left alone, other
+ * libraries keep files there.
+ */
+const CACHE_MEDIA_DIRECTORIES = [
+  `${FileSystem.cacheDirectory}ImagePicker/`,
+  `${FileSystem.cacheDirectory}VideoThumbnails/`,
+  `${FileSystem.cacheDirectory}ImageManipulator/`,
+  PROCESSED_DIRECTORY,
+  SHARE_DIRECTORY,
+];
+
+/**
+ * Summary of the space used by media files
+ */
+export interface MediaStorageReport {
+  totalSize: number;
+  fileCount: number;
+  orphanedSize: number;
+  orphanedCount: number;
+  /** Largest files first */
+  largestFiles: MediaFile[];
+}
+
+/**
+ * Result of a cleanup run
+ */
+export interface MediaCleanupResult {
+  deletedCount: number;
+  freedSize: number;
+}
+
+/**
+ * Collects every file URI that a reminder, draft or quarantined record still needs
+ *
+ * @returns Promise<Set<string>> - URIs of media and video thumbnails in use
+ * @throws Error if any of them cannot be read, so nothing in use is mistaken for an orphan
+ */
+const getReferencedUris = async (): Promise<Set<string>> => {
+  const [reminderUris, drafts, quarantined] = await Promise.all([
+    findReminderMediaUris(),
+    readDrafts(),
+    getQuarantinedReminders(),
+  ]);
+  return collectReferencedUris(reminderUris, drafts, quarantined.map(entry => entry.raw));
+};
+
+/**
+ * Lists the media files in a directory, without descending into subfolders
+ *
+ * @param directory - URI of the directory, ending in a slash
+ * @param referencedUris - URIs still in use
+ * @returns Promise<MediaFile[]> - The media files found, empty if the directory does not exist
+ */
+const listMediaFiles = async (directory: string, referencedUris: Set<string>): Promise<MediaFile[]> => {
+  const dirInfo = await FileSystem.getInfoAsync(directory);
+  if (!dirInfo.exists || !dirInfo.isDirectory) return [];
+
+  const files: MediaFile[] = [];
+  for (const name of await FileSystem.readDirectoryAsync(directory)) {
+    if (!isMediaFile(name)) continue;
+
+    const uri = `${directory}${name}`;
+    const info = await FileSystem.getInfoAsync(uri, { size: true });
+    if (!info.exists || info.isDirectory) continue;
+
+    files.push({
+      uri,
+      size: info.size,
+      referenced: referencedUris.has(uri),
+      // modificationTime is in seconds
+      modifiedAt: info.modificationTime * 1000,
+    });
+  }
+  return files;
+};
+
+/**
+ * Lists every media file in the photo directory and the cache
+ *
+ * @returns Promise<MediaFile[]> - All media files, each marked as referenced or not
+ */
+const listAllMediaFiles = async (): Promise<MediaFile[]> => {
+  const referencedUris = await getReferencedUris();
+  const directories = [PHOTOS_DIRECTORY, ...CACHE_MEDIA_DIRECTORIES];
+  const files = await Promise.all(directories.map(directory => listMediaFiles(directory, referencedUris)));
+  return files.flat();
+};
+
+/**
+ * Reports how much space media files use and how much a cleanup would free
+ *
+ * @param largestCount - Number of largest files to include
+ * @returns Promise<MediaStorageReport> - The storage report
+ * @throws Error if storage cannot be read
+ */
+export const getMediaStorageReport = async (largestCount = 5): Promise<MediaStorageReport> => {
+  try {
+    const files = await listAllMediaFiles();
+    const now = Date.now();
+    const orphaned = files.filter(file => isOrphaned(file, now));
+
+    return {
+      totalSize: files.reduce((total, file) => total + file.size, 0),
+      fileCount: files.length,
+      orphanedSize: orphaned.reduce((total, file) => total + file.size, 0),
+      orphanedCount: orphaned.length,
+      largestFiles: [...files].sort((a, b) => b.size - a.size).slice(0, largestCount),
+    };
+  } catch (error) {
+    console.error('Error getting media storage report:', error);
+    throw new Error('Failed to read media storage');
+  }
+};
+
+/**
+ * Deletes media files that no reminder or draft references.
+ * Called on startup and from the storage section in Settings.
+ *
+ * @returns Promise<MediaCleanupResult> - How many files were deleted and the space freed
+ * @throws Error if storage cannot be read
+ */
+export const cleanUpOrphanedMedia = async (): Promise<MediaCleanupResult> => {
+  try {
+    const now = Date.now();
+    const orphaned = (await listAllMediaFiles()).filter(file => isOrphaned(file, now));
+
+    const result: MediaCleanupResult = { deletedCount: 0, freedSize: 0 };
+    for (const file of orphaned) {
+      if (await deletePhoto(file.uri)) {
+        result.deletedCount++;
+        result.freedSize += file.size;
+      }
+    }
+    return result;
+  } catch (error) {
+    console.error('Error cleaning up orphaned media:', error);
+    throw new Error('Failed to clean up media');
+  }
+};
+
+/**
+ * Formats a size in bytes for display, e.g. `4.2 MB`
+ *
+ * @param bytes - The size in bytes
+ * @returns string - The formatted size
+ */
+export const formatFileSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+};
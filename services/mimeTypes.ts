@@ -0,0 +1,79 @@
+/**
+ * MIME Types
+ *
+ * Maps media files to the MIME types that share intents and share sheets
+ * expect, so videos are not sent as `image/jpeg`.
+ *
+ * @module mimeTypes
+ */
+
+import { MediaType } from '../types/reminder';
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  '3gp': 'video/3gpp',
+  webm: 'video/webm',
+};
+
+const DEFAULT_MIME_TYPES: Record<MediaType, string> = {
+  image: 'image/jpeg',
+  video: 'video/mp4',
+};
+
+const getExtension = (uri: string): string =>
+  uri.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+
+/**
+ * Guesses the MIME type of a media file from its extension
+ *
+ * @param uri - URI of the media file
+ * @param type - Kind of media, used when the extension is unknown
+ * @returns string - The MIME type
+ */
+export const getMimeType = (uri: string, type: MediaType): string => {
+  const mimeType = MIME_TYPES_BY_EXTENSION[getExtension(uri)];
+
+  return mimeType?.startsWith(`${type}/`) ? mimeType : DEFAULT_MIME_TYPES[type];
+};
+
+/**
+ * Checks whether a file looks like a photo or video from its extension
+ *
+ * @param uri - URI or name of the file
+ * @returns boolean - True for known image and video extensions
+ */
+export const isMediaFile = (uri: string): boolean =>
+  Object.prototype.hasOwnProperty.call(MIME_TYPES_BY_EXTENSION, getExtension(uri));
+
+/**
+ * Returns the usual file extension for a MIME type
+ *
+ * @param mimeType - The MIME type, e.g. `video/quicktime`
+ * @returns string | undefined - The extension without a dot, or undefined if unknown
+ */
+export const getExtensionForMimeType = (mimeType: string): string | undefined =>
+  Object.keys(MIME_TYPES_BY_EXTENSION).find(extension => MIME_TYPES_BY_EXTENSION[extension] === mimeType);
+
+/**
+ * Picks a single MIME type that covers every file in a multi-item share,
+ * e.g. `image/*` for a JPEG and a PNG, or a full wildcard for photos mixed with videos
+ *
+ * @param mimeTypes - MIME types of the files being shared
+ * @returns string - The MIME type to put on the share intent
+ */
+export const getCombinedMimeType = (mimeTypes: string[]): string => {
+  const unique = [...new Set(mimeTypes)];
+  if (unique.length === 1) return unique[0];
+
+  const categories = new Set(unique.map(mimeType => mimeType.split('/')[0]));
+  return categories.size === 1 ? `${[...categories][0]}/*` : '*/*';
+};
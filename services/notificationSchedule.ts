@@ -0,0 +1,75 @@
+/**
+ * Notification Schedule
+ *
+ * Pure helpers for deciding which reminder notifications are handed to the OS.
+ * iOS only keeps 64 pending local notifications per app and drops the rest
+ * silently, so the soonest pending dates across all reminders share one
+ * budget and later ones are scheduled as earlier ones are delivered.
+ *
+ * @module notificationSchedule
+ */
+
+import { Reminder } from '../types/reminder';
+
+/**
+ * Number of notifications kept pending across all reminders, a few below the iOS limit
+ */
+export const NOTIFICATION_BUDGET = 60;
+
+/**
+ * A notification that should be pending with the OS
+ */
+export interface PlannedNotification {
+  /** Notification identifier, stable for a reminder and date */
+  identifier: string;
+  /** The reminder the notification belongs to */
+  reminder: Reminder;
+  /** When the notification fires, as an ISO string */
+  date: string;
+}
+
+/**
+ * Builds the identifier of a reminder's notification
+ *
+ * @param reminder - The reminder
+ * @param date - The date of the occurrence, for recurring reminders
+ * @returns string - The notification identifier
+ */
+export const getNotificationIdentifier = (reminder: Reminder, date: string): string =>
+  reminder.recurrence ? `${reminder.id}:${date}` : reminder.id;
+
+/**
+ * Returns the dates a reminder still needs a notification for
+ *
+ * @param reminder - The reminder
+ * @returns string[] - Dates of pending occurrences, or the reminder's own date
+ */
+const getPendingDates = (reminder: Reminder): string[] => {
+  if (reminder.deletedAt) return [];
+  if (reminder.recurrence) {
+    return (reminder.occurrences ?? []).filter(o => o.status === 'scheduled').map(o => o.date);
+  }
+  return reminder.completed ? [] : [reminder.date];
+};
+
+/**
+ * Picks the soonest future notifications across all reminders, up to the budget
+ *
+ * @param reminders - Every reminder outside the trash
+ * @param now - The current time
+ * @param budget - Maximum number of notifications to return
+ * @returns PlannedNotification[] - The notifications to keep pending, soonest first
+ */
+export const planNotifications = (
+  reminders: Reminder[],
+  now: Date = new Date(),
+  budget: number = NOTIFICATION_BUDGET
+): PlannedNotification[] =>
+  reminders
+    .flatMap(reminder =>
+      getPendingDates(reminder)
+        .filter(date => new Date(date) > now)
+        .map(date => ({ identifier: getNotificationIdentifier(reminder, date), reminder, date }))
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .slice(0, budget);
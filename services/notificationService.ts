@@ -1,6 +1,17 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import { Reminder } from '@/types/reminder';
+import { router } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { refreshRecurringReminders } from './reminderService';
+
+// Key of the last notification the user opened. The OS keeps reporting
+// the last response on every cold start, so it is remembered across launches.
+const HANDLED_NOTIFICATION_STORAGE_KEY = 'snaply_handled_notification';
+let handledKey: string | undefined;
+
+// Identifiers are reused when a reminder is rescheduled, the delivery date tells the notifications apart
+const getResponseKey = (response: Notifications.NotificationResponse) =>
+  `${response.notification.request.identifier}@${response.notification.date}`;
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -42,33 +53,6 @@ export const requestNotificationPermissions = async () => {
   }
 };
 
-// Schedule a notification for a reminder
-export const scheduleReminderNotification = async (reminder: Reminder) => {
-  try {
-    const triggerTime = new Date(reminder.timestamp);
-    
-    // Schedule notification 5 minutes before the reminder time
-    triggerTime.setMinutes(triggerTime.getMinutes() - 5);
-    
-    const notificationId = await Notifications.scheduleNotificationAsync({
-      content: {
-        title: 'Reminder: ' + reminder.title,
-        body: reminder.description,
-        data: { reminderId: reminder.id },
-      },
-      trigger: {
-        type: 'date',
-        date: triggerTime,
-      },
-    });
-    
-    return notificationId;
-  } catch (error) {
-    console.error('Error scheduling notification:', error);
-    throw error;
-  }
-};
-
 // Cancel a scheduled notification
 export const cancelReminderNotification = async (notificationId: string) => {
   try {
@@ -79,20 +63,49 @@ export const cancelReminderNotification = async (notificationId: string) => {
   }
 };
 
-// Handle notification response
+// Handle notification response by opening the reminder it belongs to, once per notification
 export const handleNotificationResponse = (response: Notifications.NotificationResponse) => {
+  const key = getResponseKey(response);
+  if (key === handledKey) return;
+  handledKey = key;
+  AsyncStorage.setItem(HANDLED_NOTIFICATION_STORAGE_KEY, key).catch(error =>
+    console.error('Error saving handled notification:', error)
+  );
+
+  // A delivered notification frees a slot, schedule the next occurrence into it
+  refreshRecurringReminders();
+
   const reminderId = response.notification.request.content.data?.reminderId;
-  if (reminderId) {
-    // Handle notification tap - you can navigate to the reminder details or mark it as completed
-    console.log('Notification tapped for reminder:', reminderId);
+  if (typeof reminderId === 'string') {
+    router.push({
+      pathname: '/reminder/[id]',
+      params: { id: reminderId },
+    });
+  }
+};
+
+// Handle a notification tap that launched the app from a killed state
+export const handleInitialNotificationResponse = async () => {
+  try {
+    const response = await Notifications.getLastNotificationResponseAsync();
+    if (!response) return;
+
+    // Opened on an earlier launch, the app was started normally this time
+    const handled = await AsyncStorage.getItem(HANDLED_NOTIFICATION_STORAGE_KEY);
+    if (handled !== getResponseKey(response)) {
+      handleNotificationResponse(response);
+    }
+  } catch (error) {
+    console.error('Error reading initial notification response:', error);
   }
 };
 
 // Set up notification listeners
 export const setupNotificationListeners = () => {
   // Handle notifications received while app is foregrounded
-  const foregroundSubscription = Notifications.addNotificationReceivedListener(notification => {
-    console.log('Notification received in foreground:', notification);
+  // and fill the slot it freed with the next pending notification
+  const foregroundSubscription = Notifications.addNotificationReceivedListener(() => {
+    refreshRecurringReminders();
   });
 
   // Handle notification response (when user taps notification)
@@ -0,0 +1,71 @@
+/**
+ * Orphaned Media
+ *
+ * Pure helpers that decide which media files a cleanup may delete:
+ * - Collecting the files reminders, drafts and quarantined records still use
+ * - Telling orphaned files apart from files in use or too new to judge
+ *
+ * @module orphanedMedia
+ */
+
+import { ReminderDraft } from '../types/draft';
+
+/**
+ * Files younger than this are never collected, they may belong to a
+ * form that has not been saved as a draft yet
+ */
+export const ORPHAN_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+/**
+ * A single media file found in app storage
+ */
+export interface MediaFile {
+  uri: string;
+  size: number;
+  /** False if no reminder or draft uses the file */
+  referenced: boolean;
+  modifiedAt: number;
+}
+
+// Quarantined records may be partly broken JSON, so their files are found by pattern
+const FILE_URI_PATTERN = /file:\/\/[^"'\s\\]+/g;
+
+/**
+ * Collects every file URI that a reminder, draft or quarantined record still needs.
+ * Quarantined records keep their files so they can still be recovered.
+ *
+ * @param reminderUris - Media and thumbnail URIs of all reminders, including the trash
+ * @param drafts - All saved drafts
+ * @param quarantined - Raw values of quarantined reminder records
+ * @returns Set<string> - URIs of media and video thumbnails in use
+ */
+export const collectReferencedUris = (
+  reminderUris: string[],
+  drafts: ReminderDraft[],
+  quarantined: unknown[] = []
+): Set<string> => {
+  const uris = new Set<string>(reminderUris);
+  for (const raw of quarantined) {
+    const text = typeof raw === 'string' ? raw : JSON.stringify(raw) ?? '';
+    for (const uri of text.match(FILE_URI_PATTERN) ?? []) {
+      uris.add(uri);
+    }
+  }
+  for (const item of drafts.flatMap(draft => draft.media)) {
+    uris.add(item.uri);
+    if (item.thumbnailUri) {
+      uris.add(item.thumbnailUri);
+    }
+  }
+  return uris;
+};
+
+/**
+ * Whether a file can be deleted: nothing uses it and it is older than the grace period
+ *
+ * @param file - The file found in storage
+ * @param now - Current time in milliseconds
+ * @returns boolean - True if the file is orphaned
+ */
+export const isOrphaned = (file: MediaFile, now: number): boolean =>
+  !file.referenced && now - file.modifiedAt > ORPHAN_GRACE_PERIOD_MS;
@@ -0,0 +1,162 @@
+/**
+ * Overlay Layout
+ *
+ * Pure layout for caption text burned into shared photos:
+ * - Fonts, colors and defaults offered by the overlay composer
+ * - Sizes relative to the output frame, shared by the preview and the renderer
+ * - Line wrapping and placement of the text block
+ *
+ * @module overlayLayout
+ */
+
+import { OverlayFont, OverlayPosition, TextOverlay } from '../types/reminder';
+import { PixelRect } from './framing';
+
+/**
+ * Label and system font family of each overlay font
+ */
+export const OVERLAY_FONTS: Record<OverlayFont, { label: string; ios: string; android: string }> = {
+  sans: { label: 'Sans', ios: 'Helvetica', android: 'sans-serif' },
+  serif: { label: 'Serif', ios: 'Georgia', android: 'serif' },
+  mono: { label: 'Mono', ios: 'Courier', android: 'monospace' },
+};
+
+/**
+ * Swatches offered for the text and pill colors
+ */
+export const OVERLAY_COLORS = ['#FFFFFF', '#000000', '#FF3B30', '#FF9500', '#FFCC00', '#34C759', '#007AFF', '#AF52DE'];
+
+/**
+ * Overlay a reminder starts with when the composer is first opened
+ */
+export const DEFAULT_OVERLAY: TextOverlay = {
+  source: 'title',
+  text: '',
+  font: 'sans',
+  color: '#FFFFFF',
+  pillColor: '#000000',
+  position: 'bottom',
+};
+
+/**
+ * Overlay sizes relative to the frame. Everything is relative to the width
+ * except `safeMargin`, which keeps the text clear of the story header and
+ * reply bar and is relative to the height.
+ */
+export const OVERLAY_METRICS = {
+  fontSize: 0.065,
+  /** Line height as a multiple of the font size */
+  lineHeight: 1.25,
+  maxWidth: 0.8,
+  pillPaddingX: 0.04,
+  pillPaddingY: 0.025,
+  pillRadius: 0.03,
+  safeMargin: 0.14,
+};
+
+/**
+ * A wrapped line of overlay text and its measured width in pixels
+ */
+export interface OverlayLine {
+  text: string;
+  width: number;
+}
+
+/**
+ * Pixel layout of an overlay within an output frame
+ */
+export interface OverlayLayout {
+  fontSize: number;
+  lineHeight: number;
+  lines: OverlayLine[];
+  /** Area covered by the pill, the text is centered inside it */
+  block: PixelRect;
+  pillRadius: number;
+}
+
+/**
+ * Resolves the text an overlay shows
+ *
+ * @param overlay - The overlay settings
+ * @param title - Title of the reminder
+ * @returns string - The text to draw, empty if there is nothing to draw
+ */
+export const getOverlayText = (overlay: TextOverlay, title: string): string =>
+  (overlay.source === 'custom' ? overlay.text : title).trim();
+
+/**
+ * Breaks text into lines that fit a width, keeping explicit line breaks.
+ * A single word wider than the limit gets a line of its own.
+ *
+ * @param text - The text to wrap
+ * @param maxWidth - Widest a line may be
+ * @param measure - Returns the drawn width of a string
+ * @returns string[] - The wrapped lines
+ */
+export const wrapText = (text: string, maxWidth: number, measure: (text: string) => number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Font size of overlay text in a frame
+ *
+ * @param frameWidth - Width of the output frame in pixels
+ * @returns number - The font size in pixels
+ */
+export const getOverlayFontSize = (frameWidth: number): number => Math.round(frameWidth * OVERLAY_METRICS.fontSize);
+
+/**
+ * Wraps overlay text and places the block within a frame
+ *
+ * @param text - The text to draw
+ * @param frameWidth - Width of the output frame in pixels
+ * @param frameHeight - Height of the output frame in pixels
+ * @param position - Where the block sits vertically
+ * @param measure - Returns the drawn width of a string at `getOverlayFontSize(frameWidth)`
+ * @returns OverlayLayout - The lines and the block they fill
+ */
+export const layoutOverlay = (
+  text: string,
+  frameWidth: number,
+  frameHeight: number,
+  position: OverlayPosition,
+  measure: (text: string) => number
+): OverlayLayout => {
+  const fontSize = getOverlayFontSize(frameWidth);
+  const lineHeight = fontSize * OVERLAY_METRICS.lineHeight;
+  const lines = wrapText(text, frameWidth * OVERLAY_METRICS.maxWidth, measure)
+    .map(line => ({ text: line, width: measure(line) }));
+
+  const paddingX = frameWidth * OVERLAY_METRICS.pillPaddingX;
+  const paddingY = frameWidth * OVERLAY_METRICS.pillPaddingY;
+  const width = Math.max(0, ...lines.map(line => line.width)) + paddingX * 2;
+  const height = lines.length * lineHeight + paddingY * 2;
+  const margin = frameHeight * OVERLAY_METRICS.safeMargin;
+  const y = position === 'top'
+    ? margin
+    : position === 'bottom'
+      ? frameHeight - margin - height
+      : (frameHeight - height) / 2;
+
+  return {
+    fontSize,
+    lineHeight,
+    lines,
+    block: { x: (frameWidth - width) / 2, y, width, height },
+    pillRadius: frameWidth * OVERLAY_METRICS.pillRadius,
+  };
+};
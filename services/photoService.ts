@@ -4,7 +4,10 @@
  * This service handles all photo-related operations:
  * - Taking photos using the device camera
  * - Selecting photos from the device gallery
+ * - Recording and selecting videos with a duration limit
+ * - Generating video thumbnails
  * - Managing photo permissions
+ * - Importing captured, selected and restored media into app storage
  * - Handling photo storage and cleanup
  * 
  * @module photoService
@@ -12,9 +15,11 @@
 
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
-import { Platform } from 'react-native';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { ReminderMedia } from '../types/reminder';
+import { getExtensionForMimeType, getMimeType } from './mimeTypes';
 
-const PHOTOS_DIRECTORY = `${FileSystem.documentDirectory}snaply_photos/`;
+export const PHOTOS_DIRECTORY = `${FileSystem.documentDirectory}snaply_photos/`;
 
 export const initializePhotoDirectory = async () => {
   const dirInfo = await FileSystem.getInfoAsync(PHOTOS_DIRECTORY);
@@ -23,6 +28,68 @@ export const initializePhotoDirectory = async () => {
   }
 };
 
+/**
+ * Builds a unique file name for an imported media file
+ * 
+ * @param mimeType - MIME type of the file, used for the extension
+ * @returns string - A name like `1736150400000-k3j9x0qa.jpg`
+ */
+const createMediaFileName = (mimeType: string): string => {
+  const extension = getExtensionForMimeType(mimeType) ?? mimeType.split('/')[1] ?? 'bin';
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${Date.now()}-${random}.${extension}`;
+};
+
+/**
+ * Picks a path in the photo directory that no file uses yet
+ * 
+ * @param mimeType - MIME type of the file, used for the extension
+ * @returns Promise<string> - URI of the free path
+ */
+const createMediaDestination = async (mimeType: string): Promise<string> => {
+  await initializePhotoDirectory();
+
+  let destination = `${PHOTOS_DIRECTORY}${createMediaFileName(mimeType)}`;
+  while ((await FileSystem.getInfoAsync(destination)).exists) {
+    destination = `${PHOTOS_DIRECTORY}${createMediaFileName(mimeType)}`;
+  }
+  return destination;
+};
+
+/**
+ * Copies a photo or video into the app's photo directory.
+ * Camera and picker results live in a cache the OS may clear before a post is due,
+ * so every file attached to a reminder is imported first.
+ * 
+ * @param uri - URI of the file returned by the camera or picker
+ * @param mimeType - MIME type of the file
+ * @returns Promise<string> - URI of the copy inside the photo directory
+ * @throws Error if the file cannot be copied
+ */
+export const importMediaFile = async (uri: string, mimeType: string): Promise<string> => {
+  if (uri.startsWith(PHOTOS_DIRECTORY)) {
+    return uri;
+  }
+
+  try {
+    const destination = await createMediaDestination(mimeType);
+    await FileSystem.copyAsync({ from: uri, to: destination });
+    return destination;
+  } catch (error) {
+    console.error('Error importing media file:', error);
+    throw new Error('Failed to import media file');
+  }
+};
+
+/**
+ * Imports a picked photo into the app's photo directory
+ * 
+ * @param asset - The photo returned by the image picker
+ * @returns Promise<string> - URI of the imported photo
+ */
+const importPhotoAsset = (asset: ImagePicker.ImagePickerAsset): Promise<string> =>
+  importMediaFile(asset.uri, asset.mimeType ?? getMimeType(asset.uri, 'image'));
+
 /**
  * Interface for photo capture options
  */
@@ -36,11 +103,47 @@ interface PhotoOptions {
  * Default options for photo capture
  */
 const DEFAULT_OPTIONS: PhotoOptions = {
-  allowsEditing: true,
-  aspect: [4, 3],
   quality: 0.8,
 };
 
+/**
+ * Longest video that can be recorded or picked, in seconds.
+ * Instagram stories and WhatsApp statuses cut longer videos into clips.
+ */
+export const MAX_VIDEO_DURATION_SECONDS = 60;
+
+/**
+ * Interface for video capture options
+ */
+interface VideoOptions {
+  allowsEditing?: boolean;
+  /** Longest allowed video, in seconds */
+  maxDuration?: number;
+}
+
+/**
+ * Default options for video capture
+ */
+const DEFAULT_VIDEO_OPTIONS: VideoOptions = {
+  allowsEditing: true,
+  maxDuration: MAX_VIDEO_DURATION_SECONDS,
+};
+
+/**
+ * A captured or selected photo or video, ready to be attached to a reminder
+ */
+export type CapturedMedia = Omit<ReminderMedia, 'id'>;
+
+/**
+ * Error thrown when a selected video is longer than the allowed duration
+ */
+export class VideoTooLongError extends Error {
+  constructor(maxDuration: number) {
+    super(`Video is longer than ${maxDuration} seconds`);
+    this.name = 'VideoTooLongError';
+  }
+}
+
 /**
  * Requests camera permissions from the user
  * 
@@ -75,7 +178,7 @@ export const requestPhotoLibraryPermission = async (): Promise<boolean> => {
  * Takes a photo using the device camera
  * 
  * @param options - Optional photo capture settings
- * @returns Promise<string | undefined> - URI of the captured photo or undefined if capture failed
+ * @returns Promise<string | undefined> - URI of the imported photo or undefined if capture failed
  */
 export const takePhoto = async (options: PhotoOptions = DEFAULT_OPTIONS): Promise<string | undefined> => {
   try {
@@ -93,7 +196,7 @@ export const takePhoto = async (options: PhotoOptions = DEFAULT_OPTIONS): Promis
       return undefined;
     }
 
-    return result.assets[0].uri;
+    return await importPhotoAsset(result.assets[0]);
   } catch (error) {
     console.error('Error taking photo:', error);
     return undefined;
@@ -104,7 +207,7 @@ export const takePhoto = async (options: PhotoOptions = DEFAULT_OPTIONS): Promis
  * Selects a photo from the device's photo library
  * 
  * @param options - Optional photo selection settings
- * @returns Promise<string | undefined> - URI of the selected photo or undefined if selection failed
+ * @returns Promise<string | undefined> - URI of the imported photo or undefined if selection failed
  */
 export const pickPhoto = async (options: PhotoOptions = DEFAULT_OPTIONS): Promise<string | undefined> => {
   try {
@@ -122,13 +225,160 @@ export const pickPhoto = async (options: PhotoOptions = DEFAULT_OPTIONS): Promis
       return undefined;
     }
 
-    return result.assets[0].uri;
+    return await importPhotoAsset(result.assets[0]);
   } catch (error) {
     console.error('Error picking photo:', error);
     return undefined;
   }
 };
 
+/**
+ * Selects several photos from the device's photo library at once
+ * 
+ * @param selectionLimit - Most photos the user may select
+ * @returns Promise<CapturedMedia[]> - The imported photos in selection order, empty if selection failed
+ */
+export const pickPhotos = async (selectionLimit: number): Promise<CapturedMedia[]> => {
+  try {
+    const hasPermission = await requestPhotoLibraryPermission();
+    if (!hasPermission) {
+      throw new Error('Photo library permission not granted');
+    }
+
+    // Cropping is not available when selecting multiple photos
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: true,
+      selectionLimit,
+      orderedSelection: true,
+      quality: DEFAULT_OPTIONS.quality,
+    });
+
+    if (result.canceled) {
+      return [];
+    }
+
+    const photos: CapturedMedia[] = [];
+    for (const asset of result.assets.slice(0, selectionLimit)) {
+      const uri = await importPhotoAsset(asset);
+      photos.push({ uri, type: 'image', mimeType: getMimeType(uri, 'image') });
+    }
+    return photos;
+  } catch (error) {
+    console.error('Error picking photos:', error);
+    return [];
+  }
+};
+
+/**
+ * Generates a still frame for a video
+ * 
+ * @param uri - URI of the video
+ * @returns Promise<string | undefined> - URI of the thumbnail image or undefined if generation failed
+ */
+export const createVideoThumbnail = async (uri: string): Promise<string | undefined> => {
+  try {
+    const thumbnail = await VideoThumbnails.getThumbnailAsync(uri, { time: 0 });
+    return thumbnail.uri;
+  } catch (error) {
+    console.error('Error creating video thumbnail:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Turns a picked video into media for a reminder
+ * 
+ * @param asset - The video returned by the image picker
+ * @param maxDuration - Longest allowed video, in seconds
+ * @returns Promise<CapturedMedia> - The imported video with its MIME type and thumbnail
+ * @throws VideoTooLongError if the video exceeds the duration limit
+ */
+const toCapturedMedia = async (asset: ImagePicker.ImagePickerAsset, maxDuration: number): Promise<CapturedMedia> => {
+  // Android galleries ignore videoMaxDuration, so check the picked video as well
+  if (asset.duration && asset.duration > maxDuration * 1000) {
+    throw new VideoTooLongError(maxDuration);
+  }
+
+  const mimeType = asset.mimeType ?? getMimeType(asset.uri, 'video');
+  const uri = await importMediaFile(asset.uri, mimeType);
+  const thumbnailUri = await createVideoThumbnail(uri);
+
+  return {
+    uri,
+    type: 'video',
+    mimeType,
+    thumbnailUri: thumbnailUri && await importMediaFile(thumbnailUri, 'image/jpeg'),
+    duration: asset.duration ?? undefined,
+  };
+};
+
+/**
+ * Records a video using the device camera
+ * 
+ * @param options - Optional video capture settings
+ * @returns Promise<CapturedMedia | undefined> - The recorded video or undefined if recording failed
+ * @throws VideoTooLongError if the recorded video exceeds the duration limit
+ */
+export const recordVideo = async (options: VideoOptions = DEFAULT_VIDEO_OPTIONS): Promise<CapturedMedia | undefined> => {
+  const maxDuration = options.maxDuration ?? MAX_VIDEO_DURATION_SECONDS;
+  try {
+    const hasPermission = await requestCameraPermission();
+    if (!hasPermission) {
+      throw new Error('Camera permission not granted');
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      allowsEditing: options.allowsEditing,
+      mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+      videoMaxDuration: maxDuration,
+    });
+
+    if (result.canceled) {
+      return undefined;
+    }
+
+    return await toCapturedMedia(result.assets[0], maxDuration);
+  } catch (error) {
+    if (error instanceof VideoTooLongError) throw error;
+    console.error('Error recording video:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Selects a video from the device's photo library
+ * 
+ * @param options - Optional video selection settings
+ * @returns Promise<CapturedMedia | undefined> - The selected video or undefined if selection failed
+ * @throws VideoTooLongError if the selected video exceeds the duration limit
+ */
+export const pickVideo = async (options: VideoOptions = DEFAULT_VIDEO_OPTIONS): Promise<CapturedMedia | undefined> => {
+  const maxDuration = options.maxDuration ?? MAX_VIDEO_DURATION_SECONDS;
+  try {
+    const hasPermission = await requestPhotoLibraryPermission();
+    if (!hasPermission) {
+      throw new Error('Photo library permission not granted');
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      allowsEditing: options.allowsEditing,
+      mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+      videoMaxDuration: maxDuration,
+    });
+
+    if (result.canceled) {
+      return undefined;
+    }
+
+    return await toCapturedMedia(result.assets[0], maxDuration);
+  } catch (error) {
+    if (error instanceof VideoTooLongError) throw error;
+    console.error('Error picking video:', error);
+    return undefined;
+  }
+};
+
 /**
  * Deletes a photo from the device's file system
  * 
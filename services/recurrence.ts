@@ -0,0 +1,260 @@
+/**
+ * Recurrence
+ *
+ * Pure helpers for recurring reminders:
+ * - Expanding a recurrence rule into occurrence dates
+ * - Keeping a reminder's expanded occurrences topped up
+ * - Marking occurrences missed and pruning old ones
+ * - Telling whether an edit changed a reminder's schedule
+ * - Describing a rule for display
+ *
+ * All date math runs in local time so an occurrence keeps its wall-clock
+ * time across daylight saving changes.
+ *
+ * @module recurrence
+ */
+
+import { RecurrenceRule, Reminder, ReminderOccurrence } from '../types/reminder';
+
+/**
+ * How far ahead occurrences are expanded and scheduled
+ */
+export const OCCURRENCE_HORIZON_DAYS = 60;
+
+/**
+ * Upper bound on expanded future occurrences per reminder.
+ * Notifications for them share one budget, see notificationSchedule.
+ */
+export const MAX_UPCOMING_OCCURRENCES = 20;
+
+/**
+ * How long an occurrence stays overdue, and can still be shared, before it
+ * is marked missed
+ */
+export const MISSED_AFTER_HOURS = 24;
+
+/**
+ * Upper bound on past occurrences kept per reminder, the oldest are dropped first
+ */
+export const MAX_PAST_OCCURRENCES = 100;
+
+/**
+ * Safety net so a rule that never matches cannot loop forever
+ */
+const MAX_PERIODS = 5000;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Options for expanding a recurrence rule
+ */
+interface ExpandOptions {
+  /** Only return occurrences at or after this moment */
+  from?: Date;
+  /** Only return occurrences at or before this moment */
+  to?: Date;
+  /** Maximum number of occurrences to return */
+  limit?: number;
+}
+
+const withTimeOf = (day: Date, time: Date): Date =>
+  new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Returns the candidate dates of one period of the rule, in ascending order
+ *
+ * @param start - First occurrence of the series
+ * @param rule - The recurrence rule
+ * @param period - Zero-based period index (day, week or month)
+ */
+const getPeriodDates = (start: Date, rule: RecurrenceRule, period: number): Date[] => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + period * interval);
+      return [withTimeOf(day, start)];
+    }
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0
+        ? [...new Set(rule.weekdays)].sort((a, b) => a - b)
+        : [start.getDay()];
+      const weekStart = start.getDate() - start.getDay() + period * interval * 7;
+      return weekdays.map(weekday =>
+        withTimeOf(new Date(start.getFullYear(), start.getMonth(), weekStart + weekday), start)
+      );
+    }
+    case 'monthly': {
+      const monthDay = rule.monthDay ?? start.getDate();
+      const month = new Date(start.getFullYear(), start.getMonth() + period * interval, 1);
+      if (monthDay > daysInMonth(month.getFullYear(), month.getMonth())) {
+        return [];
+      }
+      return [withTimeOf(new Date(month.getFullYear(), month.getMonth(), monthDay), start)];
+    }
+  }
+};
+
+/**
+ * Expands a recurrence rule into occurrence dates
+ *
+ * @param start - First occurrence of the series; also supplies the time of day
+ * @param rule - The recurrence rule
+ * @param options - Window and limit for the returned occurrences
+ * @returns Date[] - Occurrence dates in ascending order
+ */
+export const expandRecurrence = (start: Date, rule: RecurrenceRule, options: ExpandOptions = {}): Date[] => {
+  const until = rule.until ? new Date(rule.until) : undefined;
+  const limit = options.limit ?? Infinity;
+  const dates: Date[] = [];
+  let seen = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of getPeriodDates(start, rule, period)) {
+      if (date < start) continue;
+      if (until && date > until) return dates;
+      if (options.to && date > options.to) return dates;
+      if (rule.count !== undefined && seen >= rule.count) return dates;
+
+      seen++;
+      if (!options.from || date >= options.from) {
+        dates.push(date);
+        if (dates.length >= limit) return dates;
+      }
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * The moment before which open occurrences count as missed
+ */
+const getMissedBefore = (now: Date): Date => new Date(now.getTime() - MISSED_AFTER_HOURS * 60 * 60 * 1000);
+
+/**
+ * Merges newly expanded occurrences into a reminder's occurrence list,
+ * keeping the status of occurrences that were already expanded. Open
+ * occurrences past the grace period are marked missed, and only the most
+ * recent past occurrences are kept.
+ *
+ * @param reminder - A recurring reminder
+ * @param now - The current time
+ * @returns ReminderOccurrence[] - Occurrences up to the expansion horizon
+ */
+export const refreshOccurrences = (reminder: Reminder, now: Date = new Date()): ReminderOccurrence[] => {
+  if (!reminder.recurrence) return reminder.occurrences ?? [];
+
+  const missedBefore = getMissedBefore(now);
+  const marked = (reminder.occurrences ?? []).map<ReminderOccurrence>(o =>
+    o.status === 'scheduled' && new Date(o.date) < missedBefore ? { ...o, status: 'missed' } : o
+  );
+  const past = marked.filter(o => new Date(o.date) < now).length;
+  const existing = marked.slice(Math.max(0, past - MAX_PAST_OCCURRENCES));
+
+  const start = new Date(reminder.date);
+  const lastExpanded = existing.length > 0 ? new Date(existing[existing.length - 1].date) : undefined;
+  // Occurrences missed while the app was not running are not back-filled
+  const resumeAt = lastExpanded ? new Date(lastExpanded.getTime() + 1) : start;
+  const from = resumeAt > now ? resumeAt : now;
+  const upcoming = existing.filter(o => o.status === 'scheduled' && new Date(o.date) >= now).length;
+  if (upcoming >= MAX_UPCOMING_OCCURRENCES) return existing;
+
+  const horizon = new Date(now);
+  horizon.setDate(horizon.getDate() + OCCURRENCE_HORIZON_DAYS);
+
+  const added = expandRecurrence(start, reminder.recurrence, {
+    from,
+    to: horizon,
+    limit: MAX_UPCOMING_OCCURRENCES - upcoming,
+  }).map<ReminderOccurrence>(date => ({ date: date.toISOString(), status: 'scheduled' }));
+
+  // Always keep at least the next occurrence, even beyond the horizon
+  if (upcoming === 0 && added.length === 0) {
+    const [next] = expandRecurrence(start, reminder.recurrence, { from, limit: 1 });
+    if (next) added.push({ date: next.toISOString(), status: 'scheduled' });
+  }
+
+  return [...existing, ...added];
+};
+
+/**
+ * Finds the next occurrence that has not been completed, skipped or missed.
+ * Occurrences past the grace period are passed over even before they are
+ * marked missed.
+ *
+ * @param reminder - A recurring reminder
+ * @param now - The current time
+ * @returns ReminderOccurrence | undefined - The next pending occurrence
+ */
+export const getNextOccurrence = (reminder: Reminder, now: Date = new Date()): ReminderOccurrence | undefined => {
+  const missedBefore = getMissedBefore(now);
+  return reminder.occurrences?.find(o => o.status === 'scheduled' && new Date(o.date) >= missedBefore);
+};
+
+const getTime = (date?: string): number | undefined => (date ? new Date(date).getTime() : undefined);
+
+const isSameRecurrence = (a?: RecurrenceRule, b?: RecurrenceRule): boolean => {
+  if (!a || !b) return a === b;
+  return (
+    a.frequency === b.frequency &&
+    a.interval === b.interval &&
+    [...(a.weekdays ?? [])].sort().join() === [...(b.weekdays ?? [])].sort().join() &&
+    a.monthDay === b.monthDay &&
+    getTime(a.until) === getTime(b.until) &&
+    a.count === b.count
+  );
+};
+
+/**
+ * Tells whether an edit moved a reminder or changed how it repeats.
+ * Edit forms send the date and rule back unchanged, so their presence alone
+ * does not mean the occurrences need to be expanded again.
+ *
+ * @param reminder - The stored reminder
+ * @param updated - The reminder with the edit applied
+ * @returns boolean - True if the date or recurrence rule differ
+ */
+export const hasScheduleChanged = (
+  reminder: Pick<Reminder, 'date' | 'recurrence'>,
+  updated: Pick<Reminder, 'date' | 'recurrence'>
+): boolean =>
+  getTime(reminder.date) !== getTime(updated.date) || !isSameRecurrence(reminder.recurrence, updated.recurrence);
+
+/**
+ * Describes a recurrence rule for display, e.g. "Every 2 weeks on Mon, Thu"
+ *
+ * @param rule - The recurrence rule
+ * @param start - First occurrence of the series
+ * @returns string - Human readable description
+ */
+export const describeRecurrence = (rule: RecurrenceRule, start: Date): string => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [start.getDay()];
+    description += ` on ${[...weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  } else if (rule.frequency === 'monthly') {
+    description += ` on day ${rule.monthDay ?? start.getDate()}`;
+  }
+
+  if (rule.count !== undefined) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${new Date(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+
+  return description;
+};
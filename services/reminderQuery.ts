@@ -0,0 +1,135 @@
+/**
+ * Reminder Query
+ *
+ * Pure matching of reminders against the home screen's search and filters:
+ * - Free text search over title and description
+ * - Platform, status, date range and campaign filters
+ *
+ * @module reminderQuery
+ */
+
+import { Reminder } from '../types/reminder';
+import { DateRangeFilter, ReminderFilters, ReminderQuery, ReminderStatusFilter } from '../types/filters';
+import { getNextOccurrence } from './recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Filters that match every reminder
+ */
+export const DEFAULT_REMINDER_FILTERS: ReminderFilters = {
+  platforms: [],
+  statuses: [],
+  dateRange: { preset: 'any' },
+  campaignIds: [],
+};
+
+/**
+ * Whether a query narrows the list at all
+ *
+ * @param query - The query to check
+ * @returns boolean - True if text or any filter is set
+ */
+export const isQueryActive = (query: ReminderQuery): boolean =>
+  query.text.trim() !== '' ||
+  query.platforms.length > 0 ||
+  query.statuses.length > 0 ||
+  query.campaignIds.length > 0 ||
+  query.dateRange.preset !== 'any';
+
+/**
+ * When a reminder is next due, the next pending occurrence for recurring reminders
+ *
+ * @param reminder - The reminder
+ * @param now - The current time
+ * @returns Date - The due date
+ */
+export const getDueDate = (reminder: Reminder, now: Date = new Date()): Date =>
+  new Date((reminder.recurrence ? getNextOccurrence(reminder, now)?.date : undefined) ?? reminder.date);
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Turns a date range filter into concrete bounds
+ *
+ * @param range - The date range filter
+ * @param now - The current time
+ * @returns { start?: Date; end?: Date } - Inclusive start and exclusive end, unset when open
+ */
+export const getDateRangeBounds = (range: DateRangeFilter, now: Date): { start?: Date; end?: Date } => {
+  const today = startOfDay(now);
+  switch (range.preset) {
+    case 'today':
+      return { start: today, end: new Date(today.getTime() + DAY_MS) };
+    case 'next7':
+      return { start: today, end: new Date(today.getTime() + 7 * DAY_MS) };
+    case 'next30':
+      return { start: today, end: new Date(today.getTime() + 30 * DAY_MS) };
+    case 'past30':
+      return { start: new Date(today.getTime() - 30 * DAY_MS), end: now };
+    case 'custom':
+      return {
+        start: range.from ? startOfDay(new Date(range.from)) : undefined,
+        end: range.to ? new Date(startOfDay(new Date(range.to)).getTime() + DAY_MS) : undefined,
+      };
+    default:
+      return {};
+  }
+};
+
+const matchesStatus = (reminder: Reminder, status: ReminderStatusFilter, now: Date): boolean => {
+  switch (status) {
+    case 'completed':
+      return reminder.completed;
+    case 'shared':
+      return reminder.shareHistory.some(entry => entry.outcome === 'shared');
+    case 'upcoming':
+      return !reminder.completed && getDueDate(reminder, now) >= now;
+    case 'overdue':
+      return !reminder.completed && getDueDate(reminder, now) < now;
+  }
+};
+
+/**
+ * Checks a reminder against a query. Options within a filter are
+ * alternatives, different filters must all match.
+ *
+ * @param reminder - The reminder to check
+ * @param query - The search text and filters
+ * @param now - The current time, used by status and date filters
+ * @returns boolean - True if the reminder matches
+ */
+export const matchesReminderQuery = (reminder: Reminder, query: ReminderQuery, now: Date = new Date()): boolean => {
+  const haystack = `${reminder.title}\n${reminder.description}`.toLowerCase();
+  const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.every(word => haystack.includes(word))) return false;
+
+  if (query.platforms.length > 0 && !query.platforms.some(platform => reminder.platforms[platform])) {
+    return false;
+  }
+
+  if (query.statuses.length > 0 && !query.statuses.some(status => matchesStatus(reminder, status, now))) {
+    return false;
+  }
+
+  if (query.campaignIds.length > 0 && !(reminder.campaignId && query.campaignIds.includes(reminder.campaignId))) {
+    return false;
+  }
+
+  const { start, end } = getDateRangeBounds(query.dateRange, now);
+  const dueDate = getDueDate(reminder, now);
+  if ((start && dueDate < start) || (end && dueDate >= end)) return false;
+
+  return true;
+};
+
+/**
+ * Narrows a list of reminders to those matching a query, keeping their order
+ *
+ * @param reminders - The reminders to filter
+ * @param query - The search text and filters
+ * @param now - The current time
+ * @returns Reminder[] - The matching reminders
+ */
+export const filterReminders = (reminders: Reminder[], query: ReminderQuery, now: Date = new Date()): Reminder[] =>
+  reminders.filter(reminder => matchesReminderQuery(reminder, query, now));
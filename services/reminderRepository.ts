@@ -0,0 +1,513 @@
+/**
+ * Reminder Repository
+ *
+ * This service stores reminders in an embedded SQLite database:
+ * - Opening the database and applying schema migrations
+ * - Importing the legacy AsyncStorage blob once
+ * - Reading and writing single reminders without rewriting the whole list
+ * - Indexed queries by date, status, platform, recurrence and campaign
+ * - Caption templates, kept in the same database
+ *
+ * Each row keeps the full reminder as JSON next to the columns that are
+ * queried, so new optional fields do not need a table migration.
+ *
+ * @module reminderRepository
+ */
+
+import * as SQLite from 'expo-sqlite';
+import { Reminder, ShareTargetId } from '../types/reminder';
+import { CaptionTemplate } from '../types/template';
+import { InvalidReminderRecordError, migrateReminderRecord, REMINDER_SCHEMA_VERSION } from './reminderSchema';
+import { getNextOccurrence } from './recurrence';
+import { toCaptionTemplate } from './captionTemplates';
+import { quarantineReminderData, readReminderStore } from './reminderStorage';
+
+const DATABASE_NAME = 'snaply.db';
+const LEGACY_IMPORT_META_KEY = 'legacy_async_storage_imported_at';
+
+/**
+ * Storage status of a reminder, kept in an indexed column
+ */
+export type ReminderStatus = 'scheduled' | 'completed' | 'deleted';
+
+/**
+ * A row of the `reminders` table
+ */
+interface ReminderRow {
+  id: string;
+  date: string;
+  status: ReminderStatus;
+  schema_version: number;
+  data: string;
+}
+
+/**
+ * Table migrations, applied in order and tracked with `PRAGMA user_version`
+ */
+const SCHEMA_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS reminders (
+    id TEXT PRIMARY KEY NOT NULL,
+    date TEXT NOT NULL,
+    status TEXT NOT NULL,
+    schema_version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_reminders_date ON reminders (date);
+  CREATE INDEX IF NOT EXISTS idx_reminders_status_date ON reminders (status, date);
+  CREATE TABLE IF NOT EXISTS reminder_platforms (
+    reminder_id TEXT NOT NULL REFERENCES reminders (id) ON DELETE CASCADE,
+    platform TEXT NOT NULL,
+    PRIMARY KEY (reminder_id, platform)
+  );
+  CREATE INDEX IF NOT EXISTS idx_reminder_platforms_platform ON reminder_platforms (platform, reminder_id);
+  CREATE TABLE IF NOT EXISTS app_meta (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS caption_templates (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE reminders ADD COLUMN recurring INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE reminders ADD COLUMN campaign_id TEXT;
+  UPDATE reminders SET
+    recurring = json_extract(data, '$.recurrence') IS NOT NULL,
+    campaign_id = json_extract(data, '$.campaignId');
+  CREATE INDEX IF NOT EXISTS idx_reminders_recurring ON reminders (recurring, status);
+  CREATE INDEX IF NOT EXISTS idx_reminders_campaign ON reminders (campaign_id, status);
+  `,
+];
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Applies any table migrations the database has not seen yet
+ *
+ * @param db - The open database
+ */
+const migrateSchema = async (db: SQLite.SQLiteDatabase) => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = row?.user_version ?? 0;
+
+  for (let version = currentVersion; version < SCHEMA_MIGRATIONS.length; version++) {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(SCHEMA_MIGRATIONS[version]);
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+  }
+};
+
+/**
+ * Copies reminders from the legacy AsyncStorage blob into SQLite, once
+ *
+ * @param db - The open database
+ */
+const importLegacyReminders = async (db: SQLite.SQLiteDatabase) => {
+  const imported = await db.getFirstAsync<{ value: string }>(
+    'SELECT value FROM app_meta WHERE key = ?',
+    LEGACY_IMPORT_META_KEY
+  );
+  if (imported) return;
+
+  // Runs the blob through the schema migrations and quarantines unreadable records
+  const legacyReminders = await readReminderStore();
+
+  await db.withTransactionAsync(async () => {
+    for (const reminder of legacyReminders) {
+      await writeReminderRow(db, reminder);
+    }
+    await db.runAsync(
+      'INSERT INTO app_meta (key, value) VALUES (?, ?)',
+      LEGACY_IMPORT_META_KEY,
+      new Date().toISOString()
+    );
+  });
+};
+
+/**
+ * Opens the database, creating and migrating it on first use
+ *
+ * @returns Promise<SQLiteDatabase> - The shared database connection
+ */
+const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+      await migrateSchema(db);
+      await importLegacyReminders(db);
+      return db;
+    })();
+    databasePromise.catch(() => {
+      // Allow the next call to retry instead of caching the failure
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Derives the indexed status column from a reminder
+ */
+const getReminderStatus = (reminder: Reminder): ReminderStatus =>
+  reminder.deletedAt ? 'deleted' : reminder.completed ? 'completed' : 'scheduled';
+
+/**
+ * Derives the indexed date column from a reminder.
+ * Recurring reminders are indexed by their next pending occurrence.
+ */
+const getIndexedDate = (reminder: Reminder): string => {
+  const occurrence = reminder.recurrence ? getNextOccurrence(reminder) : undefined;
+  return new Date(occurrence?.date ?? reminder.date).toISOString();
+};
+
+/**
+ * Inserts or replaces a reminder row and its platform rows
+ *
+ * @param db - The open database
+ * @param reminder - The reminder to write
+ */
+const writeReminderRow = async (db: SQLite.SQLiteDatabase, reminder: Reminder) => {
+  await db.runAsync(
+    `INSERT INTO reminders (id, date, status, recurring, campaign_id, schema_version, data, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       date = excluded.date,
+       status = excluded.status,
+       recurring = excluded.recurring,
+       campaign_id = excluded.campaign_id,
+       schema_version = excluded.schema_version,
+       data = excluded.data,
+       updated_at = excluded.updated_at`,
+    reminder.id,
+    getIndexedDate(reminder),
+    getReminderStatus(reminder),
+    reminder.recurrence ? 1 : 0,
+    reminder.campaignId ?? null,
+    REMINDER_SCHEMA_VERSION,
+    JSON.stringify(reminder),
+    reminder.createdAt,
+    reminder.updatedAt
+  );
+
+  await db.runAsync('DELETE FROM reminder_platforms WHERE reminder_id = ?', reminder.id);
+  for (const [platform, enabled] of Object.entries(reminder.platforms)) {
+    if (enabled) {
+      await db.runAsync(
+        'INSERT INTO reminder_platforms (reminder_id, platform) VALUES (?, ?)',
+        reminder.id,
+        platform
+      );
+    }
+  }
+};
+
+/**
+ * Turns rows into reminders, upgrading rows written by an older schema
+ * version and quarantining rows that can no longer be read
+ *
+ * @param db - The open database
+ * @param rows - Rows selected from the `reminders` table
+ * @returns Promise<Reminder[]> - The readable reminders, in row order
+ * @throws Error if upgraded rows cannot be written back; the rows are left as they were
+ */
+const toReminders = async (db: SQLite.SQLiteDatabase, rows: ReminderRow[]): Promise<Reminder[]> => {
+  const reminders: Reminder[] = [];
+  const upgraded: Reminder[] = [];
+
+  for (const row of rows) {
+    let reminder: Reminder;
+    try {
+      reminder = migrateReminderRecord(JSON.parse(row.data), row.schema_version);
+    } catch (error) {
+      if (!(error instanceof InvalidReminderRecordError || error instanceof SyntaxError)) throw error;
+      if (row.schema_version > REMINDER_SCHEMA_VERSION) {
+        // Written by a newer build; leave it in place for that build to read
+        continue;
+      }
+      await quarantineReminderData([{
+        raw: row.data,
+        reason: error instanceof Error ? error.message : String(error),
+        schemaVersion: row.schema_version,
+        quarantinedAt: new Date().toISOString(),
+      }]);
+      await db.runAsync('DELETE FROM reminders WHERE id = ?', row.id);
+      continue;
+    }
+
+    if (row.schema_version < REMINDER_SCHEMA_VERSION) {
+      upgraded.push(reminder);
+    }
+    reminders.push(reminder);
+  }
+
+  if (upgraded.length > 0) {
+    await db.withTransactionAsync(async () => {
+      for (const reminder of upgraded) {
+        await writeReminderRow(db, reminder);
+      }
+    });
+  }
+
+  return reminders;
+};
+
+/**
+ * Opens the database and imports legacy data.
+ * Called once on startup so the first screen does not pay for it.
+ */
+export const initializeReminderRepository = async () => {
+  await getDatabase();
+};
+
+/**
+ * Retrieves every stored reminder, including those in the trash, ordered by date
+ *
+ * @returns Promise<Reminder[]> - Array of all reminders
+ */
+export const findAllReminders = async (): Promise<Reminder[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>('SELECT * FROM reminders ORDER BY date ASC');
+  return toReminders(db, rows);
+};
+
+/**
+ * Retrieves every reminder outside the trash, ordered by date
+ *
+ * @returns Promise<Reminder[]> - Scheduled and completed reminders
+ */
+export const findActiveReminders = async (): Promise<Reminder[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>(
+    'SELECT * FROM reminders WHERE status IN (?, ?) ORDER BY date ASC',
+    'scheduled',
+    'completed'
+  );
+  return toReminders(db, rows);
+};
+
+/**
+ * Retrieves a single reminder
+ *
+ * @param id - The ID of the reminder
+ * @returns Promise<Reminder | null> - The reminder or null if not found
+ */
+export const findReminderById = async (id: string): Promise<Reminder | null> => {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<ReminderRow>('SELECT * FROM reminders WHERE id = ?', id);
+  if (!row) return null;
+
+  const [reminder] = await toReminders(db, [row]);
+  return reminder ?? null;
+};
+
+/**
+ * Retrieves scheduled reminders that are due at or after a point in time
+ *
+ * @param from - Start of the window, defaults to now
+ * @param limit - Maximum number of reminders to return, all of them when negative
+ * @returns Promise<Reminder[]> - Upcoming reminders, soonest first
+ */
+export const findUpcomingReminders = async (from: Date = new Date(), limit: number = -1): Promise<Reminder[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>(
+    'SELECT * FROM reminders WHERE status = ? AND date >= ? ORDER BY date ASC LIMIT ?',
+    'scheduled',
+    from.toISOString(),
+    limit
+  );
+  return toReminders(db, rows);
+};
+
+/**
+ * Retrieves reminders scheduled within a date range, leaving out the trash
+ *
+ * @param start - Start of the range, inclusive
+ * @param end - End of the range, exclusive
+ * @returns Promise<Reminder[]> - Reminders in the range, ordered by date
+ */
+export const findRemindersByDateRange = async (start: Date, end: Date): Promise<Reminder[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>(
+    'SELECT * FROM reminders WHERE status != ? AND date >= ? AND date < ? ORDER BY date ASC',
+    'deleted',
+    start.toISOString(),
+    end.toISOString()
+  );
+  return toReminders(db, rows);
+};
+
+/**
+ * Retrieves reminders with a given status
+ *
+ * @param status - The status to match
+ * @returns Promise<Reminder[]> - Matching reminders, ordered by date
+ */
+export const findRemindersByStatus = async (status: ReminderStatus): Promise<Reminder[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>(
+    'SELECT * FROM reminders WHERE status = ? ORDER BY date ASC',
+    status
+  );
+  return toReminders(db, rows);
+};
+
+/**
+ * Retrieves reminders that will be shared to a platform, leaving out the trash
+ *
+ * @param platform - The platform to match
+ * @returns Promise<Reminder[]> - Matching reminders, ordered by date
+ */
+export const findRemindersByPlatform = async (platform: ShareTargetId): Promise<Reminder[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>(
+    `SELECT reminders.* FROM reminders
+     INNER JOIN reminder_platforms ON reminder_platforms.reminder_id = reminders.id
+     WHERE reminder_platforms.platform = ? AND reminders.status != ?
+     ORDER BY reminders.date ASC`,
+    platform,
+    'deleted'
+  );
+  return toReminders(db, rows);
+};
+
+/**
+ * Retrieves the recurring reminders outside the trash. Their occurrences can
+ * fall in any date range, so they are read as a whole.
+ *
+ * @returns Promise<Reminder[]> - Recurring reminders, ordered by their next occurrence
+ */
+export const findRecurringReminders = async (): Promise<Reminder[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>(
+    'SELECT * FROM reminders WHERE recurring = 1 AND status != ? ORDER BY date ASC',
+    'deleted'
+  );
+  return toReminders(db, rows);
+};
+
+/**
+ * Retrieves the reminders that belong to a campaign
+ *
+ * @param campaignId - The campaign to match, any campaign when undefined
+ * @param includeTrash - Whether reminders in the trash are included
+ * @returns Promise<Reminder[]> - Matching reminders, ordered by date
+ */
+export const findRemindersByCampaign = async (campaignId?: string, includeTrash = false): Promise<Reminder[]> => {
+  const conditions = [campaignId === undefined ? 'campaign_id IS NOT NULL' : 'campaign_id = ?'];
+  const params = campaignId === undefined ? [] : [campaignId];
+  if (!includeTrash) {
+    conditions.push('status != ?');
+    params.push('deleted');
+  }
+
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<ReminderRow>(
+    `SELECT * FROM reminders WHERE ${conditions.join(' AND ')} ORDER BY date ASC`,
+    ...params
+  );
+  return toReminders(db, rows);
+};
+
+/**
+ * Lists the files every stored reminder, including those in the trash, uses,
+ * read straight from the stored JSON without loading the reminders
+ *
+ * @returns Promise<string[]> - URIs of media, video thumbnails and legacy single photos
+ */
+export const findReminderMediaUris = async (): Promise<string[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ uri: string | null }>(
+    `SELECT json_extract(media.value, '$.uri') AS uri FROM reminders, json_each(reminders.data, '$.media') AS media
+     UNION ALL
+     SELECT json_extract(media.value, '$.thumbnailUri') FROM reminders, json_each(reminders.data, '$.media') AS media
+     UNION ALL
+     SELECT json_extract(data, '$.photoUri') FROM reminders`
+  );
+  return rows.flatMap(row => (typeof row.uri === 'string' && row.uri !== '' ? [row.uri] : []));
+};
+
+/**
+ * Inserts or updates a single reminder
+ *
+ * @param reminder - The reminder to store
+ */
+export const saveReminder = async (reminder: Reminder) => {
+  const db = await getDatabase();
+  await db.withTransactionAsync(async () => {
+    await writeReminderRow(db, reminder);
+  });
+};
+
+/**
+ * Removes a single reminder
+ *
+ * @param id - The ID of the reminder to remove
+ * @returns Promise<boolean> - True if a reminder was removed
+ */
+export const removeReminder = async (id: string): Promise<boolean> => {
+  const db = await getDatabase();
+  const result = await db.runAsync('DELETE FROM reminders WHERE id = ?', id);
+  return result.changes > 0;
+};
+
+/**
+ * Retrieves every caption template, ordered by name
+ *
+ * @returns Promise<CaptionTemplate[]> - The readable templates
+ */
+export const findAllCaptionTemplates = async (): Promise<CaptionTemplate[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ data: string }>('SELECT data FROM caption_templates ORDER BY name COLLATE NOCASE ASC');
+  return rows.flatMap(row => {
+    try {
+      const template = toCaptionTemplate(JSON.parse(row.data));
+      return template ? [template] : [];
+    } catch (error) {
+      console.error('Error reading caption template:', error);
+      return [];
+    }
+  });
+};
+
+/**
+ * Inserts or updates a caption template
+ *
+ * @param template - The template to store
+ */
+export const saveCaptionTemplate = async (template: CaptionTemplate) => {
+  const db = await getDatabase();
+  await db.runAsync(
+    `INSERT INTO caption_templates (id, name, data, updated_at)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       name = excluded.name,
+       data = excluded.data,
+       updated_at = excluded.updated_at`,
+    template.id,
+    template.name,
+    JSON.stringify(template),
+    template.updatedAt
+  );
+};
+
+/**
+ * Removes a caption template
+ *
+ * @param id - The ID of the template to remove
+ * @returns Promise<boolean> - True if a template was removed
+ */
+export const removeCaptionTemplate = async (id: string): Promise<boolean> => {
+  const db = await getDatabase();
+  const result = await db.runAsync('DELETE FROM caption_templates WHERE id = ?', id);
+  return result.changes > 0;
+};
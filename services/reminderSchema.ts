@@ -0,0 +1,371 @@
+/**
+ * Reminder Schema
+ *
+ * This module owns the shape of persisted reminder records:
+ * - The current schema version
+ * - Step-by-step migrations from older record shapes
+ * - Validation and default values for missing fields
+ *
+ * Storage backends run every record they read through `migrateReminderRecord`
+ * so that data written by older versions of the app keeps working.
+ *
+ * @module reminderSchema
+ */
+
+import {
+  CropRect,
+  PlatformCaptions,
+  RecurrenceRule,
+  Reminder,
+  ReminderFraming,
+  ReminderMedia,
+  ReminderOccurrence,
+  ReminderPlatforms,
+  ReminderTargetOptions,
+  ShareFormat,
+  ShareResult,
+  TextOverlay,
+} from '../types/reminder';
+import { getMimeType } from './mimeTypes';
+import { clampCropRect, DEFAULT_FRAMING, SHARE_FORMAT_OPTIONS } from './framing';
+import { OVERLAY_FONTS } from './overlayLayout';
+import { toShareResult } from './shareResults';
+import { getShareTarget } from './shareTargets';
+import { isHexColor, isPlainObject } from './validation';
+
+/**
+ * Version of the reminder record shape written by this build of the app.
+ * Bump this and add an entry to `MIGRATIONS` whenever the shape changes.
+ */
+export const REMINDER_SCHEMA_VERSION = 5;
+
+/**
+ * Most photos a single reminder can hold, matching Instagram's carousel limit
+ */
+export const MAX_MEDIA_ITEMS = 10;
+
+/**
+ * Loosely typed record as found in storage, before validation
+ */
+export type RawReminderRecord = Record<string, unknown>;
+
+/**
+ * Upgrades a record from the previous schema version to the next one
+ */
+type ReminderMigration = (record: RawReminderRecord) => RawReminderRecord;
+
+/**
+ * Error thrown when a stored record cannot be turned into a valid reminder
+ */
+export class InvalidReminderRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidReminderRecordError';
+  }
+}
+
+/**
+ * Migrations keyed by the schema version they upgrade a record to.
+ * Version 0 is the unversioned array written before the storage envelope existed.
+ */
+const MIGRATIONS: Record<number, ReminderMigration> = {
+  1: (record) => {
+    // Version 0 screens wrote a numeric `timestamp` alongside (or instead of) `date`
+    const { timestamp, ...rest } = record;
+    if (typeof rest.date !== 'string' && typeof timestamp === 'number') {
+      rest.date = new Date(timestamp).toISOString();
+    }
+    return rest;
+  },
+  2: (record) => {
+    // Version 1 held a single optional `photoUri` instead of a media list
+    const { photoUri, ...rest } = record;
+    if (!Array.isArray(rest.media)) {
+      rest.media = typeof photoUri === 'string' ? [{ id: '0', uri: photoUri }] : [];
+    }
+    return rest;
+  },
+  3: (record) => {
+    // Version 2 recorded each share attempt with a `success` flag instead of an outcome
+    if (!Array.isArray(record.shareHistory)) return record;
+    return {
+      ...record,
+      shareHistory: record.shareHistory.map(entry => {
+        if (!isPlainObject(entry)) return entry;
+        const { success, ...rest } = entry;
+        return { ...rest, outcome: success === true ? 'shared' : 'failed' };
+      }),
+    };
+  },
+  4: (record) => {
+    // Version 4 made each target's default format apply when none was chosen. Version 3
+    // records cannot tell a chosen 9:16 from the old default, so their formats are kept.
+    return record;
+  },
+  5: (record) => {
+    // Version 4 kept the Instagram Stories and WhatsApp settings in fields of their own
+    const { story, whatsapp, ...rest } = record;
+    if (story === undefined && whatsapp === undefined) return rest;
+    return {
+      ...rest,
+      targetOptions: {
+        ...(isPlainObject(rest.targetOptions) ? rest.targetOptions : {}),
+        ...(story !== undefined ? { instagram_stories: story } : {}),
+        ...(whatsapp !== undefined ? { whatsapp } : {}),
+      },
+    };
+  },
+};
+
+const isValidDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Reads an optional recurrence rule, dropping it if it is malformed
+ */
+const toRecurrenceRule = (value: unknown): RecurrenceRule | undefined => {
+  if (!isPlainObject(value)) return undefined;
+  if (value.frequency !== 'daily' && value.frequency !== 'weekly' && value.frequency !== 'monthly') {
+    return undefined;
+  }
+
+  const weekdays = Array.isArray(value.weekdays)
+    ? value.weekdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)
+    : undefined;
+
+  return {
+    frequency: value.frequency,
+    interval: isPositiveInteger(value.interval) ? value.interval : 1,
+    weekdays: weekdays && weekdays.length > 0 ? weekdays : undefined,
+    monthDay: isPositiveInteger(value.monthDay) && value.monthDay <= 31 ? value.monthDay : undefined,
+    until: isValidDateString(value.until) ? value.until : undefined,
+    count: isPositiveInteger(value.count) ? value.count : undefined,
+  };
+};
+
+/**
+ * Reads an optional occurrence list, dropping entries that are malformed
+ */
+const toOccurrences = (value: unknown): ReminderOccurrence[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  return value
+    .filter(isPlainObject)
+    .filter(occurrence => isValidDateString(occurrence.date))
+    .map(occurrence => ({
+      date: occurrence.date as string,
+      status: occurrence.status === 'completed' || occurrence.status === 'skipped' || occurrence.status === 'missed'
+        ? occurrence.status
+        : 'scheduled',
+    }));
+};
+
+/**
+ * Reads an optional crop rectangle, dropping it if it is malformed
+ */
+const toCropRect = (value: unknown): CropRect | undefined => {
+  if (!isPlainObject(value)) return undefined;
+
+  const { x, y, width, height } = value;
+  if (![x, y, width, height].every(n => typeof n === 'number' && isFinite(n))) return undefined;
+
+  return clampCropRect({ x, y, width, height } as CropRect);
+};
+
+/**
+ * Reads the framing settings, falling back to the default for anything malformed
+ */
+const toFraming = (value: unknown): ReminderFraming => {
+  if (!isPlainObject(value)) return DEFAULT_FRAMING;
+
+  const formats: Record<string, ShareFormat> = { ...DEFAULT_FRAMING.formats };
+  if (isPlainObject(value.formats)) {
+    for (const [target, format] of Object.entries(value.formats)) {
+      if (SHARE_FORMAT_OPTIONS.some(option => option.value === format)) {
+        formats[target] = format as ShareFormat;
+      }
+    }
+  }
+
+  return {
+    mode: value.mode === 'fit-blur' || value.mode === 'manual' ? value.mode : 'center-crop',
+    formats,
+  };
+};
+
+/**
+ * Reads an optional caption overlay, dropping it if it has no usable text color
+ */
+const toOverlay = (value: unknown): TextOverlay | undefined => {
+  if (!isPlainObject(value) || !isHexColor(value.color)) return undefined;
+
+  return {
+    source: value.source === 'custom' ? 'custom' : 'title',
+    text: typeof value.text === 'string' ? value.text : '',
+    font: typeof value.font === 'string' && Object.prototype.hasOwnProperty.call(OVERLAY_FONTS, value.font)
+      ? (value.font as TextOverlay['font'])
+      : 'sans',
+    color: value.color,
+    pillColor: isHexColor(value.pillColor) ? value.pillColor : undefined,
+    position: value.position === 'top' || value.position === 'center' ? value.position : 'bottom',
+  };
+};
+
+/**
+ * Reads per-platform captions, dropping empty ones
+ */
+const toCaptions = (value: unknown): PlatformCaptions | undefined => {
+  if (!isPlainObject(value)) return undefined;
+
+  const captions: PlatformCaptions = {};
+  for (const [platform, caption] of Object.entries(value)) {
+    if (typeof caption === 'string' && caption.trim()) {
+      captions[platform] = caption;
+    }
+  }
+  return Object.keys(captions).length > 0 ? captions : undefined;
+};
+
+/**
+ * Reads the settings of single targets. Registered targets validate their
+ * own entry; entries of targets that are not registered are kept as stored.
+ */
+const toTargetOptions = (value: unknown): ReminderTargetOptions | undefined => {
+  if (!isPlainObject(value)) return undefined;
+
+  const targetOptions: ReminderTargetOptions = {};
+  for (const [targetId, options] of Object.entries(value)) {
+    const parse = getShareTarget(targetId)?.options?.parse;
+    const parsed = parse ? parse(options) : options;
+    if (parsed !== undefined) {
+      targetOptions[targetId] = parsed;
+    }
+  }
+  return Object.keys(targetOptions).length > 0 ? targetOptions : undefined;
+};
+
+/**
+ * Reads the platform selection. Instagram and WhatsApp are always listed,
+ * they were the only targets before share targets could be added.
+ */
+const toPlatforms = (value: unknown): ReminderPlatforms => {
+  const platforms: ReminderPlatforms = { instagram: false, whatsapp: false };
+  if (isPlainObject(value)) {
+    for (const [target, selected] of Object.entries(value)) {
+      if (typeof selected === 'boolean') {
+        platforms[target] = selected;
+      }
+    }
+  }
+  return platforms;
+};
+
+/**
+ * Reads the media list, dropping entries without a uri and anything past the carousel limit.
+ * Entries without a type are photos saved before videos were supported.
+ */
+const toMedia = (value: unknown): ReminderMedia[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(isPlainObject)
+    .filter(item => typeof item.uri === 'string' && item.uri !== '')
+    .slice(0, MAX_MEDIA_ITEMS)
+    .map((item, index) => {
+      const uri = item.uri as string;
+      const type = item.type === 'video' ? 'video' : 'image';
+      return {
+        id: typeof item.id === 'string' && item.id ? item.id : String(index),
+        uri,
+        type,
+        mimeType: typeof item.mimeType === 'string' && item.mimeType ? item.mimeType : getMimeType(uri, type),
+        thumbnailUri: typeof item.thumbnailUri === 'string' ? item.thumbnailUri : undefined,
+        duration: typeof item.duration === 'number' && item.duration > 0 ? item.duration : undefined,
+        crop: toCropRect(item.crop),
+      };
+    });
+};
+
+/**
+ * Reads the share history, dropping entries that are malformed
+ */
+const toShareHistory = (value: unknown): ShareResult[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map(toShareResult)
+    .filter((entry): entry is ShareResult => entry !== undefined);
+};
+
+/**
+ * Validates a record at the current schema version and fills in defaults
+ * for any optional fields that are missing
+ *
+ * @param record - Record already migrated to the current schema version
+ * @returns Reminder - The validated reminder
+ * @throws InvalidReminderRecordError if a required field is missing or malformed
+ */
+const toReminder = (record: RawReminderRecord): Reminder => {
+  if (typeof record.id !== 'string' || !record.id) {
+    throw new InvalidReminderRecordError('Missing reminder id');
+  }
+  if (typeof record.title !== 'string') {
+    throw new InvalidReminderRecordError(`Reminder ${record.id} has no title`);
+  }
+  if (!isValidDateString(record.date)) {
+    throw new InvalidReminderRecordError(`Reminder ${record.id} has an invalid date`);
+  }
+
+  const createdAt = isValidDateString(record.createdAt) ? record.createdAt : record.date;
+  const recurrence = toRecurrenceRule(record.recurrence);
+
+  return {
+    id: record.id,
+    title: record.title,
+    description: typeof record.description === 'string' ? record.description : '',
+    date: record.date,
+    media: toMedia(record.media),
+    framing: toFraming(record.framing),
+    overlay: toOverlay(record.overlay),
+    platforms: toPlatforms(record.platforms),
+    captions: toCaptions(record.captions),
+    targetOptions: toTargetOptions(record.targetOptions),
+    completed: record.completed === true,
+    recurrence,
+    campaignId: typeof record.campaignId === 'string' && record.campaignId !== '' ? record.campaignId : undefined,
+    occurrences: recurrence ? toOccurrences(record.occurrences) ?? [] : undefined,
+    shareHistory: toShareHistory(record.shareHistory),
+    createdAt,
+    updatedAt: isValidDateString(record.updatedAt) ? record.updatedAt : createdAt,
+    deletedAt: isValidDateString(record.deletedAt) ? record.deletedAt : undefined,
+  };
+};
+
+/**
+ * Upgrades a stored record to the current schema version and validates it
+ *
+ * @param raw - The record as read from storage
+ * @param fromVersion - Schema version the record was written with
+ * @returns Reminder - The migrated reminder
+ * @throws InvalidReminderRecordError if the record cannot be migrated
+ */
+export const migrateReminderRecord = (raw: unknown, fromVersion: number): Reminder => {
+  if (!isPlainObject(raw)) {
+    throw new InvalidReminderRecordError('Reminder record is not an object');
+  }
+  if (fromVersion > REMINDER_SCHEMA_VERSION) {
+    throw new InvalidReminderRecordError(
+      `Reminder schema version ${fromVersion} is newer than supported version ${REMINDER_SCHEMA_VERSION}`
+    );
+  }
+
+  let record: RawReminderRecord = { ...raw };
+  for (let version = fromVersion + 1; version <= REMINDER_SCHEMA_VERSION; version++) {
+    record = MIGRATIONS[version](record);
+  }
+
+  return toReminder(record);
+};
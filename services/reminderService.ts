@@ -4,21 +4,56 @@
  * This service handles all reminder-related operations including:
  * - Creating new reminders
  * - Retrieving existing reminders
+ * - Searching and filtering reminders
  * - Updating reminder details
- * - Deleting reminders
+ * - Moving reminders to the trash, restoring and purging them
  * - Managing reminder notifications
  * - Sharing reminders to social media
  * 
  * @module reminderService
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
-import { shareToInstagram, shareToWhatsApp } from './socialMediaService';
-import { Reminder } from '../types/reminder';
-
-const REMINDERS_STORAGE_KEY = 'snaply_reminders';
+import { deletePhoto } from './photoService';
+import { prepareMediaForPlatform } from './imageProcessingService';
+import { prepareShareFiles } from './shareFileService';
+import { getSettings } from './settingsService';
+import { filterReminders, getDateRangeBounds, getDueDate } from './reminderQuery';
+import { getCampaigns } from './campaignService';
+import { expandCaption } from './captionTemplates';
+import { getPlatformDescription } from './captionRules';
+import { getSelectedShareTargets, getShareableMedia } from './shareTargets';
+import { createFailedShareResult } from './shareResults';
+import { CalendarEntry, getEntriesInRange } from './calendar';
+import {
+  findActiveReminders,
+  findRecurringReminders,
+  findReminderById,
+  findRemindersByDateRange,
+  findRemindersByStatus,
+  findUpcomingReminders,
+  removeReminder,
+  saveReminder,
+} from './reminderRepository';
+import { hasScheduleChanged, refreshOccurrences } from './recurrence';
+import { planNotifications } from './notificationSchedule';
+import { getExpiredTrash } from './trash';
+import {
+  OccurrenceStatus,
+  PlatformCaptions,
+  RecurrenceRule,
+  Reminder,
+  ReminderFraming,
+  ReminderMedia,
+  ReminderPlatforms,
+  ReminderTargetOptions,
+  ShareResult,
+  ShareTargetId,
+  TextOverlay,
+} from '../types/reminder';
+import { ReminderQuery } from '../types/filters';
+import { ShareTargetAdapter } from '../types/shareTarget';
 
 /**
  * Interface for reminder creation parameters
@@ -27,15 +62,36 @@ interface CreateReminderParams {
   title: string;
   description: string;
   date: Date;
-  photoUri?: string;
-  platforms: {
-    instagram: boolean;
-    whatsapp: boolean;
-  };
+  media: ReminderMedia[];
+  framing: ReminderFraming;
+  overlay?: TextOverlay;
+  platforms: ReminderPlatforms;
+  captions?: PlatformCaptions;
+  targetOptions?: ReminderTargetOptions;
+  recurrence?: RecurrenceRule;
+  campaignId?: string;
 }
 
 /**
- * Creates a new reminder and stores it in AsyncStorage
+ * Expands upcoming occurrences of a recurring reminder and marks the
+ * series completed once no occurrence is left
+ *
+ * @param reminder - The reminder to refresh
+ * @returns Reminder - The reminder with its occurrences topped up
+ */
+const withRefreshedOccurrences = (reminder: Reminder): Reminder => {
+  if (!reminder.recurrence) return reminder;
+
+  const occurrences = refreshOccurrences(reminder);
+  return {
+    ...reminder,
+    occurrences,
+    completed: occurrences.length > 0 && occurrences.every(o => o.status !== 'scheduled'),
+  };
+};
+
+/**
+ * Creates a new reminder and stores it in the reminder database
  * 
  * @param params - The reminder creation parameters
  * @returns Promise<Reminder> - The created reminder object
@@ -43,24 +99,30 @@ interface CreateReminderParams {
  */
 export const createReminder = async (params: CreateReminderParams): Promise<Reminder> => {
   try {
-    const newReminder: Reminder = {
+    const newReminder: Reminder = withRefreshedOccurrences({
       id: Date.now().toString(),
       title: params.title,
       description: params.description,
       date: params.date.toISOString(),
-      photoUri: params.photoUri,
+      media: params.media,
+      framing: params.framing,
+      overlay: params.overlay,
       platforms: params.platforms,
+      captions: params.captions,
+      targetOptions: params.targetOptions,
+      completed: false,
+      recurrence: params.recurrence,
+      campaignId: params.campaignId,
+      occurrences: params.recurrence ? [] : undefined,
+      shareHistory: [],
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-    };
+    });
 
-    const existingReminders = await getReminders();
-    const updatedReminders = [...existingReminders, newReminder];
-    
-    await AsyncStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(updatedReminders));
+    await saveReminder(newReminder);
     
-    // Schedule notification for the reminder
-    await scheduleReminderNotification(newReminder);
+    // Schedule notifications for the reminder
+    await scheduleReminderNotifications(newReminder);
     
     return newReminder;
   } catch (error) {
@@ -70,17 +132,104 @@ export const createReminder = async (params: CreateReminderParams): Promise<Remi
 };
 
 /**
- * Retrieves all reminders from AsyncStorage
+ * Retrieves all reminders from the reminder database, except those in the trash
  * 
- * @returns Promise<Reminder[]> - Array of all reminders
+ * @returns Promise<Reminder[]> - Array of all active reminders
+ * @throws Error if the reminder store cannot be read
  */
 export const getReminders = async (): Promise<Reminder[]> => {
   try {
-    const remindersJson = await AsyncStorage.getItem(REMINDERS_STORAGE_KEY);
-    return remindersJson ? JSON.parse(remindersJson) : [];
+    return await findActiveReminders();
   } catch (error) {
     console.error('Error getting reminders:', error);
-    return [];
+    throw new Error('Failed to load reminders');
+  }
+};
+
+/**
+ * Reads the reminders a query can match, narrowed with the indexed date and
+ * status where the query allows. Recurring reminders are always read, since
+ * their due date moves on as occurrences pass.
+ */
+const findQueryCandidates = async (query: ReminderQuery, now: Date): Promise<Reminder[]> => {
+  const { start, end } = getDateRangeBounds(query.dateRange, now);
+  const upcomingOnly = query.statuses.length === 1 && query.statuses[0] === 'upcoming';
+  if (!(start && end) && !upcomingOnly) return getReminders();
+
+  const [indexed, recurring] = await Promise.all([
+    start && end ? findRemindersByDateRange(start, end) : findUpcomingReminders(now),
+    findRecurringReminders(),
+  ]);
+  return [...indexed.filter(reminder => !reminder.recurrence), ...recurring]
+    .sort((a, b) => getDueDate(a, now).getTime() - getDueDate(b, now).getTime());
+};
+
+/**
+ * Retrieves the active reminders that match a search and filters
+ * 
+ * @param query - Search text and filters, see `matchesReminderQuery`
+ * @param now - The current time, used by status and date filters
+ * @returns Promise<Reminder[]> - Matching reminders, ordered by date
+ * @throws Error if the reminder store cannot be read
+ */
+export const queryReminders = async (query: ReminderQuery, now: Date = new Date()): Promise<Reminder[]> => {
+  try {
+    return filterReminders(await findQueryCandidates(query, now), query, now);
+  } catch (error) {
+    console.error('Error querying reminders:', error);
+    throw new Error('Failed to load reminders');
+  }
+};
+
+/**
+ * Retrieves what is scheduled within a date range for the calendar, with
+ * recurring reminders expanded into their occurrences
+ * 
+ * @param start - Start of the range, inclusive
+ * @param end - End of the range, exclusive
+ * @returns Promise<CalendarEntry[]> - Scheduled entries, ordered by date
+ * @throws Error if the reminder store cannot be read
+ */
+export const getCalendarEntries = async (start: Date, end: Date): Promise<CalendarEntry[]> => {
+  try {
+    // Recurring reminders can start before the range, so their dates are not queried directly
+    const [scheduled, recurring] = await Promise.all([findRemindersByDateRange(start, end), findRecurringReminders()]);
+    return getEntriesInRange([...scheduled.filter(reminder => !reminder.recurrence), ...recurring], start, end);
+  } catch (error) {
+    console.error('Error getting calendar entries:', error);
+    throw new Error('Failed to load calendar');
+  }
+};
+
+/**
+ * Retrieves the reminders in the trash
+ * 
+ * @returns Promise<Reminder[]> - Deleted reminders, most recently deleted first
+ * @throws Error if the reminder store cannot be read
+ */
+export const getTrashedReminders = async (): Promise<Reminder[]> => {
+  try {
+    return (await findRemindersByStatus('deleted'))
+      .sort((a, b) => new Date(b.deletedAt as string).getTime() - new Date(a.deletedAt as string).getTime());
+  } catch (error) {
+    console.error('Error getting trashed reminders:', error);
+    throw new Error('Failed to load trash');
+  }
+};
+
+/**
+ * Retrieves a single reminder by ID
+ * 
+ * @param id - The ID of the reminder
+ * @returns Promise<Reminder | null> - The reminder or null if not found
+ * @throws Error if the reminder store cannot be read
+ */
+export const getReminder = async (id: string): Promise<Reminder | null> => {
+  try {
+    return await findReminderById(id);
+  } catch (error) {
+    console.error('Error getting reminder:', error);
+    throw new Error('Failed to load reminder');
   }
 };
 
@@ -93,25 +242,32 @@ export const getReminders = async (): Promise<Reminder[]> => {
  */
 export const updateReminder = async (id: string, updates: Partial<Reminder>): Promise<Reminder | null> => {
   try {
-    const reminders = await getReminders();
-    const index = reminders.findIndex(r => r.id === id);
+    const reminder = await findReminderById(id);
     
-    if (index === -1) return null;
+    if (!reminder) return null;
     
-    const updatedReminder = {
-      ...reminders[index],
+    let updatedReminder: Reminder = {
+      ...reminder,
       ...updates,
+      id,
       updatedAt: new Date().toISOString(),
     };
     
-    reminders[index] = updatedReminder;
-    await AsyncStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(reminders));
-    
-    // Update notification if date changed
-    if (updates.date) {
-      await scheduleReminderNotification(updatedReminder);
+    if (hasScheduleChanged(reminder, updatedReminder)) {
+      // Keep the history of handled occurrences and re-expand the rest from the new schedule
+      updatedReminder = withRefreshedOccurrences({
+        ...updatedReminder,
+        occurrences: updatedReminder.recurrence
+          ? (reminder.occurrences ?? []).filter(o => o.status !== 'scheduled')
+          : undefined,
+      });
     }
     
+    await saveReminder(updatedReminder);
+    
+    // Reschedule notifications so they match the new date, title and completion state
+    await scheduleReminderNotifications(updatedReminder);
+    
     return updatedReminder;
   } catch (error) {
     console.error('Error updating reminder:', error);
@@ -120,21 +276,31 @@ export const updateReminder = async (id: string, updates: Partial<Reminder>): Pr
 };
 
 /**
- * Deletes a reminder by ID
+ * Deletes the photos, videos and video thumbnails attached to a reminder
+ * 
+ * @param reminder - The reminder whose media should be deleted
+ */
+const deleteReminderMedia = async (reminder: Reminder) => {
+  const uris = reminder.media.flatMap(item => (item.thumbnailUri ? [item.uri, item.thumbnailUri] : [item.uri]));
+  await Promise.all(uris.map(uri => deletePhoto(uri)));
+};
+
+/**
+ * Moves a reminder to the trash and cancels its notifications.
+ * It can be restored until it is purged.
  * 
  * @param id - The ID of the reminder to delete
- * @returns Promise<boolean> - True if deletion was successful
+ * @returns Promise<boolean> - True if the reminder was moved to the trash
+ * @throws Error if the reminder cannot be updated
  */
 export const deleteReminder = async (id: string): Promise<boolean> => {
   try {
-    const reminders = await getReminders();
-    const filteredReminders = reminders.filter(r => r.id !== id);
-    
-    await AsyncStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(filteredReminders));
-    
-    // Cancel notification for the reminder
-    await Notifications.cancelScheduledNotificationAsync(id);
-    
+    const reminder = await findReminderById(id);
+    if (!reminder) return false;
+
+    await saveReminder({ ...reminder, deletedAt: new Date().toISOString() });
+    await cancelReminderNotifications(id);
+    await syncReminderNotifications();
     return true;
   } catch (error) {
     console.error('Error deleting reminder:', error);
@@ -143,72 +309,371 @@ export const deleteReminder = async (id: string): Promise<boolean> => {
 };
 
 /**
- * Schedules a notification for a reminder
+ * Takes a reminder out of the trash and schedules its notifications again
+ * if it is still in the future
  * 
- * @param reminder - The reminder to schedule notification for
+ * @param id - The ID of the reminder to restore
+ * @returns Promise<Reminder | null> - The restored reminder or null if not found
+ * @throws Error if the reminder cannot be updated
  */
-const scheduleReminderNotification = async (reminder: Reminder) => {
+export const restoreDeletedReminder = async (id: string): Promise<Reminder | null> => {
   try {
-    // Cancel existing notification if any
-    await Notifications.cancelScheduledNotificationAsync(reminder.id);
-    
-    // Schedule new notification
-    await Notifications.scheduleNotificationAsync({
-      content: {
-        title: reminder.title,
-        body: reminder.description,
-        data: { reminderId: reminder.id },
-      },
-      trigger: new Date(reminder.date),
-      identifier: reminder.id,
-    });
+    const reminder = await findReminderById(id);
+    if (!reminder) return null;
+
+    const restoredReminder = withRefreshedOccurrences({ ...reminder, deletedAt: undefined });
+    await saveReminder(restoredReminder);
+    await scheduleReminderNotifications(restoredReminder);
+    return restoredReminder;
   } catch (error) {
-    console.error('Error scheduling notification:', error);
+    console.error('Error restoring deleted reminder:', error);
+    throw new Error('Failed to restore reminder');
   }
 };
 
 /**
- * Shares a reminder to specified social media platforms
+ * Deletes a reminder for good, along with its media files
  * 
- * @param reminder - The reminder to share
- * @returns Promise<boolean> - True if sharing was successful
+ * @param id - The ID of the reminder to delete
+ * @returns Promise<boolean> - True if deletion was successful
+ * @throws Error if the reminder cannot be removed
  */
-export const shareReminder = async (reminder: Reminder): Promise<boolean> => {
+export const permanentlyDeleteReminder = async (id: string): Promise<boolean> => {
   try {
-    const sharePromises: Promise<boolean>[] = [];
+    const reminder = await findReminderById(id);
+    await removeReminder(id);
+    
+    // Cancel notifications for the reminder and hand its slots to other reminders
+    await cancelReminderNotifications(id);
+    await syncReminderNotifications();
     
-    if (reminder.platforms.instagram) {
-      sharePromises.push(shareToInstagram(reminder.photoUri, reminder.title, reminder.description));
+    if (reminder) {
+      await deleteReminderMedia(reminder);
     }
-    if (reminder.platforms.whatsapp) {
-      sharePromises.push(shareToWhatsApp(reminder.photoUri, reminder.title, reminder.description));
+    
+    return true;
+  } catch (error) {
+    console.error('Error permanently deleting reminder:', error);
+    throw new Error('Failed to delete reminder');
+  }
+};
+
+/**
+ * Permanently deletes every reminder in the trash
+ * 
+ * @returns Promise<number> - Number of reminders deleted
+ * @throws Error if the trash cannot be emptied
+ */
+export const emptyTrash = async (): Promise<number> => {
+  const trashed = await getTrashedReminders();
+  for (const reminder of trashed) {
+    await permanentlyDeleteReminder(reminder.id);
+  }
+  return trashed.length;
+};
+
+/**
+ * Permanently deletes reminders that have been in the trash longer than
+ * the retention period chosen in Settings. Called on startup.
+ * 
+ * @param now - The current time
+ * @returns Promise<number> - Number of reminders purged
+ * @throws Error if the trash cannot be read
+ */
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<number> => {
+  const { trashRetentionDays } = await getSettings();
+  const expired = getExpiredTrash(await getTrashedReminders(), trashRetentionDays, now);
+  for (const reminder of expired) {
+    await permanentlyDeleteReminder(reminder.id);
+  }
+  return expired.length;
+};
+
+/**
+ * Stores a reminder restored from a backup, replacing any reminder with the
+ * same id, and schedules notifications for whatever is still in the future
+ * 
+ * @param reminder - The restored reminder
+ * @returns Promise<Reminder> - The stored reminder
+ * @throws Error if the reminder cannot be stored
+ */
+export const restoreReminder = async (reminder: Reminder): Promise<Reminder> => {
+  try {
+    const restoredReminder = withRefreshedOccurrences(reminder);
+    await saveReminder(restoredReminder);
+    await scheduleReminderNotifications(restoredReminder);
+    return restoredReminder;
+  } catch (error) {
+    console.error('Error restoring reminder:', error);
+    throw new Error('Failed to restore reminder');
+  }
+};
+
+/**
+ * Sets the status of a single occurrence of a recurring reminder
+ * 
+ * @param id - The ID of the recurring reminder
+ * @param occurrenceDate - The date of the occurrence, as stored on the reminder
+ * @param status - The new status
+ * @returns Promise<Reminder | null> - The updated reminder or null if not found
+ */
+const setOccurrenceStatus = async (id: string, occurrenceDate: string, status: OccurrenceStatus): Promise<Reminder | null> => {
+  const reminder = await findReminderById(id);
+  if (!reminder?.occurrences) return null;
+
+  const updatedReminder = withRefreshedOccurrences({
+    ...reminder,
+    occurrences: reminder.occurrences.map(o => (o.date === occurrenceDate ? { ...o, status } : o)),
+    updatedAt: new Date().toISOString(),
+  });
+
+  await saveReminder(updatedReminder);
+  await scheduleReminderNotifications(updatedReminder);
+  return updatedReminder;
+};
+
+/**
+ * Marks a single occurrence of a recurring reminder as completed
+ * 
+ * @param id - The ID of the recurring reminder
+ * @param occurrenceDate - The date of the occurrence
+ * @returns Promise<Reminder | null> - The updated reminder or null if not found
+ */
+export const completeOccurrence = async (id: string, occurrenceDate: string): Promise<Reminder | null> => {
+  try {
+    return await setOccurrenceStatus(id, occurrenceDate, 'completed');
+  } catch (error) {
+    console.error('Error completing occurrence:', error);
+    throw new Error('Failed to complete occurrence');
+  }
+};
+
+/**
+ * Skips a single occurrence of a recurring reminder
+ * 
+ * @param id - The ID of the recurring reminder
+ * @param occurrenceDate - The date of the occurrence
+ * @returns Promise<Reminder | null> - The updated reminder or null if not found
+ */
+export const skipOccurrence = async (id: string, occurrenceDate: string): Promise<Reminder | null> => {
+  try {
+    return await setOccurrenceStatus(id, occurrenceDate, 'skipped');
+  } catch (error) {
+    console.error('Error skipping occurrence:', error);
+    throw new Error('Failed to skip occurrence');
+  }
+};
+
+/**
+ * Cancels every scheduled notification that belongs to a reminder
+ * 
+ * @param reminderId - The ID of the reminder
+ */
+const cancelReminderNotifications = async (reminderId: string) => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(request => request.content.data?.reminderId === reminderId)
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+};
+
+/**
+ * Schedules notifications for the soonest pending reminders and occurrences
+ * within the notification budget, and cancels those that no longer fit
+ */
+const syncReminderNotifications = async () => {
+  try {
+    const planned = planNotifications(await findActiveReminders());
+    const plannedIds = new Set(planned.map(notification => notification.identifier));
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const scheduledIds = new Set(scheduled.map(request => request.identifier));
+
+    await Promise.all(
+      scheduled
+        .filter(request => request.content.data?.reminderId && !plannedIds.has(request.identifier))
+        .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+    );
+
+    for (const { identifier, reminder, date } of planned) {
+      if (scheduledIds.has(identifier)) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: reminder.title,
+          body: reminder.description,
+          data: { reminderId: reminder.id, occurrenceDate: reminder.recurrence ? date : undefined },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: new Date(date),
+        },
+        identifier,
+      });
     }
+  } catch (error) {
+    console.error('Error scheduling notifications:', error);
+  }
+};
 
-    const results = await Promise.all(sharePromises);
-    return results.every((result: boolean) => result === true);
+/**
+ * Reschedules a reminder's notifications so they match its current title,
+ * dates and completion state
+ * 
+ * @param reminder - The reminder to schedule notifications for
+ */
+const scheduleReminderNotifications = async (reminder: Reminder) => {
+  try {
+    await cancelReminderNotifications(reminder.id);
   } catch (error) {
-    console.error('Error sharing reminder:', error);
-    return false;
+    console.error('Error canceling notifications:', error);
   }
+  await syncReminderNotifications();
 };
 
 /**
- * Checks for due reminders and triggers sharing
- * This function should be called periodically or when the app becomes active
+ * Tops up the expanded occurrences of every recurring reminder and
+ * schedules notifications for whatever fits in the freed budget
  */
-export const checkDueReminders = async () => {
+const topUpRecurringReminders = async () => {
   try {
-    const reminders = await getReminders();
-    const now = new Date();
+    const reminders = await findRecurringReminders();
     
     for (const reminder of reminders) {
-      const reminderDate = new Date(reminder.date);
-      if (reminderDate <= now) {
-        await shareReminder(reminder);
-        await deleteReminder(reminder.id);
+      if (reminder.completed) continue;
+      
+      const refreshed = withRefreshedOccurrences(reminder);
+      if (JSON.stringify(refreshed.occurrences) !== JSON.stringify(reminder.occurrences) || refreshed.completed) {
+        await saveReminder(refreshed);
       }
     }
+    
+    await syncReminderNotifications();
   } catch (error) {
-    console.error('Error checking due reminders:', error);
+    console.error('Error refreshing recurring reminders:', error);
   }
-}; 
\ No newline at end of file
+};
+
+// Top-up in progress, so overlapping triggers share one run
+let pendingRefresh: Promise<void> | null = null;
+
+/**
+ * Tops up recurring reminders and their notifications.
+ * Called on startup, when the app returns to the foreground and when a
+ * reminder notification is delivered, so long-running series keep firing.
+ */
+export const refreshRecurringReminders = (): Promise<void> => {
+  if (!pendingRefresh) {
+    pendingRefresh = topUpRecurringReminders().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+/**
+ * Appends share attempts to a reminder's share history
+ * 
+ * @param id - The ID of the reminder
+ * @param entries - The share attempts to record
+ */
+const recordShareHistory = async (id: string, entries: ShareResult[]) => {
+  const reminder = await findReminderById(id);
+  if (!reminder) return;
+
+  await saveReminder({
+    ...reminder,
+    shareHistory: [...reminder.shareHistory, ...entries],
+  });
+};
+
+/**
+ * Prepares a reminder's photos for a share target, falling back to the
+ * originals if processing fails so the post still goes out. Media the
+ * target does not accept is left out.
+ * 
+ * @param reminder - The reminder being shared
+ * @param target - The target to prepare media for
+ * @returns Promise<ReminderMedia[]> - Media to hand to the target
+ */
+const getShareMedia = async (reminder: Reminder, target: ShareTargetAdapter): Promise<ReminderMedia[]> => {
+  try {
+    return getShareableMedia(target, await prepareMediaForPlatform(reminder, target.id));
+  } catch (error) {
+    console.warn(`Sharing original media to ${target.id}, processing failed:`, error);
+    return getShareableMedia(target, reminder.media);
+  }
+};
+
+/**
+ * Picks each platform's caption and fills in the template placeholders of
+ * the title and caption, using the occurrence being shared and the
+ * reminder's campaign
+ * 
+ * @param reminder - The reminder being shared
+ * @returns Promise<(platform) => { title: string; description: string }> - The text to share per platform
+ */
+const getShareCaptions = async (
+  reminder: Reminder
+): Promise<(platform: ShareTargetId) => { title: string; description: string }> => {
+  const campaign = reminder.campaignId
+    ? (await getCampaigns()).find(c => c.id === reminder.campaignId)
+    : undefined;
+  const values = { date: getDueDate(reminder), campaign: campaign?.name ?? '' };
+  return platform => expandCaption(
+    reminder.title,
+    getPlatformDescription(reminder.description, reminder.captions, platform),
+    values
+  );
+};
+
+/**
+ * Shares a reminder to a single target
+ * 
+ * @param reminder - The reminder being shared
+ * @param target - The target to share to
+ * @param caption - The title and caption for the target
+ * @returns Promise<ShareResult> - Whether the reminder was shared, cancelled or failed
+ */
+const shareToTarget = async (
+  reminder: Reminder,
+  target: ShareTargetAdapter,
+  caption: { title: string; description: string }
+): Promise<ShareResult> => {
+  let media: ReminderMedia[];
+  try {
+    media = await prepareShareFiles(await getShareMedia(reminder, target), target.id);
+  } catch (error) {
+    console.error(`Error preparing media for ${target.id}:`, error);
+    return createFailedShareResult(target.id, 'file_error', error);
+  }
+
+  try {
+    return await target.share({ media, ...caption, reminder });
+  } catch (error) {
+    console.error(`Error sharing to ${target.id}:`, error);
+    return createFailedShareResult(target.id, 'unknown', error);
+  }
+};
+
+/**
+ * Shares a reminder to specified social media platforms and records
+ * each attempt in the reminder's share history
+ * 
+ * @param reminder - The reminder to share
+ * @returns Promise<ShareResult[]> - The result of each platform, in the order they were shared
+ */
+export const shareReminder = async (reminder: Reminder): Promise<ShareResult[]> => {
+  const targets = getSelectedShareTargets(reminder.platforms);
+  try {
+    const getCaption = await getShareCaptions(reminder);
+    const results = await Promise.all(
+      targets.map(target => shareToTarget(reminder, target, getCaption(target.id)))
+    );
+    await recordShareHistory(reminder.id, results);
+    return results;
+  } catch (error) {
+    console.error('Error sharing reminder:', error);
+    return targets.map(target => createFailedShareResult(target.id, 'unknown', error));
+  }
+};
@@ -0,0 +1,196 @@
+/**
+ * Reminder Storage
+ *
+ * This service reads the legacy reminder list from AsyncStorage, which
+ * `reminderRepository` imports into SQLite once on startup:
+ * - Wrapping the list in a versioned envelope
+ * - Upgrading older blobs through the reminder schema migrations
+ * - Quarantining records that cannot be read instead of dropping them
+ *
+ * @module reminderStorage
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Reminder } from '../types/reminder';
+import { migrateReminderRecord, REMINDER_SCHEMA_VERSION } from './reminderSchema';
+
+const REMINDERS_STORAGE_KEY = 'snaply_reminders';
+const QUARANTINE_STORAGE_KEY = 'snaply_reminders_quarantine';
+
+/**
+ * Shape of the reminder list as written to AsyncStorage
+ */
+interface ReminderStoreEnvelope {
+  version: number;
+  reminders: Reminder[];
+}
+
+/**
+ * A stored value that could not be read, kept so it can be recovered later
+ */
+export interface QuarantinedReminder {
+  raw: unknown;
+  reason: string;
+  schemaVersion: number | null;
+  quarantinedAt: string;
+}
+
+/**
+ * Summary of what happened while loading the reminder store
+ */
+export interface ReminderMigrationReport {
+  fromVersion: number | null;
+  toVersion: number;
+  reminderCount: number;
+  quarantinedCount: number;
+}
+
+/**
+ * Error thrown when the reminder store cannot be read safely
+ */
+export class ReminderStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReminderStorageError';
+  }
+}
+
+/**
+ * Appends unreadable values to the quarantine list
+ *
+ * @param entries - The values to quarantine
+ */
+export const quarantineReminderData = async (entries: QuarantinedReminder[]) => {
+  if (entries.length === 0) return;
+
+  let existing: QuarantinedReminder[];
+  try {
+    existing = await getQuarantinedReminders();
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    // Move the unreadable list aside instead of overwriting what it still holds
+    const json = await AsyncStorage.getItem(QUARANTINE_STORAGE_KEY);
+    await AsyncStorage.setItem(`${QUARANTINE_STORAGE_KEY}_unreadable_${Date.now()}`, json ?? '');
+    existing = [];
+  }
+  await AsyncStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify([...existing, ...entries]));
+  entries.forEach(entry => console.warn('Quarantined reminder data:', entry.reason));
+};
+
+/**
+ * Reads the stored blob, migrating and validating every record
+ *
+ * @returns Promise<{ reminders, report }> - The readable reminders and a migration summary
+ * @throws ReminderStorageError if the store was written by a newer app version
+ */
+const loadReminderStore = async (): Promise<{ reminders: Reminder[]; report: ReminderMigrationReport }> => {
+  const json = await AsyncStorage.getItem(REMINDERS_STORAGE_KEY);
+  const report: ReminderMigrationReport = {
+    fromVersion: null,
+    toVersion: REMINDER_SCHEMA_VERSION,
+    reminderCount: 0,
+    quarantinedCount: 0,
+  };
+
+  if (json === null) {
+    return { reminders: [], report };
+  }
+
+  const now = new Date().toISOString();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    await quarantineReminderData([{ raw: json, reason: 'Reminder store is not valid JSON', schemaVersion: null, quarantinedAt: now }]);
+    await writeReminderStore([]);
+    report.quarantinedCount = 1;
+    return { reminders: [], report };
+  }
+
+  let version: number;
+  let records: unknown[];
+  if (Array.isArray(parsed)) {
+    // Unversioned array written before the envelope existed
+    version = 0;
+    records = parsed;
+  } else if (
+    typeof parsed === 'object' && parsed !== null &&
+    typeof (parsed as ReminderStoreEnvelope).version === 'number' &&
+    Array.isArray((parsed as ReminderStoreEnvelope).reminders)
+  ) {
+    version = (parsed as ReminderStoreEnvelope).version;
+    records = (parsed as ReminderStoreEnvelope).reminders;
+  } else {
+    await quarantineReminderData([{ raw: parsed, reason: 'Reminder store has an unknown shape', schemaVersion: null, quarantinedAt: now }]);
+    await writeReminderStore([]);
+    report.quarantinedCount = 1;
+    return { reminders: [], report };
+  }
+
+  report.fromVersion = version;
+  if (version > REMINDER_SCHEMA_VERSION) {
+    // Never rewrite data we do not understand; a newer build has to read it
+    throw new ReminderStorageError(
+      `Reminder store version ${version} is newer than supported version ${REMINDER_SCHEMA_VERSION}`
+    );
+  }
+
+  const reminders: Reminder[] = [];
+  const rejected: QuarantinedReminder[] = [];
+  for (const record of records) {
+    try {
+      reminders.push(migrateReminderRecord(record, version));
+    } catch (error) {
+      rejected.push({
+        raw: record,
+        reason: error instanceof Error ? error.message : String(error),
+        schemaVersion: version,
+        quarantinedAt: now,
+      });
+    }
+  }
+
+  await quarantineReminderData(rejected);
+  if (version < REMINDER_SCHEMA_VERSION || rejected.length > 0) {
+    await writeReminderStore(reminders);
+  }
+
+  report.reminderCount = reminders.length;
+  report.quarantinedCount = rejected.length;
+  return { reminders, report };
+};
+
+/**
+ * Reads all reminders, upgrading the stored blob if it is out of date
+ *
+ * @returns Promise<Reminder[]> - Array of all readable reminders
+ * @throws ReminderStorageError if the store cannot be read safely
+ */
+export const readReminderStore = async (): Promise<Reminder[]> => {
+  const { reminders } = await loadReminderStore();
+  return reminders;
+};
+
+/**
+ * Writes the full reminder list inside a versioned envelope
+ *
+ * @param reminders - The reminders to persist
+ */
+export const writeReminderStore = async (reminders: Reminder[]) => {
+  const envelope: ReminderStoreEnvelope = {
+    version: REMINDER_SCHEMA_VERSION,
+    reminders,
+  };
+  await AsyncStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(envelope));
+};
+
+/**
+ * Retrieves the values that could not be read from the reminder store
+ *
+ * @returns Promise<QuarantinedReminder[]> - Array of quarantined values
+ * @throws SyntaxError if the stored list is not valid JSON
+ */
+export const getQuarantinedReminders = async (): Promise<QuarantinedReminder[]> => {
+  const json = await AsyncStorage.getItem(QUARANTINE_STORAGE_KEY);
+  return json ? JSON.parse(json) : [];
+};
@@ -0,0 +1,94 @@
+/**
+ * Settings Service
+ * 
+ * This service keeps app-wide preferences:
+ * - Reading settings, with defaults for anything never saved
+ * - Saving changes to individual settings
+ * - Remembering the home screen's reminder filters
+ * 
+ * The theme preference is kept separately by the theme context.
+ * 
+ * @module settingsService
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppSettings } from '../types/settings';
+import { ReminderFilters } from '../types/filters';
+import { DEFAULT_REMINDER_FILTERS } from './reminderQuery';
+
+const SETTINGS_STORAGE_KEY = 'snaply_settings';
+const REMINDER_FILTERS_STORAGE_KEY = 'snaply_reminder_filters';
+
+/**
+ * Settings used until the user changes them
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  notificationsEnabled: true,
+  trashRetentionDays: 30,
+};
+
+/**
+ * Choices offered for how long deleted reminders are kept
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60];
+
+/**
+ * Retrieves the saved settings
+ * 
+ * @returns Promise<AppSettings> - The settings, defaults if none are saved or they cannot be read
+ */
+export const getSettings = async (): Promise<AppSettings> => {
+  try {
+    const settingsJson = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+    return { ...DEFAULT_SETTINGS, ...(settingsJson ? JSON.parse(settingsJson) : {}) };
+  } catch (error) {
+    console.error('Error getting settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Saves changes to some of the settings
+ * 
+ * @param changes - The settings to change
+ * @returns Promise<AppSettings> - The settings after the change
+ * @throws Error if the settings cannot be saved
+ */
+export const updateSettings = async (changes: Partial<AppSettings>): Promise<AppSettings> => {
+  try {
+    const settings = { ...(await getSettings()), ...changes };
+    await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    return settings;
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    throw new Error('Failed to save settings');
+  }
+};
+
+/**
+ * Retrieves the filters last used on the home screen
+ * 
+ * @returns Promise<ReminderFilters> - The saved filters, or filters that match everything
+ */
+export const getReminderFilters = async (): Promise<ReminderFilters> => {
+  try {
+    const filtersJson = await AsyncStorage.getItem(REMINDER_FILTERS_STORAGE_KEY);
+    return { ...DEFAULT_REMINDER_FILTERS, ...(filtersJson ? JSON.parse(filtersJson) : {}) };
+  } catch (error) {
+    console.error('Error getting reminder filters:', error);
+    return DEFAULT_REMINDER_FILTERS;
+  }
+};
+
+/**
+ * Remembers the filters chosen on the home screen
+ * 
+ * @param filters - The filters to save
+ */
+export const saveReminderFilters = async (filters: ReminderFilters) => {
+  try {
+    await AsyncStorage.setItem(REMINDER_FILTERS_STORAGE_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.error('Error saving reminder filters:', error);
+  }
+};
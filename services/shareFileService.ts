@@ -0,0 +1,71 @@
+/**
+ * Share File Service
+ *
+ * This service hands photos and videos to other apps in a form they can read:
+ * - Copying every shared file into a dedicated share directory
+ * - Naming the copies so concurrent shares to several targets never collide
+ *
+ * The copies are handed out as file:// URIs. react-native-share turns them
+ * into content:// URIs of its own FileProvider, which covers the cache
+ * directory, and grants the receiving app read permission. It cannot take
+ * content:// URIs of another provider, so none are produced here.
+ *
+ * Copies are left for the receiving apps to read and are removed with
+ * the other orphaned cache files, see `cleanUpOrphanedMedia`.
+ *
+ * @module shareFileService
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { getExtensionForMimeType } from './mimeTypes';
+import { ReminderMedia, ShareTargetId } from '../types/reminder';
+
+/**
+ * Directory every shared file is served from
+ */
+export const SHARE_DIRECTORY = `${FileSystem.cacheDirectory}snaply_share/`;
+
+/**
+ * Creates the share directory if it doesn't exist
+ */
+const ensureShareDirectoryExists = async () => {
+  const dirInfo = await FileSystem.getInfoAsync(SHARE_DIRECTORY);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(SHARE_DIRECTORY, { intermediates: true });
+  }
+};
+
+/**
+ * Copies a file into the share directory
+ *
+ * @param uri - URI of the file to share
+ * @param fileName - Name of the copy
+ * @returns Promise<string> - file:// URI of the copy
+ */
+export const copyToShareDirectory = async (uri: string, fileName: string): Promise<string> => {
+  await ensureShareDirectoryExists();
+  const destination = `${SHARE_DIRECTORY}${fileName}`;
+  await FileSystem.copyAsync({ from: uri, to: destination });
+  return destination;
+};
+
+/**
+ * Serves a share target's photos and videos from the share directory
+ *
+ * @param media - Media prepared for the target, in carousel order
+ * @param target - The target the media is shared to
+ * @returns Promise<ReminderMedia[]> - The media with the URIs of the copies
+ */
+export const prepareShareFiles = async (media: ReminderMedia[], target: ShareTargetId): Promise<ReminderMedia[]> => {
+  try {
+    const timestamp = Date.now();
+    return await Promise.all(media.map(async (item, index) => {
+      const extension = getExtensionForMimeType(item.mimeType) ?? (item.type === 'video' ? 'mp4' : 'jpg');
+      const uri = await copyToShareDirectory(item.uri, `${timestamp}-${target}-${index}.${extension}`);
+      return { ...item, uri };
+    }));
+  } catch (error) {
+    console.error('Error preparing files for sharing:', error);
+    throw new Error('Failed to prepare files for sharing');
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * Share Results
+ *
+ * Pure helpers for the outcome of sharing a reminder:
+ * - Creating the result of a share attempt
+ * - Describing results in the share history
+ * - Finding the latest result of each platform
+ * - Validating stored results
+ *
+ * @module shareResults
+ */
+
+import { ShareErrorCode, ShareOutcome, ShareResult, ShareTargetId } from '../types/reminder';
+import { isPlainObject } from './validation';
+
+/**
+ * What the user sees for each error code
+ */
+export const SHARE_ERROR_MESSAGES: Record<ShareErrorCode, string> = {
+  not_installed: 'App not installed',
+  not_configured: 'Sharing to this app is not set up',
+  no_media: 'Needs a photo or video',
+  file_error: 'Photos and videos could not be prepared',
+  unknown: 'Sharing failed',
+};
+
+const SHARE_OUTCOMES: ShareOutcome[] = ['shared', 'cancelled', 'failed'];
+
+/**
+ * Records a share attempt that was not a failure
+ *
+ * @param platform - The target shared to
+ * @param outcome - Whether the content was sent or the user cancelled
+ * @returns ShareResult - The result, timestamped now
+ */
+export const createShareResult = (platform: ShareTargetId, outcome: 'shared' | 'cancelled'): ShareResult => ({
+  platform,
+  outcome,
+  sharedAt: new Date().toISOString(),
+});
+
+/**
+ * Records a failed share attempt
+ *
+ * @param platform - The target shared to
+ * @param errorCode - Why sharing failed
+ * @param error - The error thrown while sharing, kept as the result's message
+ * @returns ShareResult - The result, timestamped now
+ */
+export const createFailedShareResult = (
+  platform: ShareTargetId,
+  errorCode: ShareErrorCode,
+  error?: unknown
+): ShareResult => {
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : undefined;
+  return {
+    platform,
+    outcome: 'failed',
+    errorCode,
+    ...(message ? { message } : {}),
+    sharedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Describes how a share attempt ended, e.g. "Shared" or "App not installed"
+ *
+ * @param result - The share attempt
+ * @returns string - A short description
+ */
+export const describeShareResult = (result: ShareResult): string => {
+  switch (result.outcome) {
+    case 'shared':
+      return 'Shared';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'failed':
+      return SHARE_ERROR_MESSAGES[result.errorCode ?? 'unknown'];
+  }
+};
+
+/**
+ * Picks the most recent attempt of each platform from a share history
+ *
+ * @param history - Share attempts, oldest first
+ * @returns ShareResult[] - The latest attempt per platform, in the order platforms were first shared to
+ */
+export const getLatestShareResults = (history: ShareResult[]): ShareResult[] => {
+  const latest = new Map<ShareTargetId, ShareResult>();
+  for (const result of history) {
+    const previous = latest.get(result.platform);
+    if (!previous || new Date(result.sharedAt) >= new Date(previous.sharedAt)) {
+      latest.set(result.platform, result);
+    }
+  }
+  return [...latest.values()];
+};
+
+/**
+ * Reads a stored share result, dropping it if it is malformed
+ *
+ * @param value - The parsed JSON
+ * @returns ShareResult | undefined - The result, or undefined if it is not valid
+ */
+export const toShareResult = (value: unknown): ShareResult | undefined => {
+  if (!isPlainObject(value)) return undefined;
+  if (typeof value.platform !== 'string' || value.platform === '') return undefined;
+  if (typeof value.sharedAt !== 'string' || isNaN(new Date(value.sharedAt).getTime())) return undefined;
+
+  const outcome = SHARE_OUTCOMES.includes(value.outcome as ShareOutcome) ? value.outcome as ShareOutcome : 'failed';
+  const errorCode = typeof value.errorCode === 'string' && value.errorCode in SHARE_ERROR_MESSAGES
+    ? value.errorCode as ShareErrorCode
+    : undefined;
+  return {
+    platform: value.platform,
+    outcome,
+    errorCode: outcome === 'failed' ? errorCode ?? 'unknown' : undefined,
+    message: typeof value.message === 'string' && value.message !== '' ? value.message : undefined,
+    sharedAt: value.sharedAt,
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * Share Targets
+ *
+ * Registry of the apps reminders can be shared to:
+ * - Registering share target adapters
+ * - Looking up targets and their labels
+ * - Picking the targets a reminder is shared to and the media each accepts
+ * - Reading a reminder's settings for a single target
+ *
+ * Built-in targets are registered at startup, see `registerBuiltInShareTargets`.
+ *
+ * @module shareTargets
+ */
+
+import { ReminderMedia, ReminderPlatforms, ReminderTargetOptions, ShareTargetId } from '../types/reminder';
+import { ShareTargetAdapter, ShareTargetOptions } from '../types/shareTarget';
+
+const targets = new Map<ShareTargetId, ShareTargetAdapter>();
+
+/**
+ * Makes a share target selectable on reminders. Registering an id again
+ * replaces the earlier adapter but keeps its place in the list.
+ *
+ * @param adapter - The target to register
+ */
+export const registerShareTarget = (adapter: ShareTargetAdapter): void => {
+  targets.set(adapter.id, adapter);
+};
+
+/**
+ * All registered share targets, in the order they were registered
+ *
+ * @returns ShareTargetAdapter[] - The registered targets
+ */
+export const getShareTargets = (): ShareTargetAdapter[] => Array.from(targets.values());
+
+/**
+ * Looks up a registered share target
+ *
+ * @param id - The id of the target
+ * @returns ShareTargetAdapter | undefined - The target, or undefined if it is not registered
+ */
+export const getShareTarget = (id: ShareTargetId): ShareTargetAdapter | undefined => targets.get(id);
+
+/**
+ * Name of a share target as shown to the user, the id itself for targets
+ * that are no longer registered
+ *
+ * @param id - The id of the target
+ * @returns string - The target's label
+ */
+export const getShareTargetLabel = (id: ShareTargetId): string => targets.get(id)?.label ?? id;
+
+/**
+ * The registered targets a reminder is shared to
+ *
+ * @param platforms - The reminder's platform selection
+ * @returns ShareTargetAdapter[] - Selected targets, in registration order
+ */
+export const getSelectedShareTargets = (platforms: ReminderPlatforms): ShareTargetAdapter[] =>
+  getShareTargets().filter(target => platforms[target.id] === true);
+
+/**
+ * The media a target accepts, in carousel order
+ *
+ * @param target - The target being shared to
+ * @param media - The reminder's media
+ * @returns ReminderMedia[] - Media of the types the target supports
+ */
+export const getShareableMedia = (target: ShareTargetAdapter, media: ReminderMedia[]): ReminderMedia[] =>
+  media.filter(item => target.mediaTypes.includes(item.type));
+
+/**
+ * Turns a target's typed settings into the shape adapters hold. Adapters
+ * are listed together whatever their settings, so the type is erased here
+ * and restored by `getTargetOptions`.
+ *
+ * @param options - The target's settings
+ * @returns ShareTargetOptions - The settings for the adapter's `options`
+ */
+export const defineTargetOptions = <T>(options: ShareTargetOptions<T>): ShareTargetOptions =>
+  options as unknown as ShareTargetOptions;
+
+/**
+ * A reminder's settings for one target, validated by the target
+ *
+ * @param targetOptions - The reminder's settings of all targets
+ * @param targetId - The id of the target
+ * @param options - The target's settings
+ * @returns T - The reminder's settings, or the target's defaults if it has none
+ */
+export const getTargetOptions = <T>(
+  targetOptions: ReminderTargetOptions | undefined,
+  targetId: ShareTargetId,
+  options: ShareTargetOptions<T>
+): T => options.parse(targetOptions?.[targetId]) ?? options.defaultValue;
@@ -1,227 +1,587 @@
 /**
  * Social Media Service
  * 
- * This service handles sharing content to social media platforms:
- * - Instagram sharing (photos and text)
- * - WhatsApp sharing (photos and text)
+ * This service provides the built-in share targets:
+ * - Instagram feed and WhatsApp sharing (photos, videos and text)
+ * - WhatsApp and WhatsApp Business chats with specific phone numbers
+ * - Instagram Stories, with a background or a sticker on a gradient
+ * - Telegram, Facebook and X sharing
+ * - The system share sheet, for any other app
+ * - Sharing several photos and videos at once for carousel posts
  * - Platform availability checking
+ * - Reporting whether each share was sent, cancelled or failed
  * - Fallback sharing mechanisms
  * 
  * @module socialMediaService
  */
 
-import * as FileSystem from 'expo-file-system';
 import { Platform, Linking } from 'react-native';
 import * as Sharing from 'expo-sharing';
 import * as IntentLauncher from 'expo-intent-launcher';
+import Share, { ShareSingleOptions, Social } from 'react-native-share';
+import { ReminderMedia, ShareResult, ShareTargetId } from '../types/reminder';
+import {
+  ShareContent,
+  ShareTargetAdapter,
+  ShareTargetOptions,
+  StoryOptions,
+  WhatsAppApp,
+  WhatsAppOptions,
+} from '../types/shareTarget';
+import { StoryOptionsPicker } from '../components/StoryOptionsPicker';
+import { WhatsAppOptionsPicker } from '../components/WhatsAppOptionsPicker';
+import { getCombinedMimeType } from './mimeTypes';
+import { getShareText } from './captionRules';
+import { DEFAULT_STORY_OPTIONS, getStoryAssets, INSTAGRAM_STORIES_TARGET_ID, toStoryOptions } from './instagramStories';
+import { DEFAULT_WHATSAPP_OPTIONS, toWhatsAppOptions, WHATSAPP_PACKAGES, WHATSAPP_TARGET_ID } from './whatsappOptions';
+import { defineTargetOptions, getTargetOptions, registerShareTarget } from './shareTargets';
+import { createFailedShareResult, createShareResult } from './shareResults';
 
 /**
- * Checks if Instagram is installed on the device
+ * Apps react-native-share can hand media to directly, stories have their own options
+ */
+type AppSocial = Exclude<Social, Social.InstagramStories | Social.FacebookStories>;
+
+/**
+ * iOS uniform type identifiers for the share sheet, keyed by media type
+ */
+const UTI_BY_MEDIA_TYPE: Record<ReminderMedia['type'], string> = {
+  image: 'public.image',
+  video: 'public.movie',
+};
+
+/**
+ * Story layout and gradient colors chosen per reminder
+ */
+const STORY_OPTIONS: ShareTargetOptions<StoryOptions> = {
+  defaultValue: DEFAULT_STORY_OPTIONS,
+  parse: toStoryOptions,
+  Editor: StoryOptionsPicker,
+  appliesTo: media => media.length > 0,
+};
+
+/**
+ * WhatsApp chats and app chosen per reminder
+ */
+const WHATSAPP_OPTIONS: ShareTargetOptions<WhatsAppOptions> = {
+  defaultValue: DEFAULT_WHATSAPP_OPTIONS,
+  parse: toWhatsAppOptions,
+  Editor: WhatsAppOptionsPicker,
+};
+
+/**
+ * Checks if an app that handles a URL scheme is installed on the device
  * 
- * @returns Promise<boolean> - True if Instagram is installed
+ * @param url - A URL the app opens, e.g. `instagram://`
+ * @returns Promise<boolean> - True if the app is installed
  */
-const isInstagramInstalled = async (): Promise<boolean> => {
+const canOpenApp = async (url: string): Promise<boolean> => {
   try {
-    if (Platform.OS === 'ios') {
-      return await Linking.canOpenURL('instagram://');
-    } else {
-      // On Android, we'll try to open Instagram directly
-      return await Linking.canOpenURL('instagram://');
-    }
+    return await Linking.canOpenURL(url);
   } catch (error) {
-    console.error('Error checking Instagram installation:', error);
+    console.error(`Error checking for an app that opens ${url}:`, error);
     return false;
   }
 };
 
 /**
- * Checks if WhatsApp is installed on the device
+ * Shares every photo and video at once through the system share sheet.
+ * Android receives an ACTION_SEND_MULTIPLE intent, iOS opens a multi-file activity sheet.
  * 
- * @returns Promise<boolean> - True if WhatsApp is installed
+ * @param media - The photos and videos to share, in carousel order
+ * @param message - Text to send along with the media
+ * @returns Promise<'shared' | 'cancelled'> - Whether the user completed the share
  */
-const isWhatsAppInstalled = async (): Promise<boolean> => {
-  try {
+const shareMediaWithSheet = async (media: ReminderMedia[], message: string): Promise<'shared' | 'cancelled'> => {
+  const result = await Share.open({
+    urls: media.map(item => item.uri),
+    type: getCombinedMimeType(media.map(item => item.mimeType)),
+    message,
+    failOnCancel: false,
+  });
+  return result.success ? 'shared' : 'cancelled';
+};
+
+/**
+ * Shares every photo and video straight into an app on Android.
+ * react-native-share sends a single file as ACTION_SEND and several as
+ * ACTION_SEND_MULTIPLE, serving each file through its FileProvider with
+ * read access granted to the app.
+ * 
+ * @param social - The app to share to
+ * @param media - The photos and videos to share, in carousel order
+ * @param message - Text to send along with the media
+ */
+const shareMediaToApp = async (social: AppSocial, media: ReminderMedia[], message: string) => {
+  await Share.shareSingle({
+    social,
+    urls: media.map(item => item.uri),
+    type: getCombinedMimeType(media.map(item => item.mimeType)),
+    message,
+  });
+};
+
+/**
+ * Shares text alone through the system share sheet
+ * 
+ * @param message - The text to share
+ * @returns Promise<'shared' | 'cancelled'> - Whether the user completed the share
+ */
+const shareTextWithSheet = async (message: string): Promise<'shared' | 'cancelled'> => {
+  const result = await Share.open({ message, failOnCancel: false });
+  return result.success ? 'shared' : 'cancelled';
+};
+
+/**
+ * Shares to an app that takes media directly on Android and text through
+ * its URL scheme. Media goes through the share sheet on iOS and whenever
+ * the app cannot be opened directly.
+ * 
+ * @param platform - The share target being shared to
+ * @param social - The app to share to
+ * @param textUrl - URL scheme that opens the app with the text filled in
+ * @param media - Photos and videos to share, in carousel order; may be empty
+ * @param message - Text to send along with the media
+ * @returns Promise<ShareResult> - Whether the content was shared
+ */
+const shareToApp = async (
+  platform: ShareTargetId,
+  social: AppSocial,
+  textUrl: string | undefined,
+  media: ReminderMedia[],
+  message: string
+): Promise<ShareResult> => {
+  if (media.length > 0) {
     if (Platform.OS === 'ios') {
-      return await Linking.canOpenURL('whatsapp://');
-    } else {
-      // On Android, we'll try to open WhatsApp directly
-      return await Linking.canOpenURL('whatsapp://');
+      return createShareResult(platform, await shareMediaWithSheet(media, message));
     }
-  } catch (error) {
-    console.error('Error checking WhatsApp installation:', error);
-    return false;
+    try {
+      await shareMediaToApp(social, media, message);
+      return createShareResult(platform, 'shared');
+    } catch (error) {
+      console.warn(`Failed to open ${social} directly, falling back to share sheet:`, error);
+      return createShareResult(platform, await shareMediaWithSheet(media, message));
+    }
+  }
+
+  if (textUrl && await Linking.canOpenURL(textUrl)) {
+    await Linking.openURL(textUrl);
+    return createShareResult(platform, 'shared');
   }
+  return createShareResult(platform, await shareTextWithSheet(message));
 };
 
 /**
  * Shares content to Instagram
  * 
- * @param photoUri - Optional URI of the photo to share
- * @param title - Title of the post
- * @param description - Description or caption for the post
- * @returns Promise<boolean> - True if sharing was successful
+ * @param content - Media, title and caption of the post
+ * @returns Promise<ShareResult> - Whether the post was shared
  */
-export const shareToInstagram = async (photoUri: string | undefined, title: string, description: string): Promise<boolean> => {
+const shareToInstagram = async ({ media, title, description }: ShareContent): Promise<ShareResult> => {
   try {
-    const instagramInstalled = await isInstagramInstalled();
+    const instagramInstalled = await instagramShareTarget.isInstalled();
     
     if (!instagramInstalled) {
       console.warn('Instagram is not installed on this device');
-      return false;
+      return createFailedShareResult(instagramShareTarget.id, 'not_installed');
     }
     
+    const message = getShareText(title, description);
+    
     if (Platform.OS === 'ios') {
-      if (photoUri) {
+      if (media.length === 1) {
+        const [item] = media;
         // For iOS, we need to use the Instagram URL scheme
-        const instagramUrl = `instagram://library?AssetPath=${encodeURIComponent(photoUri)}`;
+        const instagramUrl = `instagram://library?AssetPath=${encodeURIComponent(item.uri)}`;
         const canOpen = await Linking.canOpenURL(instagramUrl);
         
         if (canOpen) {
           await Linking.openURL(instagramUrl);
-          return true;
+          return createShareResult(instagramShareTarget.id, 'shared');
         } else {
           // Fallback to sharing
-          await Sharing.shareAsync(photoUri, {
-            UTI: 'public.jpeg',
-            mimeType: 'image/jpeg',
+          await Sharing.shareAsync(item.uri, {
+            UTI: UTI_BY_MEDIA_TYPE[item.type],
+            mimeType: item.mimeType,
           });
-          return true;
+          return createShareResult(instagramShareTarget.id, 'shared');
         }
+      } else if (media.length > 1) {
+        // The Instagram URL scheme only takes a single asset, so carousels go through the share sheet
+        return createShareResult(instagramShareTarget.id, await shareMediaWithSheet(media, message));
       } else {
         // Text-only sharing on iOS
-        await Sharing.shareAsync(`${title}\n\n${description}`, {
+        await Sharing.shareAsync(message, {
           mimeType: 'text/plain',
         });
-        return true;
+        return createShareResult(instagramShareTarget.id, 'shared');
       }
     } else {
       // Android implementation
-      if (photoUri) {
-        // Try to open Instagram directly
+      if (media.length > 0) {
         try {
-          const instagramUrl = `instagram://library?AssetPath=${encodeURIComponent(photoUri)}`;
-          await Linking.openURL(instagramUrl);
-          return true;
+          await shareMediaToApp(Social.Instagram, media, message);
+          return createShareResult(instagramShareTarget.id, 'shared');
         } catch (error) {
           console.warn('Failed to open Instagram directly, falling back to share sheet:', error);
           // Fallback to share sheet
-          await IntentLauncher.startActivityAsync('android.intent.action.SEND', {
-            type: 'image/jpeg',
-            extra: {
-              'android.intent.extra.STREAM': photoUri,
-              'android.intent.extra.TEXT': `${title}\n\n${description}`,
-            },
-          });
-          return true;
+          return createShareResult(instagramShareTarget.id, await shareMediaWithSheet(media, message));
         }
       } else {
         // Text-only sharing on Android
         await IntentLauncher.startActivityAsync('android.intent.action.SEND', {
           type: 'text/plain',
           extra: {
-            'android.intent.extra.TEXT': `${title}\n\n${description}`,
+            'android.intent.extra.TEXT': message,
           },
         });
-        return true;
+        return createShareResult(instagramShareTarget.id, 'shared');
       }
     }
   } catch (error) {
     console.error('Error sharing to Instagram:', error);
-    return false;
+    return createFailedShareResult(instagramShareTarget.id, 'unknown', error);
   }
 };
 
 /**
- * Shares content to WhatsApp
+ * Opens the Instagram story composer with the reminder's cover. Android
+ * receives the com.instagram.share.ADD_TO_STORY intent, iOS hands the
+ * assets over the pasteboard and opens instagram-stories://share.
+ * Stories take no caption, so the text is not shared.
  * 
- * @param photoUri - Optional URI of the photo to share
- * @param title - Title of the message
- * @param description - Message content
- * @returns Promise<boolean> - True if sharing was successful
+ * @param content - Media prepared for the story and the reminder's story settings
+ * @returns Promise<ShareResult> - Whether the story composer was opened
  */
-export const shareToWhatsApp = async (photoUri: string | undefined, title: string, description: string): Promise<boolean> => {
+const shareToInstagramStories = async ({ media, reminder }: ShareContent): Promise<ShareResult> => {
   try {
-    const whatsappInstalled = await isWhatsAppInstalled();
+    // Instagram only accepts stories from apps registered with Facebook
+    const appId = process.env.EXPO_PUBLIC_FACEBOOK_APP_ID;
+    if (!appId) {
+      console.warn('Set EXPO_PUBLIC_FACEBOOK_APP_ID to share to Instagram Stories');
+      return createFailedShareResult(INSTAGRAM_STORIES_TARGET_ID, 'not_configured');
+    }
+
+    if (!await instagramStoriesShareTarget.isInstalled()) {
+      console.warn('Instagram is not installed on this device');
+      return createFailedShareResult(INSTAGRAM_STORIES_TARGET_ID, 'not_installed');
+    }
+
+    const assets = getStoryAssets(media, getTargetOptions(reminder.targetOptions, INSTAGRAM_STORIES_TARGET_ID, STORY_OPTIONS));
+    if (!assets) {
+      console.warn('Instagram Stories needs a photo or video to share');
+      return createFailedShareResult(INSTAGRAM_STORIES_TARGET_ID, 'no_media');
+    }
+
+    const result = await Share.shareSingle({ social: Social.InstagramStories, appId, ...assets });
+    return result.success
+      ? createShareResult(INSTAGRAM_STORIES_TARGET_ID, 'shared')
+      : createFailedShareResult(INSTAGRAM_STORIES_TARGET_ID, 'unknown', result.message);
+  } catch (error) {
+    console.error('Error sharing to Instagram Stories:', error);
+    return createFailedShareResult(INSTAGRAM_STORIES_TARGET_ID, 'unknown', error);
+  }
+};
+
+/**
+ * Picks the WhatsApp app to send with on Android, the preferred one if it
+ * is installed, otherwise the other one
+ * 
+ * @param preferred - The app chosen on the reminder
+ * @returns Promise<Social.Whatsapp | Social.Whatsappbusiness> - The app to share to
+ */
+const getWhatsAppSocial = async (preferred: WhatsAppApp): Promise<Social.Whatsapp | Social.Whatsappbusiness> => {
+  const toSocial = (app: WhatsAppApp) => (app === 'business' ? Social.Whatsappbusiness : Social.Whatsapp);
+  const fallback: WhatsAppApp = preferred === 'business' ? 'whatsapp' : 'business';
+
+  for (const app of [preferred, fallback]) {
+    try {
+      const { isInstalled } = await Share.isPackageInstalled(WHATSAPP_PACKAGES[app]);
+      if (isInstalled) return toSocial(app);
+    } catch (error) {
+      console.warn(`Error checking for ${WHATSAPP_PACKAGES[app]}:`, error);
+    }
+  }
+  return toSocial(preferred);
+};
+
+/**
+ * Sends media and text straight into WhatsApp on Android. With a recipient
+ * the chat with that number opens, react-native-share passes it as the
+ * `jid` extra; without one WhatsApp asks which chat to send to.
+ * 
+ * @param social - The WhatsApp app to share to
+ * @param media - Photos and videos to send, in carousel order; may be empty
+ * @param message - Text to send along with the media
+ * @param recipient - Phone number of the chat, digits only
+ */
+const sendToWhatsAppChat = async (
+  social: Social.Whatsapp | Social.Whatsappbusiness,
+  media: ReminderMedia[],
+  message: string,
+  recipient?: string
+) => {
+  // whatsAppNumber is read by the native module but missing from its types
+  const options: ShareSingleOptions & { whatsAppNumber?: string } = {
+    social,
+    message,
+    ...(media.length > 0 ? { urls: media.map(item => item.uri), type: getCombinedMimeType(media.map(item => item.mimeType)) } : {}),
+    ...(recipient ? { whatsAppNumber: recipient } : {}),
+  };
+  await Share.shareSingle(options);
+};
+
+/**
+ * Shares content to WhatsApp, to the reminder's recipients if it has any
+ * 
+ * @param content - Media, title and text of the message, and the reminder's WhatsApp settings
+ * @returns Promise<ShareResult> - Whether the message was shared
+ */
+const shareToWhatsApp = async ({ media, title, description, reminder }: ShareContent): Promise<ShareResult> => {
+  try {
+    const whatsappInstalled = await whatsappShareTarget.isInstalled();
     
     if (!whatsappInstalled) {
       console.warn('WhatsApp is not installed on this device');
-      return false;
+      return createFailedShareResult(WHATSAPP_TARGET_ID, 'not_installed');
     }
     
+    const message = getShareText(title, description);
+    const { recipients, app } = getTargetOptions(reminder.targetOptions, WHATSAPP_TARGET_ID, WHATSAPP_OPTIONS);
+    
     if (Platform.OS === 'ios') {
-      if (photoUri) {
-        // For iOS, we need to use the WhatsApp URL scheme
-        const whatsappUrl = `whatsapp://send?text=${encodeURIComponent(`${title}\n\n${description}`)}`;
-        const canOpen = await Linking.canOpenURL(whatsappUrl);
-        
-        if (canOpen) {
-          await Linking.openURL(whatsappUrl);
-          return true;
-        } else {
-          // Fallback to sharing
-          await Sharing.shareAsync(photoUri, {
-            UTI: 'public.jpeg',
-            mimeType: 'image/jpeg',
-          });
-          return true;
-        }
+      if (media.length > 0 || recipients.length > 1) {
+        // The WhatsApp URL scheme only carries text for a single chat, so media and
+        // several chats go through the share sheet, where WhatsApp lets the user pick chats
+        return createShareResult(
+          WHATSAPP_TARGET_ID,
+          media.length > 0 ? await shareMediaWithSheet(media, message) : await shareTextWithSheet(message)
+        );
+      }
+
+      const phone = recipients.length === 1 ? `phone=${recipients[0]}&` : '';
+      const whatsappUrl = `whatsapp://send?${phone}text=${encodeURIComponent(message)}`;
+      const canOpen = await Linking.canOpenURL(whatsappUrl);
+      
+      if (canOpen) {
+        await Linking.openURL(whatsappUrl);
+        return createShareResult(WHATSAPP_TARGET_ID, 'shared');
       } else {
-        // Text-only sharing on iOS
-        const whatsappUrl = `whatsapp://send?text=${encodeURIComponent(`${title}\n\n${description}`)}`;
-        const canOpen = await Linking.canOpenURL(whatsappUrl);
-        
-        if (canOpen) {
-          await Linking.openURL(whatsappUrl);
-          return true;
-        } else {
-          // Fallback to sharing
-          await Sharing.shareAsync(`${title}\n\n${description}`, {
-            mimeType: 'text/plain',
-          });
-          return true;
-        }
+        // Fallback to sharing
+        await Sharing.shareAsync(message, {
+          mimeType: 'text/plain',
+        });
+        return createShareResult(WHATSAPP_TARGET_ID, 'shared');
       }
     } else {
       // Android implementation
-      if (photoUri) {
-        // Try to open WhatsApp directly
-        try {
-          const whatsappUrl = `whatsapp://send?text=${encodeURIComponent(`${title}\n\n${description}`)}`;
-          await Linking.openURL(whatsappUrl);
-          return true;
-        } catch (error) {
-          console.warn('Failed to open WhatsApp directly, falling back to share sheet:', error);
-          // Fallback to share sheet
-          await IntentLauncher.startActivityAsync('android.intent.action.SEND', {
-            type: 'image/jpeg',
-            extra: {
-              'android.intent.extra.STREAM': photoUri,
-              'android.intent.extra.TEXT': `${title}\n\n${description}`,
-            },
-          });
-          return true;
+      try {
+        const social = await getWhatsAppSocial(app);
+        if (recipients.length === 0) {
+          await sendToWhatsAppChat(social, media, message);
         }
-      } else {
-        // Text-only sharing on Android
-        try {
-          const whatsappUrl = `whatsapp://send?text=${encodeURIComponent(`${title}\n\n${description}`)}`;
-          await Linking.openURL(whatsappUrl);
-          return true;
-        } catch (error) {
-          console.warn('Failed to open WhatsApp directly, falling back to share sheet:', error);
-          // Fallback to share sheet
-          await IntentLauncher.startActivityAsync('android.intent.action.SEND', {
-            type: 'text/plain',
-            extra: {
-              'android.intent.extra.TEXT': `${title}\n\n${description}`,
-            },
-          });
-          return true;
+        // Each chat opens on top of the previous one, sending returns to the next
+        for (const recipient of recipients) {
+          await sendToWhatsAppChat(social, media, message, recipient);
         }
+        return createShareResult(WHATSAPP_TARGET_ID, 'shared');
+      } catch (error) {
+        console.warn('Failed to open WhatsApp directly, falling back to share sheet:', error);
+        // Fallback to share sheet
+        return createShareResult(
+          WHATSAPP_TARGET_ID,
+          media.length > 0 ? await shareMediaWithSheet(media, message) : await shareTextWithSheet(message)
+        );
       }
     }
   } catch (error) {
     console.error('Error sharing to WhatsApp:', error);
-    return false;
+    return createFailedShareResult(WHATSAPP_TARGET_ID, 'unknown', error);
+  }
+};
+
+/**
+ * Shares content to Telegram
+ * 
+ * @param content - Media, title and text of the message
+ * @returns Promise<ShareResult> - Whether the message was shared
+ */
+const shareToTelegram = async ({ media, title, description }: ShareContent): Promise<ShareResult> => {
+  try {
+    const message = getShareText(title, description);
+    return await shareToApp(
+      telegramShareTarget.id,
+      Social.Telegram,
+      `tg://msg?text=${encodeURIComponent(message)}`,
+      media,
+      message
+    );
+  } catch (error) {
+    console.error('Error sharing to Telegram:', error);
+    return createFailedShareResult(telegramShareTarget.id, 'unknown', error);
+  }
+};
+
+/**
+ * Shares content to Facebook. Facebook ignores text filled in by other
+ * apps, so the caption is only kept where the composer accepts it.
+ * 
+ * @param content - Media, title and caption of the post
+ * @returns Promise<ShareResult> - Whether the post was shared
+ */
+const shareToFacebook = async ({ media, title, description }: ShareContent): Promise<ShareResult> => {
+  try {
+    return await shareToApp(facebookShareTarget.id, Social.Facebook, undefined, media, getShareText(title, description));
+  } catch (error) {
+    console.error('Error sharing to Facebook:', error);
+    return createFailedShareResult(facebookShareTarget.id, 'unknown', error);
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Shares content to X
+ * 
+ * @param content - Media, title and text of the post
+ * @returns Promise<ShareResult> - Whether the post was shared
+ */
+const shareToX = async ({ media, title, description }: ShareContent): Promise<ShareResult> => {
+  try {
+    const message = getShareText(title, description);
+    return await shareToApp(
+      xShareTarget.id,
+      Social.Twitter,
+      `twitter://post?message=${encodeURIComponent(message)}`,
+      media,
+      message
+    );
+  } catch (error) {
+    console.error('Error sharing to X:', error);
+    return createFailedShareResult(xShareTarget.id, 'unknown', error);
+  }
+};
+
+/**
+ * Shares content through the system share sheet, the user picks the app
+ * 
+ * @param content - Media, title and text to share
+ * @returns Promise<ShareResult> - Whether the user completed the share
+ */
+const shareWithSystemSheet = async ({ media, title, description }: ShareContent): Promise<ShareResult> => {
+  try {
+    const message = getShareText(title, description);
+    return createShareResult(
+      systemShareTarget.id,
+      media.length > 0 ? await shareMediaWithSheet(media, message) : await shareTextWithSheet(message)
+    );
+  } catch (error) {
+    console.error('Error sharing with the share sheet:', error);
+    return createFailedShareResult(systemShareTarget.id, 'unknown', error);
+  }
+};
+
+export const instagramShareTarget: ShareTargetAdapter = {
+  id: 'instagram',
+  label: 'Instagram Feed',
+  icon: 'logo-instagram',
+  color: '#E1306C',
+  defaultFormat: 'portrait',
+  mediaTypes: ['image', 'video'],
+  captionLimits: { maxLength: 2200, maxHashtags: 30 },
+  imageQuality: 0.9,
+  isInstalled: () => canOpenApp('instagram://'),
+  share: shareToInstagram,
+};
+
+export const instagramStoriesShareTarget: ShareTargetAdapter = {
+  id: INSTAGRAM_STORIES_TARGET_ID,
+  label: 'Instagram Story',
+  icon: 'add-circle-outline',
+  color: '#F77737',
+  defaultFormat: 'story',
+  mediaTypes: ['image', 'video'],
+  imageQuality: 0.9,
+  options: defineTargetOptions(STORY_OPTIONS),
+  // Stickers are placed over the gradient as they are, not framed to fill the story
+  usesUnframedMedia: reminder =>
+    getTargetOptions(reminder.targetOptions, INSTAGRAM_STORIES_TARGET_ID, STORY_OPTIONS).layout === 'sticker',
+  isInstalled: () => canOpenApp(Platform.OS === 'ios' ? 'instagram-stories://' : 'instagram://'),
+  share: shareToInstagramStories,
+};
+
+export const whatsappShareTarget: ShareTargetAdapter = {
+  id: WHATSAPP_TARGET_ID,
+  label: 'WhatsApp',
+  icon: 'logo-whatsapp',
+  color: '#25D366',
+  mediaTypes: ['image', 'video'],
+  captionLimits: { maxLength: 65536 },
+  options: defineTargetOptions(WHATSAPP_OPTIONS),
+  // WhatsApp recompresses everything it receives, so a smaller upload loses nothing visible
+  imageQuality: 0.8,
+  isInstalled: () => canOpenApp('whatsapp://'),
+  share: shareToWhatsApp,
+};
+
+export const telegramShareTarget: ShareTargetAdapter = {
+  id: 'telegram',
+  label: 'Telegram',
+  icon: 'paper-plane',
+  color: '#229ED9',
+  mediaTypes: ['image', 'video'],
+  captionLimits: { maxLength: 4096 },
+  isInstalled: () => canOpenApp('tg://'),
+  share: shareToTelegram,
+};
+
+export const facebookShareTarget: ShareTargetAdapter = {
+  id: 'facebook',
+  label: 'Facebook',
+  icon: 'logo-facebook',
+  color: '#1877F2',
+  defaultFormat: 'portrait',
+  mediaTypes: ['image', 'video'],
+  captionLimits: { maxLength: 63206 },
+  isInstalled: () => canOpenApp('fb://'),
+  share: shareToFacebook,
+};
+
+export const xShareTarget: ShareTargetAdapter = {
+  id: 'x',
+  label: 'X',
+  icon: 'logo-twitter',
+  color: '#000000',
+  mediaTypes: ['image', 'video'],
+  captionLimits: { maxLength: 280 },
+  isInstalled: () => canOpenApp('twitter://'),
+  share: shareToX,
+};
+
+export const systemShareTarget: ShareTargetAdapter = {
+  id: 'system',
+  label: 'Other Apps',
+  icon: 'share-outline',
+  color: '#8E8E93',
+  mediaTypes: ['image', 'video'],
+  isInstalled: async () => true,
+  share: shareWithSystemSheet,
+};
+
+/**
+ * Share targets that come with the app, in the order they are offered
+ */
+export const BUILT_IN_SHARE_TARGETS: ShareTargetAdapter[] = [
+  instagramShareTarget,
+  instagramStoriesShareTarget,
+  whatsappShareTarget,
+  telegramShareTarget,
+  facebookShareTarget,
+  xShareTarget,
+  systemShareTarget,
+];
+
+/**
+ * Registers the built-in share targets, called once at startup
+ */
+export const registerBuiltInShareTargets = (): void => {
+  BUILT_IN_SHARE_TARGETS.forEach(registerShareTarget);
+};
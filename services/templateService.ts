@@ -0,0 +1,122 @@
+/**
+ * Template Service
+ *
+ * This service manages caption templates:
+ * - Creating, editing and deleting templates
+ * - Restoring templates from a backup
+ *
+ * Templates are stored in the reminder database. Their placeholders are
+ * copied into reminders as written and filled in at share time, see
+ * `expandCaption`.
+ *
+ * @module templateService
+ */
+
+import { CaptionTemplate } from '../types/template';
+import {
+  findAllCaptionTemplates,
+  removeCaptionTemplate,
+  saveCaptionTemplate,
+} from './reminderRepository';
+
+/**
+ * Fields of a template the user edits
+ */
+export type CaptionTemplateFields = Pick<CaptionTemplate, 'name' | 'title' | 'description'>;
+
+/**
+ * Retrieves all caption templates, ordered by name
+ *
+ * @returns Promise<CaptionTemplate[]> - Array of all templates
+ * @throws Error if the templates cannot be read
+ */
+export const getCaptionTemplates = async (): Promise<CaptionTemplate[]> => {
+  try {
+    return await findAllCaptionTemplates();
+  } catch (error) {
+    console.error('Error getting caption templates:', error);
+    throw new Error('Failed to load caption templates');
+  }
+};
+
+/**
+ * Saves a new caption template
+ *
+ * @param fields - Name, title and caption of the template
+ * @returns Promise<CaptionTemplate> - The created template
+ * @throws Error if the template cannot be saved
+ */
+export const createCaptionTemplate = async (fields: CaptionTemplateFields): Promise<CaptionTemplate> => {
+  try {
+    const now = new Date().toISOString();
+    const template: CaptionTemplate = {
+      id: Date.now().toString(),
+      ...fields,
+      name: fields.name.trim(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await saveCaptionTemplate(template);
+    return template;
+  } catch (error) {
+    console.error('Error creating caption template:', error);
+    throw new Error('Failed to create caption template');
+  }
+};
+
+/**
+ * Changes an existing caption template
+ *
+ * @param template - The template with its new fields
+ * @returns Promise<CaptionTemplate> - The saved template
+ * @throws Error if the template cannot be saved
+ */
+export const updateCaptionTemplate = async (template: CaptionTemplate): Promise<CaptionTemplate> => {
+  try {
+    const updatedTemplate = { ...template, name: template.name.trim(), updatedAt: new Date().toISOString() };
+    await saveCaptionTemplate(updatedTemplate);
+    return updatedTemplate;
+  } catch (error) {
+    console.error('Error updating caption template:', error);
+    throw new Error('Failed to update caption template');
+  }
+};
+
+/**
+ * Deletes a caption template. Reminders created from it keep their text.
+ *
+ * @param id - The ID of the template to delete
+ * @returns Promise<boolean> - True if deletion was successful
+ * @throws Error if the template cannot be deleted
+ */
+export const deleteCaptionTemplate = async (id: string): Promise<boolean> => {
+  try {
+    return await removeCaptionTemplate(id);
+  } catch (error) {
+    console.error('Error deleting caption template:', error);
+    throw new Error('Failed to delete caption template');
+  }
+};
+
+/**
+ * Restores templates from a backup. A template that already exists is
+ * replaced only if the backup's copy was edited later.
+ *
+ * @param templates - The templates to restore
+ * @returns Promise<void>
+ * @throws Error if the templates cannot be saved
+ */
+export const restoreCaptionTemplates = async (templates: CaptionTemplate[]): Promise<void> => {
+  try {
+    const existing = await findAllCaptionTemplates();
+    for (const template of templates) {
+      const current = existing.find(t => t.id === template.id);
+      if (!current || new Date(template.updatedAt).getTime() > new Date(current.updatedAt).getTime()) {
+        await saveCaptionTemplate(template);
+      }
+    }
+  } catch (error) {
+    console.error('Error restoring caption templates:', error);
+    throw new Error('Failed to restore caption templates');
+  }
+};
@@ -0,0 +1,25 @@
+/**
+ * Trash
+ *
+ * Pure rules for reminders in the trash:
+ * - Finding the reminders kept longer than the retention period
+ *
+ * @module trash
+ */
+
+import { Reminder } from '../types/reminder';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Picks the trashed reminders that are due to be purged
+ *
+ * @param reminders - Reminders in the trash
+ * @param retentionDays - How many days the trash keeps a reminder
+ * @param now - The current time
+ * @returns Reminder[] - Reminders deleted more than the retention period before now
+ */
+export const getExpiredTrash = (reminders: Reminder[], retentionDays: number, now: Date): Reminder[] => {
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  return reminders.filter(reminder => reminder.deletedAt && new Date(reminder.deletedAt).getTime() < cutoff);
+};
@@ -0,0 +1,21 @@
+/**
+ * Validation
+ *
+ * Type guards shared by the modules that read stored or imported data:
+ * - Telling JSON objects apart from arrays and primitives
+ * - Checking colors entered as hex strings
+ *
+ * @module validation
+ */
+
+/**
+ * Checks whether a parsed JSON value is an object, not an array or null
+ */
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks whether a value is a six digit hex color such as `#833AB4`
+ */
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
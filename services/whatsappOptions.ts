@@ -0,0 +1,88 @@
+/**
+ * WhatsApp Options
+ *
+ * Pure helpers for sending a reminder to WhatsApp:
+ * - Package names of WhatsApp and WhatsApp Business
+ * - Cleaning up typed recipient phone numbers
+ * - Validating stored WhatsApp settings
+ *
+ * @module whatsappOptions
+ */
+
+import { ShareTargetId } from '../types/reminder';
+import { WhatsAppApp, WhatsAppOptions } from '../types/shareTarget';
+import { isPlainObject } from './validation';
+
+/**
+ * Id of the WhatsApp share target
+ */
+export const WHATSAPP_TARGET_ID: ShareTargetId = 'whatsapp';
+
+/**
+ * Android package of each WhatsApp app
+ */
+export const WHATSAPP_PACKAGES: Record<WhatsAppApp, string> = {
+  whatsapp: 'com.whatsapp',
+  business: 'com.whatsapp.w4b',
+};
+
+/**
+ * WhatsApp settings of reminders that never chose any
+ */
+export const DEFAULT_WHATSAPP_OPTIONS: WhatsAppOptions = {
+  recipients: [],
+  app: 'whatsapp',
+};
+
+// E.164 numbers have at most 15 digits, the shortest in use have 7
+const PHONE_NUMBER_PATTERN = /^[1-9]\d{6,14}$/;
+
+/**
+ * Turns a typed phone number into the digits WhatsApp expects, e.g.
+ * "+44 (20) 7946-0958" into "442079460958"
+ *
+ * @param input - The number as typed, with country code
+ * @returns string | undefined - The digits, or undefined if it is not a valid international number
+ */
+export const normalizePhoneNumber = (input: string): string | undefined => {
+  const digits = input.trim().replace(/[\s().-]/g, '').replace(/^(\+|00)/, '');
+  return PHONE_NUMBER_PATTERN.test(digits) ? digits : undefined;
+};
+
+/**
+ * Reads recipient numbers separated by commas or new lines
+ *
+ * @param input - The typed numbers
+ * @returns { recipients: string[]; invalid: string[] } - Valid numbers without repeats, and the entries that are not numbers
+ */
+export const parseRecipients = (input: string): { recipients: string[]; invalid: string[] } => {
+  const recipients: string[] = [];
+  const invalid: string[] = [];
+  for (const entry of input.split(/[,;\n]+/).map(part => part.trim()).filter(Boolean)) {
+    const number = normalizePhoneNumber(entry);
+    if (!number) {
+      invalid.push(entry);
+    } else if (!recipients.includes(number)) {
+      recipients.push(number);
+    }
+  }
+  return { recipients, invalid };
+};
+
+/**
+ * Reads stored WhatsApp settings, dropping numbers that are not valid
+ *
+ * @param value - The parsed JSON
+ * @returns WhatsAppOptions | undefined - The settings, or undefined if there are none
+ */
+export const toWhatsAppOptions = (value: unknown): WhatsAppOptions | undefined => {
+  if (!isPlainObject(value)) return undefined;
+
+  const recipients = Array.isArray(value.recipients)
+    ? value.recipients.filter((number): number is string => typeof number === 'string' && PHONE_NUMBER_PATTERN.test(number))
+    : [];
+  return {
+    recipients,
+    app: value.app === 'business' ? 'business' : 'whatsapp',
+  };
+};
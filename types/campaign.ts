@@ -0,0 +1,23 @@
+/**
+ * A user-defined group of reminders, e.g. a product launch or a festival week
+ */
+export interface Campaign {
+  id: string;
+  name: string;
+  /** Hex color used for the campaign's chips */
+  color: string;
+  createdAt: string;
+}
+
+/**
+ * How the posts in a campaign are going
+ */
+export interface CampaignSummary {
+  campaign: Campaign;
+  /** Posts still to come */
+  planned: number;
+  /** Posts shared or marked done */
+  shared: number;
+  /** Posts whose time passed without being shared */
+  missed: number;
+}
@@ -0,0 +1,28 @@
+import {
+  PlatformCaptions,
+  RecurrenceRule,
+  ReminderFraming,
+  ReminderMedia,
+  ReminderPlatforms,
+  ReminderTargetOptions,
+  TextOverlay,
+} from './reminder';
+
+/**
+ * Unsaved state of the create-reminder form
+ */
+export interface ReminderDraft {
+  id: string;
+  title: string;
+  description: string;
+  date: string;
+  media: ReminderMedia[];
+  framing: ReminderFraming;
+  overlay?: TextOverlay;
+  platforms: ReminderPlatforms;
+  captions?: PlatformCaptions;
+  targetOptions?: ReminderTargetOptions;
+  recurrence?: RecurrenceRule;
+  campaignId?: string;
+  updatedAt: string;
+}
@@ -0,0 +1,46 @@
+import { ShareTargetId } from './reminder';
+
+/**
+ * State of a reminder as offered by the status filter
+ * - `upcoming` is due in the future and not completed
+ * - `overdue` was due in the past and is not completed
+ * - `completed` has been marked done, or the series has ended
+ * - `shared` was shared successfully at least once
+ */
+export type ReminderStatusFilter = 'upcoming' | 'overdue' | 'completed' | 'shared';
+
+/**
+ * Date window offered by the date filter, `custom` uses the range's own bounds
+ */
+export type DateRangePreset = 'any' | 'today' | 'next7' | 'next30' | 'past30' | 'custom';
+
+/**
+ * Date window a reminder's next due date must fall in
+ */
+export interface DateRangeFilter {
+  preset: DateRangePreset;
+  /** First day of a custom range */
+  from?: string;
+  /** Last day of a custom range, inclusive */
+  to?: string;
+}
+
+/**
+ * Filters chosen on the home screen, remembered between sessions.
+ * Empty lists match every reminder.
+ */
+export interface ReminderFilters {
+  platforms: ShareTargetId[];
+  statuses: ReminderStatusFilter[];
+  dateRange: DateRangeFilter;
+  /** Ids of the campaigns to show, see `Campaign` */
+  campaignIds: string[];
+}
+
+/**
+ * Filters plus the free text typed into the search bar
+ */
+export interface ReminderQuery extends ReminderFilters {
+  /** Words that must all appear in the title or description */
+  text: string;
+}
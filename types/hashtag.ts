@@ -0,0 +1,12 @@
+/**
+ * A named group of hashtags that can be added to a caption in one tap
+ */
+export interface HashtagSet {
+  id: string;
+  name: string;
+  /** Hashtags including their leading `#` */
+  hashtags: string[];
+  /** How many times the set has been inserted into a caption */
+  usageCount: number;
+  createdAt: string;
+}
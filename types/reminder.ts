@@ -1,3 +1,173 @@
+/**
+ * Id of a registered share target, e.g. `instagram`, see `ShareTargetAdapter`
+ */
+export type ShareTargetId = string;
+
+/**
+ * Whether a reminder is shared to each target, keyed by share target id
+ */
+export type ReminderPlatforms = Record<ShareTargetId, boolean>;
+
+/**
+ * Caption to use instead of the description on a platform, keyed by share target id
+ */
+export type PlatformCaptions = Partial<Record<ShareTargetId, string>>;
+
+/**
+ * Settings of single share targets, keyed by share target id. Each target
+ * validates its own entry, see `ShareTargetOptions`
+ */
+export type ReminderTargetOptions = Partial<Record<ShareTargetId, unknown>>;
+
+/**
+ * How often a recurring reminder repeats
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * RRULE-style recurrence rule for a reminder
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days, weeks or months */
+  interval: number;
+  /** Days of the week for weekly rules, 0 = Sunday */
+  weekdays?: number[];
+  /** Day of the month for monthly rules, months without that day are skipped */
+  monthDay?: number;
+  /** Last moment an occurrence may fall on */
+  until?: string;
+  /** Total number of occurrences, counted from the first one */
+  count?: number;
+}
+
+/**
+ * Status of a single occurrence of a recurring reminder
+ * - `missed`: its time passed long ago without it being completed or skipped
+ */
+export type OccurrenceStatus = 'scheduled' | 'completed' | 'skipped' | 'missed';
+
+/**
+ * A single expanded occurrence of a recurring reminder
+ */
+export interface ReminderOccurrence {
+  date: string;
+  status: OccurrenceStatus;
+}
+
+/**
+ * Rectangle within an image, all values relative to the image size (0 to 1)
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How photos are fitted into a platform's aspect ratio before sharing
+ * - `center-crop` fills the frame and trims the edges
+ * - `fit-blur` shows the whole photo over a blurred, enlarged copy of itself
+ * - `manual` trims to the crop chosen for each photo
+ */
+export type FramingMode = 'center-crop' | 'fit-blur' | 'manual';
+
+/**
+ * Output format of a shared photo: 9:16 story, 1:1 square, 4:5 portrait
+ * feed post, or the photo's own aspect ratio
+ */
+export type ShareFormat = 'story' | 'square' | 'portrait' | 'original';
+
+/**
+ * Output formats with a fixed size, every format except `original`
+ */
+export type FixedShareFormat = Exclude<ShareFormat, 'original'>;
+
+/**
+ * Per-reminder choice of framing and output format for each platform
+ */
+export interface ReminderFraming {
+  mode: FramingMode;
+  /** Format per share target, targets without one use the target's default format */
+  formats: Record<ShareTargetId, ShareFormat>;
+}
+
+/**
+ * Kind of media attached to a reminder
+ */
+export type MediaType = 'image' | 'video';
+
+/**
+ * A single photo or video attached to a reminder, kept in the order it is posted
+ */
+export interface ReminderMedia {
+  id: string;
+  uri: string;
+  type: MediaType;
+  /** MIME type reported by the picker, e.g. `video/mp4` */
+  mimeType: string;
+  /** Still frame shown in place of a video */
+  thumbnailUri?: string;
+  /** Length of a video in milliseconds */
+  duration?: number;
+  /** Region to keep when the reminder uses manual framing */
+  crop?: CropRect;
+}
+
+/**
+ * Typeface family of a caption overlay
+ */
+export type OverlayFont = 'sans' | 'serif' | 'mono';
+
+/**
+ * Vertical placement of a caption overlay, kept clear of the story header and reply bar
+ */
+export type OverlayPosition = 'top' | 'center' | 'bottom';
+
+/**
+ * Caption text burned into the cover photo before sharing
+ */
+export interface TextOverlay {
+  /** Burn in the reminder title, or `text` when set to `custom` */
+  source: 'title' | 'custom';
+  text: string;
+  font: OverlayFont;
+  /** Text color as a hex string */
+  color: string;
+  /** Color of the rounded pill drawn behind the text, no pill when undefined */
+  pillColor?: string;
+  position: OverlayPosition;
+}
+
+/**
+ * How an attempt to share a reminder ended
+ * - `shared`: the content was handed to the app or sent from the share sheet
+ * - `cancelled`: the user closed the share sheet without sending
+ * - `failed`: the content could not be shared, see the error code
+ */
+export type ShareOutcome = 'shared' | 'cancelled' | 'failed';
+
+/**
+ * Why an attempt to share a reminder failed
+ */
+export type ShareErrorCode = 'not_installed' | 'not_configured' | 'no_media' | 'file_error' | 'unknown';
+
+/**
+ * A single attempt to share a reminder to a platform, as kept in the
+ * reminder's share history
+ */
+export interface ShareResult {
+  platform: ShareTargetId;
+  outcome: ShareOutcome;
+  /** Set when the attempt failed */
+  errorCode?: ShareErrorCode;
+  /** Details of a failure, e.g. the error reported by the app */
+  message?: string;
+  /** When the attempt was made */
+  sharedAt: string;
+}
+
 /**
  * Represents a reminder in the application
  */
@@ -6,11 +176,25 @@ export interface Reminder {
   title: string;
   description: string;
   date: string;
-  photoUri?: string;
-  platforms: {
-    instagram: boolean;
-    whatsapp: boolean;
-  };
+  /** Photos and videos in carousel order, the first one is the cover */
+  media: ReminderMedia[];
+  framing: ReminderFraming;
+  /** Caption burned into the cover photo, none when undefined */
+  overlay?: TextOverlay;
+  platforms: ReminderPlatforms;
+  /** Per-platform captions, platforms without one share the description */
+  captions?: PlatformCaptions;
+  /** Settings of single targets, targets without an entry use their defaults */
+  targetOptions?: ReminderTargetOptions;
+  completed: boolean;
+  recurrence?: RecurrenceRule;
+  /** Campaign the reminder belongs to, see `Campaign` */
+  campaignId?: string;
+  /** Occurrences expanded so far, only set for recurring reminders */
+  occurrences?: ReminderOccurrence[];
+  shareHistory: ShareResult[];
   createdAt: string;
   updatedAt: string;
-} 
\ No newline at end of file
+  /** When the reminder was moved to the trash, unset while it is active */
+  deletedAt?: string;
+}
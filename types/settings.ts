@@ -0,0 +1,13 @@
+/**
+ * Light, dark, or follow the system appearance
+ */
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+/**
+ * App-wide preferences kept across launches
+ */
+export interface AppSettings {
+  notificationsEnabled: boolean;
+  /** Days a deleted reminder stays in the trash before it is purged */
+  trashRetentionDays: number;
+}
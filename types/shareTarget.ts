@@ -0,0 +1,109 @@
+import type { Ionicons } from '@expo/vector-icons';
+import type { ComponentType } from 'react';
+import { MediaType, Reminder, ReminderMedia, ShareFormat, ShareResult, ShareTargetId } from './reminder';
+
+/**
+ * Limits a platform puts on shared text, a missing limit means none
+ */
+export interface CaptionLimits {
+  maxLength: number;
+  maxHashtags?: number;
+}
+
+/**
+ * Props of the editor a target shows in the reminder form for its settings
+ */
+export interface TargetOptionsEditorProps<T> {
+  value: T;
+  onChange: (value: T) => void;
+  /** The reminder's media, in carousel order */
+  media: ReminderMedia[];
+}
+
+/**
+ * Per-reminder settings of a target, stored under its id in the
+ * reminder's `targetOptions`
+ */
+export interface ShareTargetOptions<T = unknown> {
+  /** Settings of reminders that never chose any */
+  defaultValue: T;
+  /** Reads stored settings, including shapes written by older versions; undefined if there are none */
+  parse: (value: unknown) => T | undefined;
+  /** Form section for the settings, shown while the target is selected */
+  Editor: ComponentType<TargetOptionsEditorProps<T>>;
+  /** Whether the settings apply to the reminder's media, the editor is always shown when unset */
+  appliesTo?: (media: ReminderMedia[]) => boolean;
+}
+
+/**
+ * What a share target receives when a reminder is shared
+ */
+export interface ShareContent {
+  /** Photos and videos prepared for the target, in carousel order; may be empty. Copies in the share directory */
+  media: ReminderMedia[];
+  title: string;
+  description: string;
+  /** The reminder being shared, for settings of a single target */
+  reminder: Reminder;
+}
+
+/**
+ * An app or system service reminders can be shared to. Registering an
+ * adapter makes it selectable on every reminder, see `registerShareTarget`.
+ */
+export interface ShareTargetAdapter {
+  /** Key of the target in a reminder's platforms, captions and share history */
+  id: ShareTargetId;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  /** Hex color of the target's calendar dots */
+  color: string;
+  /** Media the target accepts, anything else is left out when sharing */
+  mediaTypes: MediaType[];
+  /** Caption limits, captions are not checked when unset */
+  captionLimits?: CaptionLimits;
+  /** Format photos are prepared in when the reminder chose none, `original` when unset */
+  defaultFormat?: ShareFormat;
+  /** Settings the target keeps per reminder, see `defineTargetOptions` */
+  options?: ShareTargetOptions;
+  /** Whether a reminder's photos go out unframed and without the overlay, only scaled down in their own aspect ratio */
+  usesUnframedMedia?: (reminder: Reminder) => boolean;
+  /** JPEG quality of photos prepared for the target, 0.9 when unset */
+  imageQuality?: number;
+  /** Whether the target can be opened on this device */
+  isInstalled: () => Promise<boolean>;
+  /** Hands the content to the target, resolving to whether it was shared, cancelled or failed */
+  share: (content: ShareContent) => Promise<ShareResult>;
+}
+
+/**
+ * How the cover is placed in an Instagram story
+ * - `background` fills the story with the cover photo or video
+ * - `sticker` puts the cover photo on a gradient of the story colors
+ */
+export type StoryLayout = 'background' | 'sticker';
+
+/**
+ * Per-reminder settings for sharing to Instagram Stories
+ */
+export interface StoryOptions {
+  layout: StoryLayout;
+  /** Gradient colors behind a sticker, as hex strings */
+  topColor: string;
+  bottomColor: string;
+}
+
+/**
+ * WhatsApp app to send with, on Android both can be installed side by side
+ */
+export type WhatsAppApp = 'whatsapp' | 'business';
+
+/**
+ * Per-reminder settings for sharing to WhatsApp
+ */
+export interface WhatsAppOptions {
+  /** Phone numbers in international format, digits only; WhatsApp's chat picker opens when empty */
+  recipients: string[];
+  /** App to use when both are installed */
+  app: WhatsAppApp;
+}
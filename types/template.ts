@@ -0,0 +1,12 @@
+/**
+ * A reusable title and caption. Placeholders such as `{date}` are kept in the
+ * reminder and only filled in when it is shared.
+ */
+export interface CaptionTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+}